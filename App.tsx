@@ -1,32 +1,319 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { ParkingMap } from './components/ParkingMap';
-import { fetchParkingData } from './services/api';
-import { ParkingLotData } from './types';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { DistrictOverlay, FocusRequest, NearbyArea, ParkingMap } from './components/ParkingMap';
+import { ForecastControls, ViewMode } from './components/ForecastControls';
+import { FilterPanel } from './components/FilterPanel';
+import { OfflineTilesPanel } from './components/OfflineTilesPanel';
+import { SourceHealthBar } from './components/SourceHealthBar';
+import { Navigation } from './components/RouteInfo';
+import { FavoritesPanel } from './components/FavoritesPanel';
+import { VehicleToggle } from './components/VehicleToggle';
+import { ExportPanel } from './components/ExportPanel';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { LotDetailPanel } from './components/LotDetailPanel';
+import { NearbyPanel } from './components/NearbyPanel';
+import { DistrictDashboard } from './components/DistrictDashboard';
+import { DrivingPanel } from './components/DrivingPanel';
+import { loadParkingData } from './services/pipeline';
+import { getSlotStatsAt, recordSnapshot } from './services/historyStore';
+import { keyOf, lotKey } from './services/identity';
+import { applyFilters, filtersFromSearchParams, filtersToSearchParams, LotFilters } from './services/filters';
+import { getAdapters } from './services/sources';
+import { forecastLot } from './services/forecast';
+import { availableOf, capacityOf } from './services/vehicles';
+import { loadSnapshot, saveSnapshot } from './services/snapshotCache';
+import { RouteMode, planRoute } from './services/routing';
+import { destinationOf } from './services/entrances';
+import {
+  favoriteKey,
+  isFavorite,
+  loadFavorites,
+  loadWatchRules,
+  loadWatchState,
+  saveFavorites,
+  saveWatchRules,
+  saveWatchState,
+  toggleFavorite
+} from './services/favorites';
+import { evaluateRules } from './services/watchRules';
+import { showWatchAlert } from './services/notifications';
+import { ImportedSnapshot } from './services/snapshotExport';
+import { LatLng, createSpatialIndex } from './services/geo';
+import { AvailabilityChanges, HIGHLIGHT_MS, diffAvailability } from './services/changes';
+import { CadenceState, nextRefreshDelay, updateCadence } from './services/refreshSchedule';
+import { DEFAULT_NEARBY_QUERY, NearbyQuery, radiusMetersOf, searchNearby } from './services/nearby';
+import { DistrictBoundaries, aggregateDistricts, createDistrictIndex, loadDistrictBoundaries } from './services/districts';
+import { PositionFix, PositionSource, createHeadingTracker, geolocationSource } from './services/positionSource';
+import { DrivingSuggestion, rankForDriving } from './services/driving';
+import {
+  Locale,
+  MessageKey,
+  formatDateTime,
+  formatList,
+  formatNumber,
+  formatTime,
+  getLocale,
+  setLocale,
+  sourceAttribution,
+  sourceLabel,
+  t
+} from './services/i18n';
+import { FavoriteLot, ParkingLotData, SourceHealth, WatchRule } from './types';
 
-// Refresh interval: 5 minutes (in milliseconds)
-const REFRESH_INTERVAL = 5 * 60 * 1000;
+const formatAge = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return t('age.minutes', { count: minutes });
+  if (minutes < 48 * 60) return t('age.hours', { count: Math.round(minutes / 60) });
+  return t('age.days', { count: Math.round(minutes / (24 * 60)) });
+};
 
 function App() {
   const [parkingData, setParkingData] = useState<ParkingLotData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  // A message key, so the banner follows locale changes
+  const [error, setError] = useState<MessageKey | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [locating, setLocating] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('live');
+  const [arrival, setArrival] = useState<number | null>(null);
+  const [forecastData, setForecastData] = useState<ParkingLotData[] | null>(null);
+  const [filters, setFilters] = useState<LotFilters>(() =>
+    filtersFromSearchParams(new URLSearchParams(window.location.search))
+  );
+  const [panelOpen, setPanelOpen] = useState<boolean>(true);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  // Set when the map shows the cached snapshot instead of live data
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  const [now, setNow] = useState<number>(Date.now());
+  const [tilesPanelOpen, setTilesPanelOpen] = useState<boolean>(false);
+  const [sourceHealth, setSourceHealth] = useState<SourceHealth[]>([]);
+  const [navigation, setNavigation] = useState<Navigation | null>(null);
+  const [favorites, setFavorites] = useState<FavoriteLot[]>(loadFavorites);
+  const [watchRules, setWatchRules] = useState<WatchRule[]>(loadWatchRules);
+  const [favoritesOpen, setFavoritesOpen] = useState<boolean>(false);
+  const [exportOpen, setExportOpen] = useState<boolean>(false);
+  const [overlay, setOverlay] = useState<ImportedSnapshot | null>(null);
+  // Lot shown in the detail panel; resolved by key so it follows refreshes
+  const [detailKey, setDetailKey] = useState<string | null>(null);
+  const [nearbyOpen, setNearbyOpen] = useState<boolean>(false);
+  const [nearbyQuery, setNearbyQuery] = useState<NearbyQuery>(DEFAULT_NEARBY_QUERY);
+  const [pickingPoint, setPickingPoint] = useState<boolean>(false);
+  const [districtsOpen, setDistrictsOpen] = useState<boolean>(false);
+  const [districtBoundaries, setDistrictBoundaries] = useState<DistrictBoundaries | null>(null);
+  const [driving, setDriving] = useState<boolean>(false);
+  const [drivingFix, setDrivingFix] = useState<PositionFix | null>(null);
+  const [drivingError, setDrivingError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<DrivingSuggestion[]>([]);
+  // The device GPS; a replaySource would play a recorded track back instead
+  const positionSource = useRef<PositionSource>(geolocationSource());
+  // t() reads the module-level locale; this state only triggers the re-render
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  // loadData is stable, so it reads the current rules through a ref
+  const watchRulesRef = useRef<WatchRule[]>(watchRules);
+  watchRulesRef.current = watchRules;
+  const hasLiveData = useRef<boolean>(false);
+  // Previous live load, to tell which lots changed; cached snapshots are never diffed
+  const lastLiveData = useRef<ParkingLotData[] | null>(null);
+  const cadence = useRef<CadenceState>({});
+  const [changes, setChanges] = useState<AvailabilityChanges | null>(null);
+
+  const sourceOptions = useMemo(() => getAdapters().map(a => ({ id: a.id, label: sourceLabel(a.id) })), [locale]);
+
+  const handleLocaleChange = useCallback((next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const districtIndex = useMemo(
+    () => (districtBoundaries ? createDistrictIndex(districtBoundaries) : null),
+    [districtBoundaries]
+  );
+
+  // Boundaries are only fetched once the dashboard opens or a shared link filters by district
+  const needsDistricts = districtsOpen || filters.district !== '';
+  useEffect(() => {
+    if (!needsDistricts || districtBoundaries) return;
+    loadDistrictBoundaries()
+      .then(setDistrictBoundaries)
+      .catch(err => console.warn("Failed to load district boundaries:", err));
+  }, [needsDistricts, districtBoundaries]);
+
+  // Only the distance sort reads the location, so other sorts are not redone on every driving-mode fix
+  const sortOrigin = filters.sort === 'distance' ? userLocation : null;
+  const visibleData = useMemo(
+    () => applyFilters(forecastData ?? parkingData, filters, { userLocation: sortOrigin, now: arrival ?? undefined, districts: districtIndex }),
+    [forecastData, parkingData, filters, sortOrigin, arrival, districtIndex]
+  );
+
+  // Every loaded lot, not just the filtered ones, so choosing a district does not empty the others
+  const districtStats = useMemo(
+    () => (districtsOpen && districtIndex ? aggregateDistricts(forecastData ?? parkingData, districtIndex, filters.vehicle) : null),
+    [districtsOpen, districtIndex, forecastData, parkingData, filters.vehicle]
+  );
+
+  const selectDistrict = useCallback((district: string) => {
+    setFilters(current => ({ ...current, district }));
+  }, []);
+
+  const selectedDistrict = useMemo(
+    () => districtIndex?.districts.find(d => d.id === filters.district) ?? null,
+    [districtIndex, filters.district]
+  );
+
+  const districtOverlay = useMemo<DistrictOverlay | null>(
+    () => (districtBoundaries && districtStats
+      ? { boundaries: districtBoundaries, stats: districtStats.districts, selected: filters.district, onSelect: selectDistrict }
+      : null),
+    [districtBoundaries, districtStats, filters.district, selectDistrict]
+  );
+
+  // The lot being navigated to shows what is expected on arrival rather than now
+  const mapData = useMemo(() => {
+    const expected = navigation?.arrivalForecast;
+    if (!expected || expected.method === 'none') return visibleData;
+    return visibleData.map(lot =>
+      keyOf(lot) === navigation.key && !lot.forecast ? { ...lot, forecast: expected } : lot
+    );
+  }, [visibleData, navigation]);
+
+  // Rebuilt only when the filtered set changes; radius and weight changes just query it
+  const lotIndex = useMemo(() => createSpatialIndex(visibleData), [visibleData]);
+
+  const nearbyResults = useMemo(
+    () => (nearbyOpen ? searchNearby(lotIndex, nearbyQuery, filters.vehicle, arrival ?? undefined) : []),
+    [nearbyOpen, lotIndex, nearbyQuery, filters.vehicle, arrival]
+  );
+
+  const nearbyArea = useMemo<NearbyArea | null>(
+    () => (nearbyOpen && nearbyQuery.center
+      ? { center: nearbyQuery.center, radiusMeters: radiusMetersOf(nearbyQuery), label: nearbyQuery.label }
+      : null),
+    [nearbyOpen, nearbyQuery]
+  );
+
+  // Follow the device while driving, keeping the screen on so the cards stay glanceable
+  useEffect(() => {
+    if (!driving) return;
+    const track = createHeadingTracker();
+    const stop = positionSource.current.start(raw => {
+      const fix = track(raw);
+      setDrivingFix(fix);
+      setDrivingError(null);
+      setUserLocation({ lat: fix.lat, lng: fix.lng });
+    }, err => {
+      console.error("Driving mode position error:", err);
+      setDrivingError(err.message);
+    });
+    let stopped = false;
+    let wakeLock: WakeLockSentinel | null = null;
+    navigator.wakeLock?.request('screen')
+      .then(lock => {
+        wakeLock = lock;
+        if (stopped) lock.release();
+      })
+      .catch(err => console.warn("Screen wake lock unavailable:", err));
+    return () => {
+      stopped = true;
+      stop();
+      wakeLock?.release();
+      setDrivingFix(null);
+      setDrivingError(null);
+      setSuggestions([]);
+    };
+  }, [driving]);
+
+  // Re-rank on every fix and every refresh, against the cards already shown
+  useEffect(() => {
+    if (!drivingFix) return;
+    setSuggestions(current => rankForDriving(lotIndex, drivingFix, filters.vehicle, current.map(s => keyOf(s.lot))));
+  }, [drivingFix, lotIndex, filters.vehicle]);
+
+  const handlePickPoint = useCallback((point: LatLng) => {
+    setNearbyQuery(current => ({ ...current, center: point, label: t('nearby.pinned') }));
+    setPickingPoint(false);
+  }, []);
+
+  const detailLot = useMemo(
+    () => (detailKey ? parkingData.find(lot => keyOf(lot) === detailKey) ?? null : null),
+    [parkingData, detailKey]
+  );
+
+  // Keep the filter state in the URL so a view can be shared as a link
+  useEffect(() => {
+    const params = filtersToSearchParams(filters, new URLSearchParams(window.location.search));
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    window.history.replaceState(null, '', url);
+  }, [filters]);
+
+  const handleSelectFromList = useCallback((lot: ParkingLotData) => {
+    setSelectedKey(keyOf(lot));
+    setFocusRequest({ key: keyOf(lot), requestedAt: Date.now() });
+  }, []);
+
+  const handleSelectOnMap = useCallback((lot: ParkingLotData) => {
+    setSelectedKey(keyOf(lot));
+  }, []);
+
+  useEffect(() => saveFavorites(favorites), [favorites]);
+  useEffect(() => saveWatchRules(watchRules), [watchRules]);
+
+  const handleToggleFavorite = useCallback((lot: ParkingLotData) => {
+    setFavorites(current => toggleFavorite(current, lot));
+  }, []);
+
+  const handleRemoveFavorite = useCallback((favorite: FavoriteLot) => {
+    setFavorites(current => current.filter(f => favoriteKey(f) !== favoriteKey(favorite)));
+    setWatchRules(current => current.filter(rule => !(rule.source === favorite.source && rule.lotId === favorite.id)));
+  }, []);
+
+  const checkWatchRules = useCallback((lots: ParkingLotData[]) => {
+    const { alerts, state } = evaluateRules(watchRulesRef.current, lots, loadWatchState());
+    saveWatchState(state);
+    alerts.forEach(alert => {
+      showWatchAlert(alert).catch(err => console.warn("Failed to show notification:", err));
+    });
+  }, []);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await fetchParkingData();
+      // Until the first live load, show each source as soon as it arrives
+      const { data, sources } = await loadParkingData((lots, health) => {
+        if (hasLiveData.current || lots.length === 0) return;
+        setParkingData(current => [...current.filter(lot => lot.source !== health.id), ...lots]);
+        setSourceHealth(current => [...current.filter(h => h.id !== health.id), health]);
+      });
+      hasLiveData.current = true;
+      if (lastLiveData.current) setChanges({ at: Date.now(), deltas: diffAvailability(lastLiveData.current, data) });
+      lastLiveData.current = data;
+      cadence.current = updateCadence(cadence.current, sources);
       setParkingData(data);
+      setSourceHealth(sources);
       setLastUpdated(new Date());
+      setStaleSince(null);
       setError(null);
+      // History is best-effort; a failing IndexedDB must not break the live map
+      recordSnapshot(data).catch(err => console.warn("Failed to record availability history:", err));
+      saveSnapshot(data).catch(err => console.warn("Failed to cache parking data:", err));
+      checkWatchRules(data);
     } catch (err) {
-      setError("無法讀取停車場資料，請稍後再試。");
+      // Fall back to the last successful result, clearly marked as stale
+      const snapshot = await loadSnapshot().catch(() => null);
+      if (snapshot && snapshot.data.length > 0) {
+        setParkingData(snapshot.data);
+        setLastUpdated(new Date(snapshot.savedAt));
+        setStaleSince(snapshot.savedAt);
+        setError(null);
+      } else {
+        setError('error.loadFailed');
+      }
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [checkWatchRules]);
 
   const handleLocateMe = useCallback(() => {
     if (!navigator.geolocation) {
@@ -61,17 +348,127 @@ function App() {
     );
   }, []);
 
-  // Initial load, periodic refresh, and initial location check
+  const handleNavigate = useCallback(async (lot: ParkingLotData, mode: RouteMode) => {
+    const key = keyOf(lot);
+    const vehicle = filters.vehicle;
+    if (!userLocation) {
+      setNavigation({ key, mode, destination: destinationOf(lot, null), route: null, error: 'route.noLocation' });
+      handleLocateMe();
+      return;
+    }
+
+    const destination = destinationOf(lot, userLocation);
+    setNavigation({ key, mode, destination, route: null });
+    try {
+      const route = await planRoute(userLocation, destination, mode);
+      const eta = Date.now() + route.durationSeconds * 1000;
+      const stats = await getSlotStatsAt(eta, vehicle).catch(err => {
+        console.warn("Failed to read availability history:", err);
+        return new Map();
+      });
+      const arrivalForecast = forecastLot({
+        vehicle,
+        total: capacityOf(lot, vehicle),
+        current: { available: availableOf(lot, vehicle), t: lot.lastUpdated },
+        ...stats.get(key)
+      }, eta);
+      // Ignore the result if another lot or mode was picked meanwhile
+      setNavigation(current =>
+        current && current.key === key && current.mode === mode
+          ? { ...current, route, arrivalForecast }
+          : current
+      );
+    } catch (err) {
+      console.error("Route planning failed:", err);
+      setNavigation(current =>
+        current && current.key === key && current.mode === mode
+          ? { ...current, error: 'route.failed' }
+          : current
+      );
+    }
+  }, [userLocation, filters.vehicle, handleLocateMe]);
+
+  // Recompute predictions when the arrival time or the live data changes
+  useEffect(() => {
+    if (viewMode !== 'forecast' || arrival === null) {
+      setForecastData(null);
+      return;
+    }
+
+    let cancelled = false;
+    const now = Date.now();
+    const vehicle = filters.vehicle;
+    getSlotStatsAt(arrival, vehicle)
+      .catch(err => {
+        console.warn("Failed to read availability history:", err);
+        return new Map();
+      })
+      .then(stats => {
+        if (cancelled) return;
+        setForecastData(parkingData.map(lot => ({
+          ...lot,
+          forecast: forecastLot({
+            vehicle,
+            total: capacityOf(lot, vehicle),
+            current: { available: availableOf(lot, vehicle), t: lot.lastUpdated },
+            ...stats.get(lotKey(lot.source, lot.id))
+          }, arrival, now)
+        })));
+      });
+    return () => { cancelled = true; };
+  }, [viewMode, arrival, parkingData, filters.vehicle]);
+
+  // Show the cached snapshot right away while the first live fetch is in flight
+  useEffect(() => {
+    loadSnapshot()
+      .then(snapshot => {
+        if (!snapshot || hasLiveData.current) return;
+        setParkingData(snapshot.data);
+        setLastUpdated(new Date(snapshot.savedAt));
+        setStaleSince(snapshot.savedAt);
+      })
+      .catch(() => { /* no cache yet */ });
+  }, []);
+
+  // Track connectivity; refetch as soon as the connection comes back
+  useEffect(() => {
+    const goOnline = () => { setOnline(true); loadData(); };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [loadData]);
+
+  // Keep the stale-data age current
+  useEffect(() => {
+    if (staleSince === null) return;
+    const id = setInterval(() => setNow(Date.now()), 60 * 1000);
+    setNow(Date.now());
+    return () => clearInterval(id);
+  }, [staleSince]);
+
+  // Initial load and location check
   useEffect(() => {
     loadData();
     handleLocateMe();
+  }, [loadData, handleLocateMe]);
 
-    const intervalId = setInterval(() => {
-      loadData();
-    }, REFRESH_INTERVAL);
+  // After every load, poll again just after the feeds are expected to publish
+  useEffect(() => {
+    if (loading) return;
+    const id = setTimeout(loadData, nextRefreshDelay(cadence.current));
+    return () => clearTimeout(id);
+  }, [loading, loadData]);
 
-    return () => clearInterval(intervalId);
-  }, [loadData, handleLocateMe]);
+  // Changed lots are highlighted only briefly
+  useEffect(() => {
+    if (!changes) return;
+    const id = setTimeout(() => setChanges(null), HIGHLIGHT_MS);
+    return () => clearTimeout(id);
+  }, [changes]);
 
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-gray-100">
@@ -79,25 +476,93 @@ function App() {
       <header className="flex-none bg-white shadow-md z-10 p-4 flex flex-col md:flex-row justify-between items-center gap-4">
         <div>
           <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
-            <span className="text-blue-600">🅿️</span> 雙北停車場即時資訊
+            <span className="text-blue-600">🅿️</span> {t('app.title')}
           </h1>
           <p className="text-sm text-gray-500 mt-1">
-            資料來源: 臺北市政府資料開放平台、新北市政府資料開放平台
+            {t('app.sources', { sources: formatList(getAdapters().map(a => sourceAttribution(a.id, a.attribution))) })}
           </p>
         </div>
 
         <div className="flex items-center gap-4 text-sm flex-wrap justify-center">
+          <LocaleSwitcher value={locale} onChange={handleLocaleChange} />
+
+          <VehicleToggle
+            value={filters.vehicle}
+            onChange={vehicle => setFilters(current => ({ ...current, vehicle }))}
+          />
+
+          <ForecastControls
+            mode={viewMode}
+            arrival={arrival}
+            onModeChange={setViewMode}
+            onArrivalChange={setArrival}
+          />
+
+          <SourceHealthBar sources={sourceHealth} />
+
           <div className="hidden lg:block">
-            <span className="font-medium text-gray-700">上次更新: </span>
+            <span className="font-medium text-gray-700">{t('app.lastUpdated')}</span>
             <span className="text-gray-900">
-              {lastUpdated ? lastUpdated.toLocaleTimeString() : 'Updating...'}
+              {lastUpdated ? formatTime(lastUpdated.getTime()) : t('app.updating')}
             </span>
           </div>
           
           <div className="hidden sm:block bg-blue-50 px-3 py-1 rounded-full border border-blue-100 text-blue-800">
-            已載入 {parkingData.length} 個停車場
+            {t('app.loadedCount', { count: formatNumber(parkingData.length) })}
+            {visibleData.length !== parkingData.length && t('app.shownCount', { count: formatNumber(visibleData.length) })}
           </div>
 
+          <button
+            onClick={() => setFavoritesOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {t('app.favorites')}{favorites.length > 0 && ` (${favorites.length})`}
+          </button>
+
+          <button
+            onClick={() => setNearbyOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {t('app.nearby')}
+          </button>
+
+          <button
+            onClick={() => setDriving(on => !on)}
+            className={`px-3 py-2 rounded-lg border font-medium ${
+              driving ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {t('app.driving')}
+          </button>
+
+          <button
+            onClick={() => setDistrictsOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {t('app.districts')}
+          </button>
+
+          <button
+            onClick={() => setExportOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {t('app.export')}
+          </button>
+
+          <button
+            onClick={() => setTilesPanelOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {t('app.offlineMaps')}
+          </button>
+
+          <button
+            onClick={() => setPanelOpen(open => !open)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            {panelOpen ? t('app.hideFilters') : t('app.showFilters')}
+          </button>
+
           <button
             onClick={handleLocateMe}
             disabled={locating}
@@ -108,7 +573,7 @@ function App() {
             }`}
           >
             <span>📍</span>
-            {locating ? '定位中...' : '我的位置'}
+            {locating ? t('app.locating') : t('app.locateMe')}
           </button>
 
           <button
@@ -120,48 +585,167 @@ function App() {
                 : 'bg-blue-600 hover:bg-blue-700 shadow-sm hover:shadow active:scale-95'
             }`}
           >
-            {loading ? '更新中...' : '立即更新'}
+            {loading ? t('app.updating') : t('app.refresh')}
           </button>
         </div>
       </header>
 
       {/* Main Content Area */}
-      <main className="flex-1 relative">
-        {error && (
-          <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000] bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow-lg max-w-md text-center">
-            <strong className="font-bold">錯誤: </strong>
-            <span className="block sm:inline">{error}</span>
-          </div>
+      <div className="flex-1 flex min-h-0 relative">
+        {panelOpen && (
+          <aside className="w-full sm:w-80 flex-none border-r border-gray-200 z-[1001] sm:z-auto absolute sm:static inset-x-0 bottom-0 top-auto h-1/2 sm:h-auto shadow-lg sm:shadow-none">
+            <FilterPanel
+              filters={filters}
+              onChange={setFilters}
+              sources={sourceOptions}
+              results={visibleData}
+              selectedId={selectedKey}
+              onSelect={handleSelectFromList}
+              userLocation={userLocation}
+            />
+          </aside>
         )}
+
+        <main className="flex-1 relative">
+          {staleSince !== null && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000] bg-orange-100 border border-orange-400 text-orange-800 px-4 py-3 rounded shadow-lg max-w-md text-center">
+              <strong className="font-bold">{online ? t('app.staleTitle') : t('app.offlineTitle')}</strong>
+              <span className="block sm:inline">
+                {t('app.staleBody', { age: formatAge(now - staleSince), time: formatDateTime(staleSince) })}
+              </span>
+            </div>
+          )}
+
+          {favoritesOpen && (
+            <FavoritesPanel
+              favorites={favorites}
+              rules={watchRules}
+              lots={parkingData}
+              vehicle={filters.vehicle}
+              onRemoveFavorite={handleRemoveFavorite}
+              onRulesChange={setWatchRules}
+              onSelect={handleSelectFromList}
+              onClose={() => setFavoritesOpen(false)}
+            />
+          )}
+
+          {overlay && (
+            <div className="absolute bottom-6 right-4 z-[999] bg-white/90 border border-gray-300 rounded-lg shadow px-3 py-2 text-xs text-gray-700 flex items-center gap-2">
+              <span>{t('app.overlayNote', { time: formatDateTime(overlay.meta.exportedAt) })}</span>
+              <button onClick={() => setOverlay(null)} className="text-gray-400 hover:text-gray-600">✕</button>
+            </div>
+          )}
+
+          {nearbyOpen && (
+            <NearbyPanel
+              query={nearbyQuery}
+              results={nearbyResults}
+              vehicle={filters.vehicle}
+              picking={pickingPoint}
+              onPickingChange={setPickingPoint}
+              onQueryChange={setNearbyQuery}
+              onSelect={handleSelectFromList}
+              onClose={() => { setNearbyOpen(false); setPickingPoint(false); }}
+            />
+          )}
+
+          {driving && (
+            <DrivingPanel
+              fix={drivingFix}
+              suggestions={suggestions}
+              vehicle={filters.vehicle}
+              error={drivingError}
+              onSelect={lot => handleNavigate(lot, 'drive')}
+              onExit={() => setDriving(false)}
+            />
+          )}
+
+          {districtsOpen && (
+            <DistrictDashboard
+              districts={districtStats?.districts ?? null}
+              unassigned={districtStats?.unassigned ?? null}
+              vehicle={filters.vehicle}
+              selected={filters.district}
+              onSelect={selectDistrict}
+              onClose={() => setDistrictsOpen(false)}
+            />
+          )}
+
+          {detailLot && (
+            <LotDetailPanel lot={detailLot} onClose={() => setDetailKey(null)} />
+          )}
+
+          {exportOpen && (
+            <ExportPanel
+              lots={visibleData}
+              overlay={overlay}
+              onImport={setOverlay}
+              onClose={() => setExportOpen(false)}
+            />
+          )}
+
+          {tilesPanelOpen && (
+            <OfflineTilesPanel lots={parkingData} onClose={() => setTilesPanelOpen(false)} />
+          )}
+
+          {error && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1000] bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded shadow-lg max-w-md text-center">
+              <strong className="font-bold">{t('app.errorTitle')}</strong>
+              <span className="block sm:inline">{t(error)}</span>
+            </div>
+          )}
         
-        {/* Map - Using absolute inset-0 to guarantee it fills the flex-1 relative parent */}
-        <div className="absolute inset-0">
-           <ParkingMap data={parkingData} userLocation={userLocation} />
-        </div>
+          {/* Map - Using absolute inset-0 to guarantee it fills the flex-1 relative parent */}
+          <div className="absolute inset-0">
+             <ParkingMap
+               data={mapData}
+               vehicle={filters.vehicle}
+               userLocation={userLocation}
+               focusRequest={focusRequest}
+               onSelect={handleSelectOnMap}
+               navigation={navigation}
+               onNavigate={handleNavigate}
+               onClearNavigation={() => setNavigation(null)}
+               isFavorite={lot => isFavorite(favorites, lot)}
+               onToggleFavorite={handleToggleFavorite}
+               onShowDetails={lot => setDetailKey(keyOf(lot))}
+               overlay={overlay}
+               nearby={nearbyArea}
+               onPickPoint={pickingPoint ? handlePickPoint : null}
+               changes={viewMode === 'live' ? changes?.deltas : null}
+               districts={districtOverlay}
+               district={selectedDistrict}
+               follow={drivingFix}
+             />
+          </div>
 
-        {/* Legend / Info Overlay */}
-        <div className="absolute bottom-6 left-4 z-[999] bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow-lg border border-gray-200 text-xs sm:text-sm max-w-[200px]">
-          <h4 className="font-bold text-gray-700 mb-2">剩餘車位說明</h4>
-          <ul className="space-y-1">
-            <li className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-green-500"></span>
-              <span>-11/足夠: 剩餘格位足夠</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
-              <span>-12/普通: 剩餘格位不足半數</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-red-500"></span>
-              <span>-13/滿位: 剩餘格數不足</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-gray-400"></span>
-              <span>-9: 無法提供/資訊不明</span>
-            </li>
-          </ul>
-        </div>
-      </main>
+          {/* Legend / Info Overlay */}
+          <div className="absolute bottom-6 left-4 z-[999] bg-white/90 backdrop-blur-sm p-3 rounded-lg shadow-lg border border-gray-200 text-xs sm:text-sm max-w-[200px]">
+            <h4 className="font-bold text-gray-700 mb-2">{t('legend.title')}</h4>
+            <ul className="space-y-1">
+              <li className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-green-500"></span>
+                <span>{t('legend.plenty')}</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
+                <span>{t('legend.limited')}</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-red-500"></span>
+                <span>{t('legend.full')}</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-gray-400"></span>
+                <span>{t('legend.unknown')}</span>
+              </li>
+            </ul>
+            <p className="mt-2 text-gray-500 leading-snug">
+              {t('legend.note')}
+            </p>
+          </div>
+        </main>
+      </div>
     </div>
   );
 }
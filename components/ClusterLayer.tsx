@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { ParkingLotData, VehicleType } from '../types';
+import { DEFAULT_CLUSTER_OPTIONS, LotCluster, clusterLots } from '../services/clustering';
+import { Bounds } from '../services/geo';
+import { LEVEL_COLORS } from '../services/availability';
+import { formatNumber, t } from '../services/i18n';
+
+// Render a little beyond the viewport so short pans don't reveal empty edges
+const VIEWPORT_PADDING = 0.2;
+
+interface ViewState {
+  bounds: Bounds;
+  zoom: number;
+}
+
+const readView = (map: L.Map): ViewState => {
+  const b = map.getBounds().pad(VIEWPORT_PADDING);
+  return {
+    bounds: { south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() },
+    zoom: map.getZoom()
+  };
+};
+
+// Labels are free-space counts, so icons are kept least-recently-used up to this many
+const MAX_CACHED_ICONS = 300;
+const iconCache = new Map<string, L.DivIcon>();
+
+// Cluster bubble sized by member count, filled with the best status, ringed with the worst
+const clusterIcon = (cluster: LotCluster): L.DivIcon => {
+  const size = cluster.lots.length < 10 ? 34 : cluster.lots.length < 100 ? 42 : 50;
+  const label = cluster.freeSpaces > 0 ? String(cluster.freeSpaces) : String(cluster.lots.length);
+  const cacheKey = `${size}:${cluster.best}:${cluster.worst}:${label}`;
+  let icon = iconCache.get(cacheKey);
+  if (icon) {
+    // Re-inserting below moves the key to the end of the Map's order, the most recently used
+    iconCache.delete(cacheKey);
+  } else {
+    icon = L.divIcon({
+      className: '',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+      html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${LEVEL_COLORS[cluster.best]};` +
+        `border:4px solid ${LEVEL_COLORS[cluster.worst]};color:#fff;font:bold 12px sans-serif;` +
+        `display:flex;align-items:center;justify-content:center;box-shadow:0 1px 4px rgba(0,0,0,.4)">${label}</div>`
+    });
+    if (iconCache.size >= MAX_CACHED_ICONS) iconCache.delete(iconCache.keys().next().value!);
+  }
+  iconCache.set(cacheKey, icon);
+  return icon;
+};
+
+interface ClusterLayerProps {
+  lots: ParkingLotData[];
+  vehicle?: VehicleType;
+  // Zoom is passed so lots can add detail (e.g. entrances) when zoomed in
+  renderLot: (lot: ParkingLotData, zoom: number) => React.ReactNode;
+}
+
+/**
+ * Renders only the lots inside the viewport, grouping nearby ones into
+ * clusters that show their total free spaces. Clicking a cluster zooms into it.
+ */
+export const ClusterLayer: React.FC<ClusterLayerProps> = ({ lots, vehicle, renderLot }) => {
+  const map = useMap();
+  const [view, setView] = useState<ViewState>(() => readView(map));
+
+  useMapEvents({
+    moveend: () => setView(readView(map)),
+    zoomend: () => setView(readView(map))
+  });
+
+  const items = useMemo(
+    () => clusterLots(
+      lots,
+      view.bounds,
+      view.zoom,
+      (lat, lng) => map.project([lat, lng], view.zoom),
+      { ...DEFAULT_CLUSTER_OPTIONS, vehicle: vehicle ?? 'car' }
+    ),
+    [lots, view, map, vehicle]
+  );
+
+  return (
+    <>
+      {items.map(item => {
+        if (item.kind === 'lot') return renderLot(item.lot, view.zoom);
+        const { cluster } = item;
+        return (
+          <Marker
+            key={cluster.key}
+            position={[cluster.lat, cluster.lng]}
+            icon={clusterIcon(cluster)}
+            eventHandlers={{
+              click: () => map.flyToBounds(
+                L.latLngBounds(cluster.lots.map(lot => [lot.lat, lot.lng] as [number, number])),
+                { padding: [40, 40], maxZoom: 18, duration: 0.8 }
+              )
+            }}
+          >
+            <Tooltip direction="top" offset={[0, -16]} opacity={1}>
+              <span className="font-sans text-sm">
+                {t('cluster.lots', { count: formatNumber(cluster.lots.length) })}
+                {cluster.freeSpaces > 0 && t('cluster.free', { count: formatNumber(cluster.freeSpaces) })}
+              </span>
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
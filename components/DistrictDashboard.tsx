@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { VehicleType } from '../types';
+import { DistrictStats, LotStatus } from '../services/districts';
+import { vehicleLabel } from '../services/vehicles';
+import { MessageKey, formatNumber, t } from '../services/i18n';
+import { OCCUPANCY_STEPS, formatOccupancy, occupancyColor } from './DistrictLayer';
+
+interface DistrictDashboardProps {
+  // null while the boundaries are loading
+  districts: DistrictStats[] | null;
+  unassigned: DistrictStats | null;
+  vehicle: VehicleType;
+  selected: string;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+type DistrictSort = 'occupancy' | 'free' | 'lots';
+
+const SORT_OPTIONS: Array<{ key: DistrictSort; labelKey: MessageKey }> = [
+  { key: 'occupancy', labelKey: 'districts.sortOccupancy' },
+  { key: 'free', labelKey: 'districts.sortFree' },
+  { key: 'lots', labelKey: 'districts.sortLots' }
+];
+
+// Codes are shown as the feeds publish them; the tooltip spells them out
+const STATUS_BADGES: Array<{ status: LotStatus; label: string; titleKey: MessageKey; className: string }> = [
+  { status: 'count', label: '#', titleKey: 'districts.statusCount', className: 'bg-blue-50 text-blue-700' },
+  { status: 'plenty', label: '-11', titleKey: 'availability.plenty', className: 'bg-green-50 text-green-700' },
+  { status: 'limited', label: '-12', titleKey: 'availability.limited', className: 'bg-yellow-50 text-yellow-700' },
+  { status: 'full', label: '-13', titleKey: 'availability.full', className: 'bg-red-50 text-red-700' },
+  { status: 'unavailable', label: '-9', titleKey: 'availability.unavailable', className: 'bg-gray-100 text-gray-500' },
+  { status: 'unknown', label: '?', titleKey: 'availability.unknown', className: 'bg-gray-100 text-gray-500' }
+];
+
+const compare: Record<DistrictSort, (a: DistrictStats, b: DistrictStats) => number> = {
+  // Busiest first; districts without a measured occupancy go last
+  occupancy: (a, b) => (b.occupancy ?? -1) - (a.occupancy ?? -1),
+  free: (a, b) => b.free - a.free,
+  lots: (a, b) => b.lots - a.lots
+};
+
+const StatusBadges: React.FC<{ stats: DistrictStats }> = ({ stats }) => (
+  <div className="flex flex-wrap gap-1 mt-0.5">
+    {STATUS_BADGES.filter(badge => stats.statuses[badge.status] > 0).map(badge => (
+      <span key={badge.status} title={t(badge.titleKey)} className={`px-1 rounded text-[10px] ${badge.className}`}>
+        {badge.label} ×{formatNumber(stats.statuses[badge.status])}
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * Per-district capacity, free spaces, occupancy and status-code counts for the
+ * selected vehicle type. Selecting a district zooms the map to it and filters
+ * the lot list; selecting it again clears the filter.
+ */
+export const DistrictDashboard: React.FC<DistrictDashboardProps> = ({
+  districts,
+  unassigned,
+  vehicle,
+  selected,
+  onSelect,
+  onClose
+}) => {
+  const [sort, setSort] = useState<DistrictSort>('occupancy');
+  const rows = (districts ?? []).filter(s => s.lots > 0).sort(compare[sort]);
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-96 max-h-[80%] overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-bold text-gray-700">{t('districts.title', { vehicle: vehicleLabel(vehicle) })}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 text-[10px] text-gray-500">
+        <span>{t('districts.legend')}</span>
+        {OCCUPANCY_STEPS.map(([max, color], i) => (
+          <span key={color} className="flex items-center gap-0.5">
+            <span className="w-3 h-3 rounded-sm opacity-70" style={{ backgroundColor: color }} />
+            {i === 0 ? `<${formatOccupancy(max)}` : `≥${formatOccupancy(OCCUPANCY_STEPS[i - 1][0])}`}
+          </span>
+        ))}
+        <span className="flex items-center gap-0.5">
+          <span className="w-3 h-3 rounded-sm opacity-70" style={{ backgroundColor: occupancyColor(null) }} />
+          {t('districts.noCounts')}
+        </span>
+      </div>
+
+      {districts === null ? (
+        <p className="text-xs text-gray-500">{t('districts.loading')}</p>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <span>{t('filters.sort')}</span>
+            <select
+              value={sort}
+              onChange={e => setSort(e.target.value as DistrictSort)}
+              className="flex-1 px-1 py-1 border border-gray-300 rounded bg-white"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.key} value={option.key}>{t(option.labelKey)}</option>
+              ))}
+            </select>
+          </label>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-right">
+                <th className="text-left font-normal">{t('districts.district')}</th>
+                <th className="font-normal">{t('districts.capacity')}</th>
+                <th className="font-normal">{t('districts.free')}</th>
+                <th className="font-normal">{t('districts.occupancy')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map(stats => {
+                const id = stats.district!.id;
+                return (
+                  <tr
+                    key={id}
+                    onClick={() => onSelect(selected === id ? '' : id)}
+                    className={`align-top cursor-pointer hover:bg-gray-50 ${selected === id ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="py-1">
+                      <div className="flex items-center gap-1 font-medium text-gray-800">
+                        <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: occupancyColor(stats.occupancy) }} />
+                        {stats.district!.name}
+                        <span className="text-gray-400 font-normal">{t('districts.lots', { count: formatNumber(stats.lots) })}</span>
+                      </div>
+                      <StatusBadges stats={stats} />
+                    </td>
+                    <td className="py-1 text-right">{formatNumber(stats.capacity)}</td>
+                    <td className="py-1 text-right">{formatNumber(stats.free)}</td>
+                    <td className="py-1 text-right font-medium">{formatOccupancy(stats.occupancy)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {rows.length === 0 && <p className="text-xs text-gray-500">{t('districts.empty')}</p>}
+          {unassigned && unassigned.lots > 0 && (
+            <p className="text-[10px] text-gray-400">{t('districts.unassigned', { count: formatNumber(unassigned.lots) })}</p>
+          )}
+          <p className="text-[10px] text-gray-400">{t('districts.note')}</p>
+        </>
+      )}
+    </div>
+  );
+};
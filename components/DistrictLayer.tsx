@@ -0,0 +1,71 @@
+import React, { useMemo, useRef } from 'react';
+import { GeoJSON } from 'react-leaflet';
+import L from 'leaflet';
+import { LEVEL_COLORS } from '../services/availability';
+import { DistrictBoundaries, DistrictFeature, DistrictStats } from '../services/districts';
+import { formatNumber, t } from '../services/i18n';
+
+// Upper occupancy bound of each shade, emptiest first
+export const OCCUPANCY_STEPS: Array<[number, string]> = [
+  [0.5, '#22c55e'],  // Green-500
+  [0.7, '#84cc16'],  // Lime-500
+  [0.85, '#eab308'], // Yellow-500
+  [0.95, '#f97316'], // Orange-500
+  [Infinity, '#ef4444'] // Red-500
+];
+
+export const occupancyColor = (occupancy: number | null) =>
+  occupancy === null ? LEVEL_COLORS.unknown : OCCUPANCY_STEPS.find(([max]) => occupancy < max)![1];
+
+export const formatOccupancy = (occupancy: number | null) =>
+  occupancy === null ? '—' : `${formatNumber(Math.round(occupancy * 100))}%`;
+
+const idOf = (feature: DistrictFeature) => `${feature.properties.county}${feature.properties.name}`;
+
+interface DistrictLayerProps {
+  boundaries: DistrictBoundaries;
+  stats: DistrictStats[];
+  // Id of the district the list is filtered to, '' for none
+  selected: string;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Choropleth of district occupancy. Clicking a district selects it; clicking
+ * the selected one again clears the selection.
+ */
+export const DistrictLayer: React.FC<DistrictLayerProps> = ({ boundaries, stats, selected, onSelect }) => {
+  const byId = useMemo(() => new Map(stats.map(s => [s.district?.id ?? '', s])), [stats]);
+  // Leaflet binds handlers once per feature, so they read the latest props from here
+  const latest = useRef({ byId, selected, onSelect });
+  latest.current = { byId, selected, onSelect };
+
+  const style = useMemo(() => (feature: DistrictFeature): L.PathOptions => {
+    const id = idOf(feature);
+    return {
+      color: id === selected ? '#1d4ed8' : '#4b5563',
+      weight: id === selected ? 3 : 1,
+      fillColor: occupancyColor(byId.get(id)?.occupancy ?? null),
+      fillOpacity: selected && id !== selected ? 0.1 : 0.35
+    };
+  }, [byId, selected]);
+
+  const onEachFeature = (feature: DistrictFeature, layer: L.Layer) => {
+    const id = idOf(feature);
+    layer.bindTooltip(() => {
+      const s = latest.current.byId.get(id);
+      return t('districts.tooltip', {
+        name: feature.properties.name,
+        occupancy: formatOccupancy(s?.occupancy ?? null),
+        free: formatNumber(s?.free ?? 0),
+        lots: formatNumber(s?.lots ?? 0)
+      });
+    }, { sticky: true });
+    layer.on('click', () => {
+      const { selected: current, onSelect: select } = latest.current;
+      select(current === id ? '' : id);
+    });
+  };
+
+  return <GeoJSON data={boundaries} style={style} onEachFeature={onEachFeature} />;
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ParkingLotData, VehicleType } from '../types';
+import { displayedAvailability, getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { DrivingSuggestion } from '../services/driving';
+import { formatDistance } from '../services/geo';
+import { keyOf } from '../services/identity';
+import { PositionFix } from '../services/positionSource';
+import { formatDuration } from '../services/routing';
+import { formatNumber, t } from '../services/i18n';
+
+interface DrivingPanelProps {
+  fix: PositionFix | null;
+  suggestions: DrivingSuggestion[];
+  vehicle: VehicleType;
+  // Position source failure, shown until the next fix arrives
+  error: string | null;
+  onSelect: (lot: ParkingLotData) => void;
+  onExit: () => void;
+}
+
+// Arrow pointing at the lot: relative to the direction of travel, or north-up without a heading
+const Direction: React.FC<{ bearing: number; heading: number | null }> = ({ bearing, heading }) => (
+  <span
+    className="inline-block text-2xl leading-none text-blue-600"
+    style={{ transform: `rotate(${bearing - (heading ?? 0)}deg)` }}
+  >
+    ↑
+  </span>
+);
+
+/**
+ * Driving mode overlay: the best few lots with free spaces around the
+ * driver as large cards, re-ranked as they move and as availability
+ * refreshes. Tapping a card plans a route to it.
+ */
+export const DrivingPanel: React.FC<DrivingPanelProps> = ({ fix, suggestions, vehicle, error, onSelect, onExit }) => (
+  <div className="absolute inset-x-2 bottom-4 z-[1002] flex flex-col gap-2 pointer-events-none">
+    <div className="self-center flex items-center gap-3 bg-gray-900/85 text-white rounded-full px-4 py-2 shadow-lg pointer-events-auto">
+      <span className="font-bold">{t('driving.title')}</span>
+      <span className="text-xs text-gray-300">
+        {error
+          ? t('driving.gpsFailed', { error })
+          : !fix
+            ? t('driving.waiting')
+            : fix.speed !== null
+              ? t('driving.speed', { speed: formatNumber(Math.round(fix.speed * 3.6)) })
+              : ''}
+      </span>
+      <button onClick={onExit} className="px-3 py-1 rounded-full bg-red-600 hover:bg-red-700 text-sm font-medium">
+        {t('driving.exit')}
+      </button>
+    </div>
+
+    {fix && suggestions.length === 0 && (
+      <p className="self-center bg-white/95 rounded-lg shadow px-4 py-2 text-gray-700 pointer-events-auto">{t('driving.none')}</p>
+    )}
+
+    <ol className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      {suggestions.map(({ lot, distance, driveSeconds, bearing }) => {
+        const available = displayedAvailability(lot, vehicle);
+        return (
+          <li key={keyOf(lot)} className="pointer-events-auto">
+            <button
+              onClick={() => onSelect(lot)}
+              className="w-full text-left bg-white/95 rounded-xl shadow-xl border border-gray-200 p-4 hover:bg-blue-50 active:scale-[0.98] transition-transform"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-lg font-bold text-gray-800 leading-tight">{lot.name}</span>
+                <Direction bearing={bearing} heading={fix?.heading ?? null} />
+              </div>
+              <div className={`text-2xl mt-1 ${getAvailabilityClass(available)}`}>{getAvailabilityText(available)}</div>
+              <div className="text-base text-gray-600 mt-1">
+                {t('route.summary', { distance: formatDistance(distance), duration: formatDuration(driveSeconds) })}
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  </div>
+);
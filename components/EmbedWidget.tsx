@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, Marker, TileLayer, Tooltip, useMap } from 'react-leaflet';
+import { ParkingLotData, VehicleType } from '../types';
+import { fetchParkingData } from '../services/api';
+import { LEVEL_COLORS, displayedAvailability, getAvailabilityClass, getAvailabilityLevel, getAvailabilityText } from '../services/availability';
+import { EmbedConfig, EmbedTheme, selectEmbedLots } from '../services/embed';
+import { Bounds } from '../services/geo';
+import { keyOf } from '../services/identity';
+import { getAdapters } from '../services/sources';
+import { TILE_URL_TEMPLATE } from '../services/tileCache';
+import { capacityOf } from '../services/vehicles';
+import { Locale, MessageKey, Translator, pageTranslator, translatorFor } from '../services/i18n';
+import { lotIcon } from './lotIcons';
+
+interface EmbedWidgetProps {
+  config: EmbedConfig;
+  // Fixed language for this widget alone; the page locale otherwise
+  locale?: Locale;
+}
+
+const THEMES = {
+  light: { page: 'bg-white text-gray-800', card: 'bg-white border-gray-200', muted: 'text-gray-500', track: 'bg-gray-100' },
+  dark: { page: 'bg-gray-900 text-gray-100', card: 'bg-gray-800 border-gray-700', muted: 'text-gray-400', track: 'bg-gray-700' }
+};
+
+// 'auto' follows the viewer's system setting, live
+const useDark = (theme: EmbedTheme) => {
+  const query = useMemo(() => (window.matchMedia ? window.matchMedia('(prefers-color-scheme: dark)') : null), []);
+  const [systemDark, setSystemDark] = useState<boolean>(query?.matches ?? false);
+
+  useEffect(() => {
+    if (theme !== 'auto' || !query) return;
+    const onChange = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [theme, query]);
+
+  return theme === 'dark' || (theme === 'auto' && systemDark);
+};
+
+const LotCard: React.FC<{ lot: ParkingLotData; vehicle: VehicleType; theme: typeof THEMES.light; i18n: Translator }> = ({ lot, vehicle, theme, i18n }) => {
+  const available = displayedAvailability(lot, vehicle);
+  const capacity = capacityOf(lot, vehicle);
+  const level = getAvailabilityLevel(available, capacity);
+  // Share of free spaces; qualitative codes get a bar matching their meaning
+  const share = available >= 0 && capacity > 0
+    ? Math.min(1, available / capacity)
+    : { plenty: 1, open: 1, limited: 0.3, full: 0.05, unknown: 0 }[level];
+
+  return (
+    <li className={`border rounded-lg p-3 ${theme.card}`}>
+      <div className="font-bold truncate">{lot.name}</div>
+      <div className={`text-xs truncate ${theme.muted}`}>{[i18n.sourceLabel(lot.source), lot.area].filter(Boolean).join('・')}</div>
+      <div className="flex items-baseline gap-1 mt-2">
+        <span className={`text-lg ${getAvailabilityClass(available)}`}>{getAvailabilityText(available, i18n)}</span>
+        {capacity > 0 && <span className={`text-xs ${theme.muted}`}>/ {i18n.formatNumber(capacity)}</span>}
+      </div>
+      <div className={`h-1.5 rounded-full mt-1 overflow-hidden ${theme.track}`}>
+        <div className="h-full rounded-full" style={{ width: `${share * 100}%`, backgroundColor: LEVEL_COLORS[level] }} />
+      </div>
+    </li>
+  );
+};
+
+const boundsOfLots = (lots: ParkingLotData[]): Bounds | null =>
+  lots.length === 0 ? null : {
+    south: Math.min(...lots.map(l => l.lat)),
+    west: Math.min(...lots.map(l => l.lng)),
+    north: Math.max(...lots.map(l => l.lat)),
+    east: Math.max(...lots.map(l => l.lng))
+  };
+
+// Sub-component framing the area once; later refreshes leave the viewer's pan alone
+const FitOnce = ({ bounds }: { bounds: Bounds | null }) => {
+  const map = useMap();
+  const fitted = useRef(false);
+
+  useEffect(() => {
+    if (!bounds || fitted.current) return;
+    fitted.current = true;
+    map.fitBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]], { padding: [24, 24], maxZoom: 17 });
+  }, [bounds, map]);
+
+  return null;
+};
+
+const EmbedMap: React.FC<{ lots: ParkingLotData[]; config: EmbedConfig; i18n: Translator }> = ({ lots, config, i18n }) => (
+  <MapContainer center={[25.03746, 121.564558]} zoom={14} zoomControl={false} style={{ height: '100%', width: '100%' }}>
+    <TileLayer
+      attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      url={TILE_URL_TEMPLATE}
+    />
+    <FitOnce bounds={config.bbox ?? boundsOfLots(lots)} />
+    {lots.map(lot => (
+      <Marker key={keyOf(lot)} position={[lot.lat, lot.lng]} icon={lotIcon(lot, config.vehicle)}>
+        <Tooltip direction="top">
+          <span className="font-bold">{lot.name}</span>{' '}
+          <span className={getAvailabilityClass(displayedAvailability(lot, config.vehicle))}>
+            {getAvailabilityText(displayedAvailability(lot, config.vehicle), i18n)}
+          </span>
+        </Tooltip>
+      </Marker>
+    ))}
+  </MapContainer>
+);
+
+/**
+ * Chrome-free view of a few lots for intranet pages and lobby displays:
+ * availability cards or a minimal map of the lots named by `config`,
+ * refreshed on a timer. Never asks for the viewer's location.
+ */
+export const EmbedWidget: React.FC<EmbedWidgetProps> = ({ config, locale }) => {
+  const [data, setData] = useState<ParkingLotData[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const theme = THEMES[useDark(config.theme) ? 'dark' : 'light'];
+  const i18n = useMemo(() => (locale ? translatorFor(locale) : pageTranslator), [locale]);
+  const { t, formatList, formatTime, sourceAttribution } = i18n;
+
+  const load = useCallback(async () => {
+    try {
+      const { data: lots } = await fetchParkingData();
+      if (lots.length === 0) {
+        setError('error.noData');
+        return;
+      }
+      setData(lots);
+      setUpdatedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load parking data:", err);
+      setError('error.loadFailed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    if (config.refreshSeconds <= 0) return;
+    const id = setInterval(load, config.refreshSeconds * 1000);
+    return () => clearInterval(id);
+  }, [load, config.refreshSeconds]);
+
+  const { lots, missing } = useMemo(() => selectEmbedLots(data, config), [data, config]);
+  const unconfigured = config.lots.length === 0 && !config.bbox;
+
+  return (
+    <div className={`h-full w-full flex flex-col text-sm ${theme.page}`}>
+      <div className="flex-none flex items-baseline justify-between gap-2 px-3 py-2">
+        <h1 className="font-bold truncate">{config.title || t('embed.title')}</h1>
+        <span className={`text-xs whitespace-nowrap ${theme.muted}`}>
+          {updatedAt ? t('embed.updated', { time: formatTime(updatedAt) }) : loading ? t('app.updating') : ''}
+        </span>
+      </div>
+
+      {error && <p className="flex-none px-3 text-xs text-orange-500">{t(error)}</p>}
+      {unconfigured && <p className={`flex-none px-3 text-xs ${theme.muted}`}>{t('embed.unconfigured')}</p>}
+      {missing.length > 0 && !loading && (
+        <p className="flex-none px-3 text-xs text-orange-500">{t('embed.missing', { lots: formatList(missing) })}</p>
+      )}
+
+      <div className="flex-1 min-h-0">
+        {config.view === 'map' ? (
+          <EmbedMap lots={lots} config={config} i18n={i18n} />
+        ) : (
+          <ul className="h-full overflow-y-auto grid gap-2 p-3 content-start grid-cols-[repeat(auto-fill,minmax(12rem,1fr))]">
+            {lots.map(lot => <LotCard key={keyOf(lot)} lot={lot} vehicle={config.vehicle} theme={theme} i18n={i18n} />)}
+          </ul>
+        )}
+      </div>
+
+      <p className={`flex-none px-3 py-1 text-[10px] truncate ${theme.muted}`}>
+        {t('app.sources', { sources: formatList(getAdapters().map(a => sourceAttribution(a.id, a.attribution))) })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CircleMarker, Polyline, Tooltip } from 'react-leaflet';
+import { ParkingLotData } from '../types';
+import { entrancesOf } from '../services/entrances';
+import { t } from '../services/i18n';
+
+// Entrances only make sense once individual streets are legible
+export const ENTRANCE_MIN_ZOOM = 17;
+
+interface EntranceMarkersProps {
+  park: ParkingLotData;
+  onSelect?: (park: ParkingLotData) => void;
+}
+
+/**
+ * Small markers for each listed entrance of a lot, each tied to the lot's
+ * pin by a dashed leader line and labelled with its street address.
+ */
+export const EntranceMarkers: React.FC<EntranceMarkersProps> = ({ park, onSelect }) => {
+  const entrances = entrancesOf(park);
+  if (entrances.length === 0) return null;
+
+  return (
+    <>
+      {entrances.map((entrance, i) => (
+        <React.Fragment key={i}>
+          <Polyline
+            positions={[[park.lat, park.lng], [entrance.lat, entrance.lng]]}
+            pathOptions={{ color: '#4b5563', weight: 2, opacity: 0.7, dashArray: '4 4' }}
+            interactive={false}
+          />
+          <CircleMarker
+            center={[entrance.lat, entrance.lng]}
+            radius={6}
+            pathOptions={{ color: 'white', fillColor: '#4b5563', fillOpacity: 1, weight: 2 }}
+            eventHandlers={{ click: () => onSelect?.(park) }}
+          >
+            <Tooltip direction="top" opacity={1}>
+              <span className="font-sans text-xs">
+                <span className="font-bold text-gray-700">{park.name}</span>
+                <span className="block text-gray-600">
+                  {entrance.address
+                    ? t('entrance.labelWithAddress', { n: i + 1, address: entrance.address })
+                    : t('entrance.label', { n: i + 1 })}
+                </span>
+              </span>
+            </Tooltip>
+          </CircleMarker>
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
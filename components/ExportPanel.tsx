@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ParkingLotData } from '../types';
+import {
+  CSV_COLUMNS,
+  DEFAULT_CSV_COLUMNS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ImportedSnapshot,
+  exportLots,
+  fromGeoJSON
+} from '../services/snapshotExport';
+import { formatDateTime, formatNumber, t } from '../services/i18n';
+
+interface ExportPanelProps {
+  lots: ParkingLotData[]; // what the map currently shows, filters applied
+  overlay: ImportedSnapshot | null;
+  onImport: (snapshot: ImportedSnapshot | null) => void;
+  onClose: () => void;
+}
+
+const download = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Exports the shown lots as GeoJSON / CSV / KML, and loads an exported
+ * GeoJSON snapshot back as a historical overlay.
+ */
+export const ExportPanel: React.FC<ExportPanelProps> = ({ lots, overlay, onImport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_CSV_COLUMNS);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const { filename, content, mime } = exportLots(lots, format, { columns });
+    download(filename, content, mime);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const snapshot = fromGeoJSON(JSON.parse(await file.text()), file.name);
+      if (snapshot.lots.length === 0) {
+        setMessage(t('export.empty'));
+        return;
+      }
+      onImport(snapshot);
+      setMessage(t('export.loaded', { count: formatNumber(snapshot.lots.length), time: formatDateTime(snapshot.meta.exportedAt) }));
+    } catch (err) {
+      setMessage(t('export.readFailed', { error: (err as Error).message }));
+    }
+  };
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-80 bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-bold text-gray-700">{t('export.title')}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      <div className="space-y-3">
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as ExportFormat)}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md bg-white"
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+            <option key={key} value={key}>{EXPORT_FORMATS[key].label}</option>
+          ))}
+        </select>
+
+        {format === 'csv' && (
+          <div className="grid grid-cols-2 gap-1 text-xs text-gray-600">
+            {CSV_COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={e => setColumns(current =>
+                    e.target.checked ? [...current, column.key] : current.filter(key => key !== column.key)
+                  )}
+                />
+                {column.header}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={lots.length === 0 || (format === 'csv' && columns.length === 0)}
+          className={`w-full px-3 py-2 rounded-lg text-white font-medium ${
+            lots.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {t('export.button', { count: formatNumber(lots.length) })}
+        </button>
+
+        <div className="border-t pt-3 space-y-2">
+          <label className="block text-gray-600">
+            {t('export.importLabel')}
+            <input
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+              className="mt-1 block w-full text-xs"
+            />
+          </label>
+          {overlay && (
+            <button
+              onClick={() => { onImport(null); setMessage(null); }}
+              className="w-full px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              {t('export.removeOverlay', { name: overlay.name || t('export.untitled') })}
+            </button>
+          )}
+          {message && <p className="text-xs text-gray-600">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { FavoriteLot, ParkingLotData, VehicleType, WatchCondition, WatchRule } from '../types';
+import { getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { keysOf, lotKey } from '../services/identity';
+import { createRuleId, favoriteKey } from '../services/favorites';
+import { describeRule, parseClock } from '../services/watchRules';
+import { ensureNotificationPermission, notificationsSupported } from '../services/notifications';
+import { availableOf } from '../services/vehicles';
+import { t } from '../services/i18n';
+
+interface FavoritesPanelProps {
+  favorites: FavoriteLot[];
+  rules: WatchRule[];
+  lots: ParkingLotData[];
+  vehicle: VehicleType;
+  onRemoveFavorite: (favorite: FavoriteLot) => void;
+  onRulesChange: (rules: WatchRule[]) => void;
+  onSelect: (lot: ParkingLotData) => void;
+  onClose: () => void;
+}
+
+const STATUS_OPTIONS: Array<-11 | -12 | -13> = [-13, -12, -11];
+
+// New rules watch the vehicle mode the panel is showing
+const RuleForm = ({ favorite, vehicle, onAdd }: { favorite: FavoriteLot; vehicle: VehicleType; onAdd: (rule: WatchRule) => void }) => {
+  const [kind, setKind] = useState<WatchCondition['kind']>('below');
+  const [threshold, setThreshold] = useState<number>(20);
+  const [code, setCode] = useState<-11 | -12 | -13>(-13);
+  const [useWindow, setUseWindow] = useState<boolean>(true);
+  const [start, setStart] = useState<string>('08:00');
+  const [end, setEnd] = useState<string>('10:00');
+
+  const windowValid = !useWindow || (parseClock(start) !== null && parseClock(end) !== null);
+
+  const add = () => {
+    onAdd({
+      id: createRuleId(),
+      source: favorite.source,
+      lotId: favorite.id,
+      condition: kind === 'below' ? { kind, threshold } : { kind, code },
+      vehicle,
+      window: useWindow ? { start, end } : undefined,
+      enabled: true
+    });
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-gray-50 rounded space-y-2 text-xs">
+      <div className="flex items-center gap-1 flex-wrap">
+        <select
+          value={kind}
+          onChange={e => setKind(e.target.value as WatchCondition['kind'])}
+          className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+        >
+          <option value="below">{t('favorites.ruleBelow')}</option>
+          <option value="status">{t('favorites.ruleStatus')}</option>
+        </select>
+        {kind === 'below' ? (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={e => setThreshold(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+            />
+            <span>{t('favorites.ruleUnit')}</span>
+          </>
+        ) : (
+          <select
+            value={code}
+            onChange={e => setCode(parseInt(e.target.value, 10) as -11 | -12 | -13)}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+          >
+            {STATUS_OPTIONS.map(option => <option key={option} value={option}>{getAvailabilityText(option)}</option>)}
+          </select>
+        )}
+      </div>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={useWindow} onChange={e => setUseWindow(e.target.checked)} />
+        <span>{t('favorites.ruleOnly')}</span>
+        <input type="time" value={start} disabled={!useWindow} onChange={e => setStart(e.target.value)} className="px-1 border border-gray-300 rounded" />
+        <span>–</span>
+        <input type="time" value={end} disabled={!useWindow} onChange={e => setEnd(e.target.value)} className="px-1 border border-gray-300 rounded" />
+      </label>
+      <button
+        onClick={add}
+        disabled={!windowValid}
+        className={`w-full px-2 py-1 rounded text-white font-medium ${windowValid ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-400 cursor-not-allowed'}`}
+      >
+        {t('favorites.addRule')}
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Starred lots with their live counts, and the watch rules that raise
+ * notifications for them.
+ */
+export const FavoritesPanel: React.FC<FavoritesPanelProps> = ({
+  favorites,
+  rules,
+  lots,
+  vehicle,
+  onRemoveFavorite,
+  onRulesChange,
+  onSelect,
+  onClose
+}) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+  const lotsByKey = useMemo(() => new Map(lots.flatMap(lot => keysOf(lot).map(key => [key, lot] as const))), [lots]);
+
+  const addRule = async (rule: WatchRule) => {
+    onRulesChange([...rules, rule]);
+    setEditing(null);
+    await ensureNotificationPermission();
+    if (notificationsSupported()) setPermission(Notification.permission);
+  };
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-80 max-h-[80%] overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-bold text-gray-700">{t('favorites.title')}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      {permission === 'denied' && (
+        <p className="mb-2 text-xs text-orange-600">{t('favorites.notificationsBlocked')}</p>
+      )}
+      {permission === 'unsupported' && (
+        <p className="mb-2 text-xs text-orange-600">{t('favorites.notificationsUnsupported')}</p>
+      )}
+
+      {favorites.length === 0 ? (
+        <p className="text-gray-500">{t('favorites.empty')}</p>
+      ) : (
+        <ul className="divide-y">
+          {favorites.map(favorite => {
+            const key = favoriteKey(favorite);
+            const lot = lotsByKey.get(key);
+            const lotRules = rules.filter(rule => lotKey(rule.source, rule.lotId) === key);
+            return (
+              <li key={key} className="py-2">
+                <div className="flex items-start gap-2">
+                  <button
+                    onClick={() => lot && onSelect(lot)}
+                    disabled={!lot}
+                    className="flex-1 text-left"
+                  >
+                    <div className="font-medium text-gray-800">{lot?.name ?? favorite.name}</div>
+                    {lot ? (
+                      <span className={`text-xs ${getAvailabilityClass(availableOf(lot, vehicle))}`}>
+                        {getAvailabilityText(availableOf(lot, vehicle))}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-400">{t('favorites.missing')}</span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setEditing(editing === key ? null : key)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    {t('favorites.alerts')}
+                  </button>
+                  <button
+                    onClick={() => onRemoveFavorite(favorite)}
+                    className="text-yellow-500 hover:text-yellow-600"
+                    title={t('popup.removeFavorite')}
+                  >
+                    ★
+                  </button>
+                </div>
+
+                {lotRules.length > 0 && (
+                  <ul className="mt-1 space-y-1">
+                    {lotRules.map(rule => (
+                      <li key={rule.id} className="flex items-center gap-2 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={e => onRulesChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                        />
+                        <span className="flex-1">{describeRule(rule)}</span>
+                        <button
+                          onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          {t('favorites.delete')}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {editing === key && <RuleForm favorite={favorite} vehicle={vehicle} onAdd={addRule} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React from 'react';
+import { ParkingLotData, ParkingSourceId } from '../types';
+import { AMENITIES, AmenityKey, LotFilters, LotType, SortKey } from '../services/filters';
+import { distanceMeters, formatDistance, LatLng } from '../services/geo';
+import { getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { availableOf } from '../services/vehicles';
+import { keyOf } from '../services/identity';
+import { STANDARD_STAY_MINUTES } from '../services/fares';
+import { MessageKey, formatNumber, t } from '../services/i18n';
+
+// Only the first results are listed; the map still shows every match
+const MAX_LISTED = 100;
+
+interface FilterPanelProps {
+  filters: LotFilters;
+  onChange: (filters: LotFilters) => void;
+  sources: Array<{ id: ParkingSourceId; label: string }>;
+  results: ParkingLotData[];
+  selectedId: string | null;
+  onSelect: (lot: ParkingLotData) => void;
+  userLocation: LatLng | null;
+}
+
+const SORT_OPTIONS: Array<{ key: SortKey; labelKey: MessageKey }> = [
+  { key: 'none', labelKey: 'sort.none' },
+  { key: 'distance', labelKey: 'sort.distance' },
+  { key: 'available', labelKey: 'sort.available' },
+  { key: 'fare', labelKey: 'sort.fare' }
+];
+
+const TYPE_OPTIONS: Array<{ key: LotType; labelKey: MessageKey }> = [
+  { key: '1', labelKey: 'lotType.planar' },
+  { key: '2', labelKey: 'lotType.tower' }
+];
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded-full border text-xs transition-all ${
+    active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-600 hover:border-blue-400'
+  }`;
+
+/**
+ * Search, filter and sort controls plus the matching lots. Selecting a lot
+ * focuses it on the map.
+ */
+export const FilterPanel: React.FC<FilterPanelProps> = ({
+  filters,
+  onChange,
+  sources,
+  results,
+  selectedId,
+  onSelect,
+  userLocation
+}) => {
+  const update = (patch: Partial<LotFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="h-full flex flex-col bg-white text-sm">
+      <div className="p-3 space-y-3 border-b">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={e => update({ query: e.target.value })}
+          placeholder={t('filters.search')}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        />
+
+        {filters.district && (
+          <button className={chipClass(true)} onClick={() => update({ district: '' })}>
+            {t('filters.district', { district: filters.district })} ✕
+          </button>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {sources.map(source => (
+            <button
+              key={source.id}
+              className={chipClass(filters.sources.includes(source.id))}
+              onClick={() => update({ sources: toggle(filters.sources, source.id) })}
+            >
+              {source.label}
+            </button>
+          ))}
+          {TYPE_OPTIONS.map(type => (
+            <button
+              key={type.key}
+              className={chipClass(filters.types.includes(type.key))}
+              onClick={() => update({ types: toggle(filters.types, type.key) })}
+            >
+              {t(type.labelKey)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {AMENITIES.map(amenity => (
+            <button
+              key={amenity.key}
+              className={chipClass(filters.amenities.includes(amenity.key))}
+              onClick={() => update({ amenities: toggle<AmenityKey>(filters.amenities, amenity.key) })}
+            >
+              {t(amenity.labelKey)}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-gray-600">
+          <span className="whitespace-nowrap">{t('filters.minFree')}</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.minFree}
+            onChange={e => update({ minFree: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <span>{t('filters.spacesUnit')}</span>
+        </label>
+
+        <label className="flex items-center gap-2 text-gray-600">
+          <span className="whitespace-nowrap">{t('filters.sort')}</span>
+          <select
+            value={filters.sort}
+            onChange={e => update({ sort: e.target.value as SortKey })}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.key} value={option.key}>{t(option.labelKey, { hours: STANDARD_STAY_MINUTES / 60 })}</option>
+            ))}
+          </select>
+        </label>
+        {filters.sort === 'distance' && !userLocation && (
+          <p className="text-xs text-orange-600">{t('filters.noLocation')}</p>
+        )}
+      </div>
+
+      <div className="px-3 py-2 text-xs text-gray-500 border-b">
+        {t('filters.matchCount', { count: formatNumber(results.length) })}
+        {results.length > MAX_LISTED && t('filters.listedCount', { count: MAX_LISTED })}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y">
+        {results.slice(0, MAX_LISTED).map(lot => (
+          <li key={keyOf(lot)}>
+            <button
+              onClick={() => onSelect(lot)}
+              className={`w-full text-left px-3 py-2 hover:bg-blue-50 ${selectedId === keyOf(lot) ? 'bg-blue-50' : ''}`}
+            >
+              <div className="font-medium text-gray-800">{lot.name}</div>
+              <div className="text-xs text-gray-500 truncate">{lot.address}</div>
+              <div className="flex justify-between text-xs mt-1">
+                <span className={getAvailabilityClass(availableOf(lot, filters.vehicle))}>
+                  {getAvailabilityText(availableOf(lot, filters.vehicle))}
+                </span>
+                {userLocation && (
+                  <span className="text-gray-400">{formatDistance(distanceMeters(userLocation, lot))}</span>
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
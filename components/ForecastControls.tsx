@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { parseArrivalTime } from '../services/forecast';
+import { MessageKey, formatDateTime, t } from '../services/i18n';
+
+export type ViewMode = 'live' | 'forecast';
+
+interface ForecastControlsProps {
+  mode: ViewMode;
+  arrival: number | null;
+  onModeChange: (mode: ViewMode) => void;
+  onArrivalChange: (arrival: number | null) => void;
+}
+
+// Worded per locale; parseArrivalTime understands all of them
+const PRESETS: MessageKey[] = ['forecast.preset15', 'forecast.preset30', 'forecast.preset60'];
+
+const formatArrival = (arrival: number) =>
+  formatDateTime(arrival, {
+    weekday: 'short',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * Live / predicted toggle with a free-text arrival time
+ * (e.g. "30分鐘後", "in 45 minutes", "週六 14:00").
+ */
+export const ForecastControls: React.FC<ForecastControlsProps> = ({ mode, arrival, onModeChange, onArrivalChange }) => {
+  const [text, setText] = useState<string>(() => t(PRESETS[1]));
+  const [invalid, setInvalid] = useState<boolean>(false);
+
+  const apply = (value: string) => {
+    setText(value);
+    const parsed = parseArrivalTime(value);
+    setInvalid(parsed === null);
+    if (parsed !== null) onArrivalChange(parsed);
+  };
+
+  const switchMode = (next: ViewMode) => {
+    if (next === 'forecast' && arrival === null) apply(text);
+    onModeChange(next);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md font-medium transition-all ${
+      active ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'
+    }`;
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap justify-center">
+      <div className="flex bg-gray-100 rounded-lg p-1">
+        <button className={tabClass(mode === 'live')} onClick={() => switchMode('live')}>{t('forecast.live')}</button>
+        <button className={tabClass(mode === 'forecast')} onClick={() => switchMode('forecast')}>{t('forecast.predict')}</button>
+      </div>
+
+      {mode === 'forecast' && (
+        <div className="flex items-center gap-2">
+          <input
+            value={text}
+            onChange={e => apply(e.target.value)}
+            list="arrival-presets"
+            placeholder={t('forecast.placeholder')}
+            className={`w-36 px-2 py-1 border rounded-md ${invalid ? 'border-red-400' : 'border-gray-300'}`}
+          />
+          <datalist id="arrival-presets">
+            {PRESETS.map(key => <option key={key} value={t(key)} />)}
+          </datalist>
+          <span className={`text-xs ${invalid ? 'text-red-600' : 'text-gray-500'}`}>
+            {invalid ? t('forecast.invalid') : arrival !== null ? t('forecast.arrival', { time: formatArrival(arrival) }) : ''}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { LOCALES, Locale, isLocale, t } from '../services/i18n';
+
+interface LocaleSwitcherProps {
+  value: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+/**
+ * UI language picker. Lot names and addresses stay as the source supplies them.
+ */
+export const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={e => { if (isLocale(e.target.value)) onChange(e.target.value); }}
+    aria-label={t('locale.label')}
+    title={t('locale.label')}
+    className="px-2 py-2 border border-gray-300 rounded-lg bg-white text-gray-700"
+  >
+    {LOCALES.map(locale => (
+      <option key={locale.id} value={locale.id}>{locale.label}</option>
+    ))}
+  </select>
+);
@@ -0,0 +1,214 @@
+import React from 'react';
+import { FarePeriod, ParkingLotData } from '../types';
+import { getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { formatFarePeriod, getTariff } from '../services/fares';
+import { entrancesOf } from '../services/entrances';
+import { VEHICLES, availableOf, capacityOf, servesVehicle } from '../services/vehicles';
+import {
+  DetailSection,
+  LOT_AMENITIES,
+  OpeningRange,
+  amenityValue,
+  formatRange,
+  isAllDay,
+  isOpenAt,
+  missingSections,
+  parsePhoneNumbers,
+  parseServiceTime
+} from '../services/lotDetails';
+import { MessageKey, formatList, formatNumber, formatTime, sourceLabel, t } from '../services/i18n';
+
+interface LotDetailPanelProps {
+  lot: ParkingLotData;
+  onClose: () => void;
+}
+
+const SECTION_LABELS: Record<DetailSection, MessageKey> = {
+  serviceTime: 'detail.hours',
+  tel: 'detail.phone',
+  fareTable: 'detail.fares',
+  amenities: 'detail.amenities',
+  entrances: 'detail.entrances'
+};
+
+// TPC's type2: "1" run by the city parking office, "2" by someone else
+const OPERATOR_LABELS: Record<string, MessageKey> = { '1': 'detail.operatorPublic', '2': 'detail.operatorPrivate' };
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="border-t pt-2">
+    <h5 className="text-xs font-bold text-gray-500 mb-1">{title}</h5>
+    {children}
+  </section>
+);
+
+const NotProvided = () => <p className="text-xs text-gray-400">{t('detail.notProvided')}</p>;
+
+const sameList = <T,>(a: T[], b: T[], key: (item: T) => string) =>
+  a.length === b.length && a.every((item, i) => key(item) === key(b[i]));
+
+// One row per day type, collapsed into a single "every day" row when both tables agree
+const DayTypeRows = <T,>({ workingDay, holiday, format, itemKey }: {
+  workingDay: T[];
+  holiday: T[];
+  format: (item: T) => string;
+  itemKey: (item: T) => string;
+}) => {
+  const rows: Array<[MessageKey, T[]]> = sameList(workingDay, holiday, itemKey)
+    ? [['detail.everyDay', workingDay]]
+    : [['detail.workingDay', workingDay], ['detail.holiday', holiday]];
+  return (
+    <table className="text-xs text-gray-700">
+      <tbody>
+        {rows.filter(([, items]) => items.length > 0).map(([label, items]) => (
+          <tr key={label} className="align-top">
+            <th className="pr-3 font-normal text-gray-500 text-left whitespace-nowrap">{t(label)}</th>
+            <td>{items.map(item => <div key={itemKey(item)}>{format(item)}</div>)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const rangeKey = (r: OpeningRange) => `${r.start}-${r.end}`;
+const periodKey = (p: FarePeriod) => `${p.start}-${p.end}-${p.rate}-${p.unit}`;
+const formatHours = (r: OpeningRange) => (isAllDay([r]) ? t('detail.allDay') : formatRange(r));
+
+/**
+ * Everything the source says about one lot: hours with an open-now badge,
+ * phone numbers, fare tables, amenities and entrances. Sections the source
+ * leaves empty say so, and are summed up at the bottom.
+ */
+export const LotDetailPanel: React.FC<LotDetailPanelProps> = ({ lot, onClose }) => {
+  const hours = parseServiceTime(lot.serviceTime);
+  const open = isOpenAt(hours);
+  const phones = parsePhoneNumbers(lot.tel);
+  const tariff = getTariff(lot);
+  const entrances = entrancesOf(lot);
+  const missing = missingSections(lot);
+  const amenitiesReported = !missing.includes('amenities');
+  const hasFarePeriods = tariff.workingDay.length > 0 || tariff.holiday.length > 0;
+
+  const subtitle = [
+    sourceLabel(lot.source),
+    lot.area,
+    lot.type === '1' ? t('lotType.planar') : lot.type === '2' ? t('lotType.tower') : undefined,
+    lot.type2 && OPERATOR_LABELS[lot.type2] ? t(OPERATOR_LABELS[lot.type2]) : undefined
+  ].filter(Boolean).join('・');
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-80 max-h-[80%] overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm space-y-2">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <h4 className="font-bold text-gray-800">{lot.name}</h4>
+          <p className="text-xs text-gray-500">{subtitle}</p>
+          <p className="text-xs text-gray-600 mt-1">{lot.address}</p>
+          {lot.provenance && (
+            <p className="text-[10px] text-gray-400 mt-1">
+              {t('detail.mergedFrom', { lots: formatList(lot.provenance.map(p => `${sourceLabel(p.source)} ${p.name}`)) })}
+            </p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      {lot.summary && <p className="text-xs text-gray-700 whitespace-pre-line">{lot.summary}</p>}
+
+      <Section title={t('detail.spaces')}>
+        <ul className="text-xs space-y-0.5">
+          {VEHICLES.filter(v => v.type === 'car' || servesVehicle(lot, v.type)).map(v => (
+            <li key={v.type} className="flex justify-between">
+              <span className="text-gray-500">{v.icon} {t(v.labelKey)}</span>
+              <span>
+                <span className={getAvailabilityClass(availableOf(lot, v.type))}>{getAvailabilityText(availableOf(lot, v.type))}</span>
+                <span className="text-gray-400"> / {formatNumber(capacityOf(lot, v.type))}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-[10px] text-gray-400 mt-1">{t('detail.updatedAt', { time: formatTime(lot.lastUpdated) })}</p>
+      </Section>
+
+      <Section title={t('detail.hours')}>
+        {hours.status === 'missing' ? <NotProvided /> : (
+          <>
+            <span className={`inline-block mb-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+              open === null ? 'bg-gray-100 text-gray-500' : open ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}>
+              {open === null ? t('detail.hoursUnknown') : open ? t('detail.openNow') : t('detail.closedNow')}
+            </span>
+            {hours.status === 'parsed' ? (
+              <DayTypeRows workingDay={hours.workingDay} holiday={hours.holiday} format={formatHours} itemKey={rangeKey} />
+            ) : (
+              <p className="text-xs text-gray-500">{t('detail.hoursUnparsed')} {hours.raw}</p>
+            )}
+          </>
+        )}
+      </Section>
+
+      <Section title={t('detail.phone')}>
+        {phones.length === 0 ? <NotProvided /> : (
+          <div className="flex flex-col gap-0.5">
+            {phones.map(phone => (
+              <a key={phone.href} href={phone.href} className="text-xs text-blue-600 hover:underline">📞 {phone.display}</a>
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section title={t('detail.fares')}>
+        {hasFarePeriods && (
+          <DayTypeRows workingDay={tariff.workingDay} holiday={tariff.holiday} format={formatFarePeriod} itemKey={periodKey} />
+        )}
+        {(tariff.firstHourRate !== undefined || tariff.dailyCap !== undefined) && (
+          <p className="text-xs text-gray-700">
+            {formatList([
+              tariff.firstHourRate !== undefined ? t('detail.firstHour', { rate: tariff.firstHourRate }) : '',
+              tariff.dailyCap !== undefined ? t('detail.dailyCap', { cap: tariff.dailyCap }) : ''
+            ].filter(Boolean))}
+          </p>
+        )}
+        {lot.payex ? <p className="text-xs text-gray-400 mt-1 whitespace-pre-line">{lot.payex}</p> : !hasFarePeriods && <NotProvided />}
+        {tariff.unparsed.length > 0 && (
+          <p className="text-[10px] text-orange-600 mt-1">{t('detail.fareUnparsed', { text: formatList(tariff.unparsed) })}</p>
+        )}
+      </Section>
+
+      <Section title={t('detail.amenities')}>
+        {!amenitiesReported ? <NotProvided /> : (
+          <ul className="grid grid-cols-2 gap-1 text-xs">
+            {LOT_AMENITIES.map(amenity => {
+              const value = amenityValue(lot, amenity.key);
+              if (value === null) return null;
+              return (
+                <li key={amenity.key} className={`flex items-center gap-1 ${value > 0 ? 'text-gray-800' : 'text-gray-300 line-through'}`}>
+                  <span className={value > 0 ? '' : 'grayscale opacity-50'}>{amenity.icon}</span>
+                  <span>{t(amenity.labelKey)}</span>
+                  {value > 1 && <span className="text-gray-400">({t('detail.amenityCount', { count: value })})</span>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Section>
+
+      <Section title={t('detail.entrances')}>
+        {entrances.length === 0 ? (
+          <p className="text-xs text-gray-400">{t('detail.mainEntrance')}</p>
+        ) : (
+          <ol className="list-decimal list-inside text-xs text-gray-700 space-y-0.5">
+            {entrances.map((entrance, i) => (
+              <li key={i}>{entrance.address || t('popup.noAddress')}</li>
+            ))}
+          </ol>
+        )}
+      </Section>
+
+      {missing.length > 0 && (
+        <p className="border-t pt-2 text-[10px] text-gray-400">
+          {t('detail.missing', { source: sourceLabel(lot.source), sections: formatList(missing.map(s => t(SECTION_LABELS[s]))) })}
+        </p>
+      )}
+    </div>
+  );
+};
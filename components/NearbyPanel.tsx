@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { ParkingLotData, VehicleType } from '../types';
+import { displayedAvailability, getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { STANDARD_STAY_MINUTES } from '../services/fares';
+import { formatDistance } from '../services/geo';
+import { Place, geocodeAddress } from '../services/geocoding';
+import { formatDuration } from '../services/routing';
+import { keyOf } from '../services/identity';
+import { NearbyQuery, NearbyResult, RADIUS_OPTIONS, RadiusUnit, WEIGHT_PRESETS, presetOf } from '../services/nearby';
+import { formatNumber, t } from '../services/i18n';
+
+interface NearbyPanelProps {
+  query: NearbyQuery;
+  results: NearbyResult[];
+  vehicle: VehicleType;
+  // True while the next map click sets the destination
+  picking: boolean;
+  onPickingChange: (picking: boolean) => void;
+  onQueryChange: (query: NearbyQuery) => void;
+  onSelect: (lot: ParkingLotData) => void;
+  onClose: () => void;
+}
+
+// Longer lists are not useful in a side panel; the map shows the rest inside the circle
+const MAX_LISTED = 20;
+
+/**
+ * "Lots within N minutes of here": a destination from an address search or a
+ * map pin, a radius in metres or walking minutes, and the lots inside it
+ * ranked by free spaces, cost and distance.
+ */
+export const NearbyPanel: React.FC<NearbyPanelProps> = ({
+  query,
+  results,
+  vehicle,
+  picking,
+  onPickingChange,
+  onQueryChange,
+  onSelect,
+  onClose
+}) => {
+  const [address, setAddress] = useState<string>('');
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const choosePlace = (place: Place) => {
+    setPlaces([]);
+    onQueryChange({ ...query, center: { lat: place.lat, lng: place.lng }, label: place.label });
+  };
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = address.trim();
+    if (!text) return;
+    setSearching(true);
+    setMessage(null);
+    try {
+      const found = await geocodeAddress(text);
+      if (found.length === 0) setMessage(t('nearby.noPlaces', { query: text }));
+      else if (found.length === 1) choosePlace(found[0]);
+      else setPlaces(found);
+    } catch (err) {
+      setMessage(t('nearby.geocodeFailed', { error: (err as Error).message }));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-80 max-h-[80%] overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-bold text-gray-700">{t('nearby.title')}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      <form onSubmit={search} className="flex gap-1">
+        <input
+          type="search"
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          placeholder={t('nearby.addressPlaceholder')}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+        />
+        <button
+          type="submit"
+          disabled={searching || !address.trim()}
+          className={`px-2 py-1 rounded text-white font-medium ${searching ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
+        >
+          {searching ? t('nearby.searching') : t('nearby.search')}
+        </button>
+      </form>
+
+      {places.length > 0 && (
+        <ul className="border rounded divide-y text-xs">
+          {places.map(place => (
+            <li key={`${place.lat},${place.lng}`}>
+              <button onClick={() => choosePlace(place)} className="w-full text-left px-2 py-1 hover:bg-gray-50">
+                {place.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className="text-xs text-orange-600">{message}</p>}
+
+      <button
+        onClick={() => onPickingChange(!picking)}
+        className={`w-full px-2 py-1 rounded border font-medium ${
+          picking ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        {picking ? t('nearby.picking') : t('nearby.pick')}
+      </button>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-500">{t('nearby.within')}</span>
+          <select
+            value={`${query.unit}:${query.radius}`}
+            onChange={e => {
+              const [unit, radius] = e.target.value.split(':');
+              onQueryChange({ ...query, unit: unit as RadiusUnit, radius: parseInt(radius, 10) });
+            }}
+            className="px-1 py-1 border border-gray-300 rounded bg-white"
+          >
+            {(Object.keys(RADIUS_OPTIONS) as RadiusUnit[]).map(unit => (
+              <optgroup key={unit} label={unit === 'minutes' ? t('nearby.byWalk') : t('nearby.byDistance')}>
+                {RADIUS_OPTIONS[unit].map(value => (
+                  <option key={value} value={`${unit}:${value}`}>
+                    {unit === 'minutes'
+                      ? t('nearby.unitMinutes', { value })
+                      : formatDistance(value)}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-500">{t('nearby.rankBy')}</span>
+          <select
+            value={presetOf(query.weights)?.id ?? ''}
+            onChange={e => {
+              const preset = WEIGHT_PRESETS.find(p => p.id === e.target.value);
+              if (preset) onQueryChange({ ...query, weights: preset.weights });
+            }}
+            className="px-1 py-1 border border-gray-300 rounded bg-white"
+          >
+            {WEIGHT_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{t(preset.labelKey)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!query.center ? (
+        <p className="text-xs text-gray-500">{t('nearby.hint')}</p>
+      ) : (
+        <div className="border-t pt-2">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <p className="text-xs text-gray-700">{t('nearby.center', { label: query.label })}</p>
+            <button
+              onClick={() => onQueryChange({ ...query, center: null, label: '' })}
+              className="text-xs text-gray-400 hover:text-red-600 whitespace-nowrap"
+            >
+              {t('nearby.clear')}
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-400 mb-1">{t('nearby.count', { count: formatNumber(results.length) })}</p>
+          {results.length === 0 ? (
+            <p className="text-xs text-gray-500">{t('nearby.empty')}</p>
+          ) : (
+            <ol className="divide-y">
+              {results.slice(0, MAX_LISTED).map((result, i) => (
+                <li key={keyOf(result.lot)}>
+                  <button onClick={() => onSelect(result.lot)} className="w-full text-left py-1.5 hover:bg-gray-50">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium text-gray-800 truncate">{i + 1}. {result.lot.name}</span>
+                      <span className={`text-xs whitespace-nowrap ${getAvailabilityClass(displayedAvailability(result.lot, vehicle))}`}>
+                        {getAvailabilityText(displayedAvailability(result.lot, vehicle))}
+                      </span>
+                    </div>
+                    <div className="flex justify-between gap-2 text-[11px] text-gray-500">
+                      <span>
+                        {t('route.summary', { distance: formatDistance(result.distance), duration: formatDuration(result.walkSeconds) })}
+                        {result.cost !== null && `・${t('popup.stayCost', { hours: STANDARD_STAY_MINUTES / 60, cost: formatNumber(result.cost), note: '' })}`}
+                      </span>
+                      <span className="text-gray-400 whitespace-nowrap">{t('nearby.score', { score: Math.round(result.score * 100) })}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ParkingLotData } from '../types';
+import {
+  DEFAULT_PRECACHE_ZOOMS,
+  MAX_PRECACHE_TILES,
+  districtsFromLots,
+  precacheTiles,
+  tileUrlsForBounds
+} from '../services/tileCache';
+import { formatNumber, t } from '../services/i18n';
+
+interface OfflineTilesPanelProps {
+  lots: ParkingLotData[];
+  onClose: () => void;
+}
+
+/**
+ * Lets the user download map tiles for one district so the map still renders
+ * underground / offline.
+ */
+export const OfflineTilesPanel: React.FC<OfflineTilesPanelProps> = ({ lots, onClose }) => {
+  const districts = useMemo(() => districtsFromLots(lots), [lots]);
+  const [districtName, setDistrictName] = useState<string>('');
+  const [maxZoom, setMaxZoom] = useState<number>(16);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const district = districts.find(d => d.name === districtName) ?? null;
+  const zooms = DEFAULT_PRECACHE_ZOOMS.filter(z => z <= maxZoom);
+  const urls = useMemo(() => (district ? tileUrlsForBounds(district.bounds, zooms) : []), [district, maxZoom]);
+  const tooMany = urls.length > MAX_PRECACHE_TILES;
+  const running = progress !== null && abortRef.current !== null;
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    setProgress({ done: 0, total: urls.length });
+    try {
+      const failed = await precacheTiles(urls, (done, total) => setProgress({ done, total }), controller.signal);
+      if (controller.signal.aborted) setMessage(t('tiles.cancelled'));
+      else setMessage(failed > 0 ? t('tiles.doneWithFailures', { count: formatNumber(failed) }) : t('tiles.done', { district: district?.name ?? '' }));
+    } catch (err) {
+      setMessage(t('tiles.failed', { error: (err as Error).message }));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="absolute right-4 top-4 z-[1002] w-72 bg-white rounded-lg shadow-xl border border-gray-200 p-4 text-sm">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-bold text-gray-700">{t('tiles.title')}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+
+      {districts.length === 0 ? (
+        <p className="text-gray-500">{t('tiles.noDistricts')}</p>
+      ) : (
+        <div className="space-y-3">
+          <select
+            value={districtName}
+            onChange={e => setDistrictName(e.target.value)}
+            disabled={running}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            <option value="">{t('tiles.chooseDistrict')}</option>
+            {districts.map(d => (
+              <option key={d.name} value={d.name}>{d.name} ({d.lotCount})</option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 text-gray-600">
+            <span>{t('tiles.maxZoom')}</span>
+            <select
+              value={maxZoom}
+              onChange={e => setMaxZoom(parseInt(e.target.value, 10))}
+              disabled={running}
+              className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+            >
+              {DEFAULT_PRECACHE_ZOOMS.map(z => <option key={z} value={z}>{z}</option>)}
+            </select>
+          </label>
+
+          {district && (
+            <p className={`text-xs ${tooMany ? 'text-red-600' : 'text-gray-500'}`}>
+              {t('tiles.count', { count: formatNumber(urls.length) })}
+              {tooMany && t('tiles.tooMany', { max: formatNumber(MAX_PRECACHE_TILES) })}
+            </p>
+          )}
+
+          {progress && (
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}
+              />
+            </div>
+          )}
+
+          {running ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+            >
+              {t('tiles.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!district || tooMany}
+              className={`w-full px-3 py-2 rounded-lg text-white font-medium ${
+                !district || tooMany ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {t('tiles.download')}
+            </button>
+          )}
+
+          {message && <p className="text-xs text-gray-600">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,67 +1,292 @@
-import React, { useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Tooltip, CircleMarker, useMap } from 'react-leaflet';
+import React, { useEffect, useRef } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Tooltip, Circle, CircleMarker, Polyline, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { ParkingLotData } from '../types';
-
-// Fix for default Leaflet icons in React ESM environment
-// Using direct CDN URLs to avoid bundler import issues with image files
-const iconUrl = 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png';
-const iconRetinaUrl = 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png';
-const shadowUrl = 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png';
-
-const DefaultIcon = L.icon({
-    iconRetinaUrl: iconRetinaUrl,
-    iconUrl: iconUrl,
-    shadowUrl: shadowUrl,
-    iconSize: [25, 41],
-    iconAnchor: [12, 41],
-    popupAnchor: [1, -34],
-    shadowSize: [41, 41]
-});
-
-// Override default icon
-L.Marker.prototype.options.icon = DefaultIcon;
+import { AvailabilityForecast, ParkingLotData, VehicleType } from '../types';
+import { LotTrend } from './TrendChart';
+import { STANDARD_STAY_MINUTES, getTariff, stayCostOf } from '../services/fares';
+import { forecastFor, getAvailabilityClass, getAvailabilityText } from '../services/availability';
+import { ClusterLayer } from './ClusterLayer';
+import { lotIcon } from './lotIcons';
+import { keyOf } from '../services/identity';
+import { TILE_URL_TEMPLATE } from '../services/tileCache';
+import { RouteMode } from '../services/routing';
+import { Navigation, RouteInfo } from './RouteInfo';
+import { ENTRANCE_MIN_ZOOM, EntranceMarkers } from './EntranceMarkers';
+import { entrancesOf } from '../services/entrances';
+import { availableOf, capacityOf, vehicleLabel } from '../services/vehicles';
+import { ImportedSnapshot } from '../services/snapshotExport';
+import { SnapshotOverlay } from './SnapshotOverlay';
+import { LatLng, boundsAround } from '../services/geo';
+import { AvailabilityDelta, formatDelta } from '../services/changes';
+import { AdminDistrict, DistrictBoundaries, DistrictStats } from '../services/districts';
+import { DistrictLayer } from './DistrictLayer';
+import { PositionFix } from '../services/positionSource';
+import { formatList, formatNumber, formatTime, t } from '../services/i18n';
 
 interface ParkingMapProps {
   data: ParkingLotData[];
+  vehicle: VehicleType;
   userLocation: { lat: number; lng: number } | null;
+  // Set by list selections; each new request flies to the lot and opens its popup
+  focusRequest?: FocusRequest | null;
+  onSelect?: (lot: ParkingLotData) => void;
+  navigation?: Navigation | null;
+  onNavigate?: (lot: ParkingLotData, mode: RouteMode) => void;
+  onClearNavigation?: () => void;
+  isFavorite?: (lot: ParkingLotData) => boolean;
+  onToggleFavorite?: (lot: ParkingLotData) => void;
+  onShowDetails?: (lot: ParkingLotData) => void;
+  // Previously exported snapshot shown alongside the live pins
+  overlay?: ImportedSnapshot | null;
+  // Destination and search radius of the nearby search
+  nearby?: NearbyArea | null;
+  // Set while the next map click should pick a point
+  onPickPoint?: ((point: LatLng) => void) | null;
+  // Free-space changes from the latest refresh, by keyOf, while they are highlighted
+  changes?: Map<string, AvailabilityDelta> | null;
+  // District occupancy choropleth, shown while the dashboard is open
+  districts?: DistrictOverlay | null;
+  // District the lots are filtered to; the map fits it whenever it changes
+  district?: AdminDistrict | null;
+  // Driving mode: the map stays centred on this fix and shows its heading
+  follow?: PositionFix | null;
 }
 
-// Sub-component to handle flying to user location
-const RecenterMap = ({ location }: { location: { lat: number; lng: number } | null }) => {
+export interface DistrictOverlay {
+  boundaries: DistrictBoundaries;
+  stats: DistrictStats[];
+  selected: string;
+  onSelect: (id: string) => void;
+}
+
+export interface NearbyArea {
+  center: LatLng;
+  radiusMeters: number;
+  label: string;
+}
+
+export interface FocusRequest {
+  key: string;
+  requestedAt: number;
+}
+
+// Sub-component to fly to the user's location when it moves; skipped while
+// driving mode follows the device, and keyed on coordinates so that leaving
+// driving mode does not fly back
+const RecenterMap = ({ location, paused }: { location: { lat: number; lng: number } | null; paused: boolean }) => {
   const map = useMap();
-  
+  const lat = location?.lat;
+  const lng = location?.lng;
+
   useEffect(() => {
-    if (location) {
-      // Fly to user location with a smooth animation
-      map.flyTo([location.lat, location.lng], 16, {
-        duration: 1.5
-      });
-    }
-  }, [location, map]);
-  
+    if (lat === undefined || lng === undefined || paused) return;
+    // Fly to user location with a smooth animation
+    map.flyTo([lat, lng], 16, {
+      duration: 1.5
+    });
+  }, [lat, lng, map]);
+
+  return null;
+};
+
+// Sub-component to bring a newly planned route fully into view
+const FitRoute = ({ navigation }: { navigation: Navigation | null }) => {
+  const map = useMap();
+  const route = navigation?.route ?? null;
+
+  useEffect(() => {
+    if (!route || route.path.length < 2) return;
+    map.fitBounds(L.latLngBounds(route.path.map(p => [p.lat, p.lng] as [number, number])), {
+      padding: [60, 60],
+      maxZoom: 17
+    });
+  }, [route, map]);
+
+  return null;
+};
+
+// Sub-component to show the whole search circle whenever it moves or changes size
+const FitNearby = ({ area }: { area: NearbyArea | null }) => {
+  const map = useMap();
+  const { lat, lng } = area?.center ?? {};
+  const radius = area?.radiusMeters;
+
+  useEffect(() => {
+    if (lat === undefined || lng === undefined || radius === undefined) return;
+    const box = boundsAround({ lat, lng }, radius);
+    map.fitBounds([[box.south, box.west], [box.north, box.east]], { padding: [20, 20] });
+  }, [lat, lng, radius, map]);
+
+  return null;
+};
+
+// Zoom kept while following the driver: streets and lot pins readable at a glance
+const FOLLOW_MIN_ZOOM = 16;
+
+// Sub-component keeping the driver centred as fixes arrive
+const FollowPosition = ({ fix }: { fix: PositionFix | null }) => {
+  const map = useMap();
+  const lat = fix?.lat;
+  const lng = fix?.lng;
+
+  useEffect(() => {
+    if (lat === undefined || lng === undefined) return;
+    map.setView([lat, lng], Math.max(map.getZoom(), FOLLOW_MIN_ZOOM), { animate: true });
+  }, [lat, lng, map]);
+
+  return null;
+};
+
+const headingIcons = new Map<number, L.DivIcon>();
+
+// Blue arrow for the driver, rotated to the heading in 5° steps so icons are reused
+const headingIcon = (heading: number): L.DivIcon => {
+  const step = (Math.round(heading / 5) * 5) % 360;
+  let icon = headingIcons.get(step);
+  if (!icon) {
+    icon = L.divIcon({
+      className: '',
+      html: `<svg width="32" height="32" viewBox="0 0 32 32" style="transform:rotate(${step}deg)">` +
+        '<path d="M16 3 L27 28 L16 22 L5 28 Z" fill="#2563eb" stroke="white" stroke-width="2" stroke-linejoin="round"/></svg>',
+      iconSize: [32, 32],
+      iconAnchor: [16, 16]
+    });
+    headingIcons.set(step, icon);
+  }
+  return icon;
+};
+
+// Sub-component to bring a newly selected district into view
+const FitDistrict = ({ district }: { district: AdminDistrict | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!district) return;
+    const { south, west, north, east } = district.bounds;
+    map.fitBounds([[south, west], [north, east]], { padding: [20, 20] });
+  }, [district, map]);
+
   return null;
 };
 
-export const ParkingMap: React.FC<ParkingMapProps> = ({ data, userLocation }) => {
+// Sub-component turning the next map click into a picked point
+const PickPoint = ({ onPick }: { onPick: ((point: LatLng) => void) | null }) => {
+  const map = useMapEvents({
+    click: e => onPick?.({ lat: e.latlng.lat, lng: e.latlng.lng })
+  });
+
+  useEffect(() => {
+    map.getContainer().style.cursor = onPick ? 'crosshair' : '';
+  }, [onPick, map]);
+
+  return null;
+};
+
+const ChangeDelta = ({ delta }: { delta?: number }) =>
+  delta ? (
+    <span className={`ml-1 text-xs font-bold ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatDelta(delta)}</span>
+  ) : null;
+
+const ForecastSummary = ({ forecast }: { forecast?: AvailabilityForecast }) => forecast ? (
+  <div className="mt-2 border-t pt-2">
+    <span className="text-xs text-gray-500 block">
+      {t('forecast.at', { time: formatTime(forecast.arrival) })}
+    </span>
+    <span className={getAvailabilityClass(forecast.available)}>
+      {getAvailabilityText(forecast.available)}
+    </span>
+    {forecast.available >= 0 && (
+      <span className="text-xs text-gray-500 ml-1">
+        {t('forecast.range', { low: formatNumber(forecast.low), high: formatNumber(forecast.high) })}
+      </span>
+    )}
+    <span className="text-[10px] text-gray-400 block">
+      {forecast.method === 'none'
+        ? t('forecast.methodNone')
+        : forecast.method === 'persistence'
+          ? t('forecast.methodPersistence')
+          : t('forecast.methodSamples', { count: formatNumber(forecast.sampleCount) })}
+    </span>
+  </div>
+) : null;
+
+interface LotMarkers {
+  layers: Map<string, L.Layer>;
+  pendingFocus: string | null;
+}
+
+// Sub-component to bring a lot selected elsewhere (e.g. the filter panel) into view
+const FocusLot = ({ request, data, markers }: {
+  request: FocusRequest | null;
+  data: ParkingLotData[];
+  markers: React.MutableRefObject<LotMarkers>;
+}) => {
+  const map = useMap();
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  useEffect(() => {
+    if (!request) return;
+    const lot = dataRef.current.find(park => keyOf(park) === request.key);
+    if (!lot) return;
+    // The lot may still be clustered; its marker opens the popup once it mounts
+    markers.current.pendingFocus = request.key;
+    map.flyTo([lot.lat, lot.lng], Math.max(map.getZoom(), 17), { duration: 1 });
+    map.once('moveend', () => {
+      const marker = markers.current.layers.get(request.key);
+      if (marker) {
+        markers.current.pendingFocus = null;
+        marker.openPopup();
+      }
+    });
+  }, [request, map, markers]);
+
+  return null;
+};
+
+export const ParkingMap: React.FC<ParkingMapProps> = ({
+  data,
+  vehicle,
+  userLocation,
+  focusRequest = null,
+  onSelect,
+  navigation = null,
+  onNavigate,
+  onClearNavigation,
+  isFavorite,
+  onToggleFavorite,
+  onShowDetails,
+  overlay = null,
+  nearby = null,
+  onPickPoint = null,
+  changes = null,
+  districts = null,
+  district = null,
+  follow = null
+}) => {
+  const markers = useRef<LotMarkers>({ layers: new Map(), pendingFocus: null });
   
-  // Format the availability text based on requirements
-  const getAvailabilityText = (available: number) => {
-    if (available === -9) return "無法提供";
-    if (available === -11) return "剩餘格位足夠";
-    if (available === -12) return "剩餘格位不足半數";
-    if (available === -13) return "剩餘格數不足";
-    if (available < 0) return "資訊不明";
-    return `${available} 格`;
+  const registerMarker = (key: string, layer: L.Layer | null) => {
+    const { current } = markers;
+    if (!layer) {
+      current.layers.delete(key);
+      return;
+    }
+    current.layers.set(key, layer);
+    if (current.pendingFocus === key) {
+      current.pendingFocus = null;
+      // Wait for Leaflet to add the layer to the map before opening its popup
+      setTimeout(() => layer.openPopup(), 0);
+    }
   };
 
-  const getAvailabilityClass = (available: number) => {
-    if (available === -9) return "text-gray-500 font-bold";
-    if (available === -11) return "text-green-600 font-bold";
-    if (available === -12) return "text-yellow-600 font-bold";
-    if (available === -13) return "text-red-600 font-bold";
-    if (available > 0) return "text-blue-600 font-bold";
-    return "text-gray-600 font-bold";
+  const deltaOf = (park: ParkingLotData) => changes?.get(keyOf(park))?.[vehicle];
+
+  const getStayCostText = (park: ParkingLotData) => {
+    const { cost, flags } = stayCostOf(park, park.forecast?.arrival ?? Date.now());
+    if (cost === null) return t('popup.fareUnparsed');
+    const note = flags.length > 0 ? t('popup.fareEstimated') : '';
+    return t('popup.stayCost', { hours: STANDARD_STAY_MINUTES / 60, cost: formatNumber(cost), note });
   };
 
   // Center on Taipei City Hall by default
@@ -76,14 +301,54 @@ export const ParkingMap: React.FC<ParkingMapProps> = ({ data, userLocation }) =>
     >
       <TileLayer
         attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        url={TILE_URL_TEMPLATE}
       />
       
       {/* Handle auto-centering when user location changes */}
-      <RecenterMap location={userLocation} />
+      <RecenterMap location={userLocation} paused={follow !== null} />
+      <FollowPosition fix={follow} />
+      <FocusLot request={focusRequest} data={data} markers={markers} />
+      <FitRoute navigation={navigation} />
+      <FitNearby area={nearby} />
+      <PickPoint onPick={onPickPoint} />
+      <FitDistrict district={district} />
+
+      {districts && <DistrictLayer {...districts} />}
+
+      {nearby && (
+        <>
+          <Circle
+            center={[nearby.center.lat, nearby.center.lng]}
+            radius={nearby.radiusMeters}
+            pathOptions={{ color: '#7c3aed', weight: 2, fillOpacity: 0.06, dashArray: '6 6' }}
+            interactive={false}
+          />
+          <CircleMarker
+            center={[nearby.center.lat, nearby.center.lng]}
+            radius={7}
+            pathOptions={{ color: 'white', fillColor: '#7c3aed', fillOpacity: 1, weight: 2 }}
+          >
+            <Tooltip direction="top">{nearby.label}</Tooltip>
+          </CircleMarker>
+        </>
+      )}
 
-      {/* User Location Marker */}
-      {userLocation && (
+      {navigation?.route && (
+        <Polyline
+          positions={navigation.route.path.map(p => [p.lat, p.lng] as [number, number])}
+          pathOptions={{
+            color: '#2563eb',
+            weight: 5,
+            opacity: 0.8,
+            dashArray: navigation.route.engine === 'estimate' ? '8 8' : undefined
+          }}
+        />
+      )}
+
+      {/* User Location Marker, an arrow while driving with a known heading */}
+      {follow && follow.heading !== null ? (
+        <Marker position={[follow.lat, follow.lng]} icon={headingIcon(follow.heading)} interactive={false} />
+      ) : userLocation && (
         <CircleMarker 
           center={[userLocation.lat, userLocation.lng]}
           radius={8}
@@ -94,45 +359,100 @@ export const ParkingMap: React.FC<ParkingMapProps> = ({ data, userLocation }) =>
             weight: 2 
           }}
         >
-          <Popup>您的目前位置</Popup>
+          <Popup>{t('app.yourLocation')}</Popup>
         </CircleMarker>
       )}
       
-      {/* Parking Lot Markers */}
-      {data.map((park) => (
-        <Marker 
-          key={park.id} 
-          position={[park.lat, park.lng]}
-          icon={DefaultIcon}
-        >
-          <Tooltip direction="top" offset={[0, -30]} opacity={1}>
-             <span className="font-bold text-gray-700 font-sans text-sm">{park.name}</span>
-          </Tooltip>
-          <Popup>
-            <div className="min-w-[200px] p-1 font-sans">
-              <h3 className="text-lg font-bold text-gray-800 mb-1">{park.name}</h3>
-              <div className="text-sm text-gray-600 mb-2">{park.address}</div>
-              
-              <div className="grid grid-cols-2 gap-2 border-t pt-2">
-                <div>
-                  <span className="text-xs text-gray-500 block">總車位數</span>
-                  <span className="font-semibold text-gray-800">{park.totalcar} 格</span>
+      {overlay && <SnapshotOverlay snapshot={overlay} />}
+
+      {/* Parking Lot Markers, clustered and limited to the viewport */}
+      <ClusterLayer lots={data} vehicle={vehicle} renderLot={(park, zoom) => (
+        <React.Fragment key={keyOf(park)}>
+          {zoom >= ENTRANCE_MIN_ZOOM && <EntranceMarkers park={park} onSelect={onSelect} />}
+          <Marker 
+            position={[park.lat, park.lng]}
+            icon={lotIcon(park, vehicle, deltaOf(park))}
+            ref={(marker) => registerMarker(keyOf(park), marker)}
+            eventHandlers={{ click: () => onSelect?.(park) }}
+          >
+            <Tooltip direction="top" opacity={1}>
+               <span className="font-bold text-gray-700 font-sans text-sm">{park.name}</span>
+            </Tooltip>
+            <Popup>
+              <div className="min-w-[200px] p-1 font-sans">
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <h3 className="text-lg font-bold text-gray-800">{park.name}</h3>
+                  {onToggleFavorite && (
+                    <button
+                      onClick={() => onToggleFavorite(park)}
+                      className="text-xl leading-none text-yellow-500 hover:text-yellow-600"
+                      title={isFavorite?.(park) ? t('popup.removeFavorite') : t('popup.addFavorite')}
+                    >
+                      {isFavorite?.(park) ? '★' : '☆'}
+                    </button>
+                  )}
                 </div>
-                <div>
-                  <span className="text-xs text-gray-500 block">剩餘車位</span>
-                  <span className={getAvailabilityClass(park.availablecar)}>
-                    {getAvailabilityText(park.availablecar)}
-                  </span>
+                <div className="text-sm text-gray-600 mb-2">
+                  {park.address}
+                  {onShowDetails && (
+                    <button onClick={() => onShowDetails(park)} className="ml-2 text-xs text-blue-600 hover:underline">
+                      {t('popup.details')} ›
+                    </button>
+                  )}
                 </div>
-              </div>
+                {entrancesOf(park).length > 1 && (
+                  <div className="text-xs text-gray-500 mb-2">
+                    {t('popup.entrances', {
+                      count: entrancesOf(park).length,
+                      list: formatList(entrancesOf(park).map(e => e.address || t('popup.noAddress')))
+                    })}
+                  </div>
+                )}
+              
+                <div className="grid grid-cols-2 gap-2 border-t pt-2">
+                  <div>
+                    <span className="text-xs text-gray-500 block">{t('popup.capacity', { vehicle: vehicleLabel(vehicle) })}</span>
+                    <span className="font-semibold text-gray-800">{t('availability.count', { count: formatNumber(capacityOf(park, vehicle)) })}</span>
+                  </div>
+                  <div>
+                    <span className="text-xs text-gray-500 block">{t('popup.available')}</span>
+                    <span className={getAvailabilityClass(availableOf(park, vehicle))}>
+                      {getAvailabilityText(availableOf(park, vehicle))}
+                    </span>
+                    <ChangeDelta delta={deltaOf(park)} />
+                  </div>
+                </div>
+
+                {vehicle !== 'car' && availableOf(park, vehicle) === -9 && (
+                  <p className="mt-1 text-[10px] text-gray-400">{t('popup.noLiveForVehicle', { vehicle: vehicleLabel(vehicle) })}</p>
+                )}
+
+                <ForecastSummary forecast={forecastFor(park, vehicle)} />
               
-              <div className="mt-2 text-xs text-gray-400">
-                 {park.payex}
+                <div className="mt-2 text-xs text-gray-400">
+                   {park.payex}
+                </div>
+                <div className={`text-xs ${getTariff(park).status === 'unparsed' ? 'text-gray-400' : 'text-gray-700 font-medium'}`}>
+                   {getStayCostText(park)}
+                </div>
+
+                <LotTrend park={park} vehicle={vehicle} />
+
+                {onNavigate && (
+                  <RouteInfo
+                    park={park}
+                    navigation={navigation?.key === keyOf(park) ? navigation : null}
+                    userLocation={userLocation}
+                    vehicle={vehicle}
+                    onNavigate={onNavigate}
+                    onClear={() => onClearNavigation?.()}
+                  />
+                )}
               </div>
-            </div>
-          </Popup>
-        </Marker>
-      ))}
+            </Popup>
+          </Marker>
+        </React.Fragment>
+      )} />
     </MapContainer>
   );
 };
\ No newline at end of file
@@ -0,0 +1,60 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { EmbedWidget } from './EmbedWidget';
+import { embedConfigFromSearchParams } from '../services/embed';
+import { isLocale } from '../services/i18n';
+
+// Element attribute → embed URL parameter; `title` would double as a hover tooltip, hence `label`
+const ATTRIBUTE_PARAMS: Record<string, string> = {
+  view: 'embed',
+  lot: 'lot',
+  lots: 'lots',
+  bbox: 'bbox',
+  theme: 'theme',
+  refresh: 'refresh',
+  vehicle: 'v',
+  label: 'title'
+};
+
+/**
+ * Registers `<parking-widget lots="TPC:001,NTPC:200001" view="cards" theme="dark" refresh="300">`,
+ * the same widget as an `?embed=` URL for pages that would rather not use an
+ * iframe. Attributes mirror the URL parameters (see embedConfigFromSearchParams)
+ * and can be changed after the element is on the page.
+ */
+export const defineParkingWidget = (tagName: string = 'parking-widget') => {
+  if (customElements.get(tagName)) return;
+
+  customElements.define(tagName, class extends HTMLElement {
+    static observedAttributes = [...Object.keys(ATTRIBUTE_PARAMS), 'lang'];
+    private root: ReactDOM.Root | null = null;
+
+    connectedCallback() {
+      // Custom elements are inline by default; the widget fills a block the page sizes
+      if (!this.style.display) this.style.display = 'block';
+      this.root = ReactDOM.createRoot(this);
+      this.renderWidget();
+    }
+
+    disconnectedCallback() {
+      this.root?.unmount();
+      this.root = null;
+    }
+
+    attributeChangedCallback() {
+      this.renderWidget();
+    }
+
+    private renderWidget() {
+      if (!this.root) return;
+      const params = new URLSearchParams();
+      Object.entries(ATTRIBUTE_PARAMS).forEach(([attribute, param]) => {
+        const value = this.getAttribute(attribute);
+        if (value !== null) params.set(param, value);
+      });
+      // Each element keeps its own language; without `lang` it follows the page
+      const lang = this.getAttribute('lang');
+      this.root.render(<EmbedWidget config={embedConfigFromSearchParams(params)} locale={isLocale(lang) ? lang : undefined} />);
+    }
+  });
+};
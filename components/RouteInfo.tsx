@@ -0,0 +1,111 @@
+import React from 'react';
+import { AvailabilityForecast, ParkingLotData, VehicleType } from '../types';
+import { Route, RouteMode, formatRoute, navigationLinks } from '../services/routing';
+import { LatLng } from '../services/geo';
+import { getAvailabilityClass, getAvailabilityLevel, getAvailabilityText } from '../services/availability';
+import { capacityOf } from '../services/vehicles';
+import { MessageKey, formatTime, t } from '../services/i18n';
+
+export interface Navigation {
+  key: string; // lot the route leads to
+  mode: RouteMode;
+  destination: LatLng & { address: string };
+  route: Route | null; // null while planning
+  // Predicted availability at the route's arrival time
+  arrivalForecast?: AvailabilityForecast;
+  error?: MessageKey;
+}
+
+interface RouteInfoProps {
+  park: ParkingLotData;
+  navigation: Navigation | null; // only passed when it targets this lot
+  userLocation: LatLng | null;
+  vehicle: VehicleType;
+  onNavigate: (park: ParkingLotData, mode: RouteMode) => void;
+  onClear: () => void;
+}
+
+const MODE_LABELS: Record<RouteMode, MessageKey> = { walk: 'route.walk', drive: 'route.drive' };
+
+/**
+ * "Navigate here" controls for a lot popup, plus distance, ETA and the
+ * availability expected on arrival once a route is planned.
+ */
+export const RouteInfo: React.FC<RouteInfoProps> = ({ park, navigation, userLocation, vehicle, onNavigate, onClear }) => {
+  // A forecast planned before the vehicle mode changed predicts the wrong spaces
+  const forecast = navigation?.arrivalForecast?.vehicle === vehicle ? navigation.arrivalForecast : undefined;
+  const arrivalLevel = forecast && forecast.method !== 'none'
+    ? getAvailabilityLevel(forecast.available, capacityOf(park, vehicle))
+    : null;
+  const destination = navigation?.destination ?? { lat: park.lat, lng: park.lng };
+
+  return (
+    <div className="mt-2 border-t pt-2 text-xs">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-500">{t('route.navigateHere')}</span>
+        {(Object.keys(MODE_LABELS) as RouteMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onNavigate(park, mode)}
+            className={`px-2 py-0.5 rounded border ${
+              navigation?.mode === mode ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {t(MODE_LABELS[mode])}
+          </button>
+        ))}
+        {navigation && (
+          <button onClick={onClear} className="ml-auto text-gray-400 hover:text-gray-600" title={t('route.clear')}>✕</button>
+        )}
+      </div>
+
+      {!userLocation && !navigation && (
+        <p className="text-gray-400 mt-1">{t('route.needLocation')}</p>
+      )}
+
+      {navigation && (
+        <div className="mt-1 space-y-1">
+          {navigation.error && <p className="text-red-600">{t(navigation.error)}</p>}
+          {!navigation.error && !navigation.route && <p className="text-gray-500">{t('route.planning')}</p>}
+          {navigation.route && (
+            <>
+              <p className="text-gray-800 font-medium">
+                {formatRoute(navigation.route)}
+                {navigation.route.engine === 'estimate' && <span className="text-gray-400 font-normal">{t('route.estimated')}</span>}
+              </p>
+              {navigation.destination.address && (
+                <p className="text-gray-500">{t('route.destination', { address: navigation.destination.address })}</p>
+              )}
+            </>
+          )}
+          {forecast && (
+            <p>
+              <span className="text-gray-500">
+                {t('route.arrivalForecast', { time: formatTime(forecast.arrival) })}
+              </span>
+              <span className={getAvailabilityClass(forecast.available)}>{getAvailabilityText(forecast.available)}</span>
+            </p>
+          )}
+          {(arrivalLevel === 'limited' || arrivalLevel === 'full') && (
+            <p className="bg-orange-50 border border-orange-300 text-orange-800 px-2 py-1 rounded">
+              {arrivalLevel === 'full' ? t('route.arrivalFull') : t('route.arrivalLimited')}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {navigationLinks(userLocation, destination, navigation.mode).map(link => (
+              <a
+                key={link.name}
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline"
+              >
+                {link.name} ↗
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CircleMarker, Tooltip } from 'react-leaflet';
+import { ImportedSnapshot } from '../services/snapshotExport';
+import { LEVEL_COLORS, getAvailabilityLevel, getAvailabilityText } from '../services/availability';
+import { keyOf } from '../services/identity';
+import { formatDateTime, t } from '../services/i18n';
+
+/**
+ * An imported snapshot drawn as hollow rings, so it reads as "then" next to
+ * the live pins. Not clustered: overlays are typically a filtered subset.
+ */
+export const SnapshotOverlay: React.FC<{ snapshot: ImportedSnapshot }> = ({ snapshot }) => {
+  const takenAt = formatDateTime(snapshot.meta.exportedAt);
+  return (
+    <>
+      {snapshot.lots.map(lot => (
+        <CircleMarker
+          key={`overlay:${keyOf(lot)}`}
+          center={[lot.lat, lot.lng]}
+          radius={10}
+          pathOptions={{
+            color: LEVEL_COLORS[getAvailabilityLevel(lot.availablecar, lot.totalcar)],
+            weight: 3,
+            fillOpacity: 0,
+            dashArray: '3 3'
+          }}
+        >
+          <Tooltip direction="bottom" opacity={1}>
+            <span className="font-sans text-xs">
+              <span className="font-bold text-gray-700">{lot.name}</span>
+              <span className="block text-gray-600">
+                {t('overlay.snapshot', { time: takenAt, value: getAvailabilityText(lot.availablecar) })}
+              </span>
+            </span>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+};
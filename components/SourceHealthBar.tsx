@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { SourceHealth } from '../types';
+import {
+  STATUS_DOT_CLASSES,
+  STATUS_LABELS,
+  describeHealth,
+  effectiveStatus,
+  needsAttention
+} from '../services/sourceHealth';
+import { formatList, sourceLabel, t } from '../services/i18n';
+
+interface SourceHealthBarProps {
+  sources: SourceHealth[];
+}
+
+/**
+ * One status dot per data source, with the fetch details in its tooltip and
+ * an inline warning for sources that are stale, incomplete or down.
+ */
+export const SourceHealthBar: React.FC<SourceHealthBarProps> = ({ sources }) => {
+  const [now, setNow] = useState<number>(Date.now());
+
+  // Re-evaluate staleness between refreshes
+  useEffect(() => {
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(id);
+  }, [sources]);
+
+  if (sources.length === 0) return null;
+
+  const troubled = sources.filter(h => needsAttention(h, now));
+
+  return (
+    <div className="flex items-center gap-3">
+      {sources.map(health => {
+        const status = effectiveStatus(health, now);
+        return (
+          <span
+            key={health.id}
+            title={describeHealth(health, now)}
+            className="flex items-center gap-1 text-gray-700 cursor-help"
+          >
+            <span className={`w-2.5 h-2.5 rounded-full ${STATUS_DOT_CLASSES[status]}`}></span>
+            {sourceLabel(health.id)}
+          </span>
+        );
+      })}
+      {troubled.length > 0 && (
+        <span className="bg-orange-50 border border-orange-300 text-orange-800 px-2 py-0.5 rounded">
+          {t('health.warning', {
+            sources: formatList(troubled.map(h =>
+              t('health.sourceStatus', { source: sourceLabel(h.id), status: t(STATUS_LABELS[effectiveStatus(h, now)]) })
+            ))
+          })}
+        </span>
+      )}
+    </div>
+  );
+};
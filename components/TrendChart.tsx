@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { AvailabilitySample, ParkingLotData, VehicleType } from '../types';
+import { getLotHistory } from '../services/historyStore';
+import { recentSeries, toTaipeiTime, typicalCurves } from '../services/trends';
+import { t } from '../services/i18n';
+
+const WIDTH = 240;
+const HEIGHT = 90;
+const PAD = { top: 6, right: 6, bottom: 16, left: 26 };
+
+const COLORS = {
+  recent: '#2563eb',  // Blue-600
+  weekday: '#6b7280', // Gray-500
+  holiday: '#f97316'  // Orange-500
+};
+
+interface ChartPoint {
+  x: number; // hour of day, 0–24
+  y: number | null; // occupancy 0–1
+}
+
+const scaleX = (hour: number) => PAD.left + (hour / 24) * (WIDTH - PAD.left - PAD.right);
+const scaleY = (occupancy: number) => PAD.top + (1 - occupancy) * (HEIGHT - PAD.top - PAD.bottom);
+
+// Builds an SVG path, breaking the line on missing values and when the hour wraps past midnight
+const toPath = (points: ChartPoint[]) => {
+  let d = '';
+  let prev: ChartPoint | null = null;
+  points.forEach(p => {
+    if (p.y === null) {
+      prev = null;
+      return;
+    }
+    const move = !prev || p.x < prev.x;
+    d += `${move ? 'M' : 'L'}${scaleX(p.x).toFixed(1)},${scaleY(p.y).toFixed(1)} `;
+    prev = p;
+  });
+  return d.trim();
+};
+
+const hourlyPoints = (curve: (number | null)[]): ChartPoint[] =>
+  curve.map((y, hour) => ({ x: hour + 0.5, y }));
+
+interface TrendChartProps {
+  samples: AvailabilitySample[];
+  now?: number;
+}
+
+/**
+ * Occupancy over the last 24 hours drawn on a clock-hour axis, together with
+ * the typical weekday and holiday curves. Points right of the "now" marker are
+ * from yesterday.
+ */
+export const TrendChart: React.FC<TrendChartProps> = ({ samples, now = Date.now() }) => {
+  const recent: ChartPoint[] = recentSeries(samples, now).map(p => {
+    const { hour, minute } = toTaipeiTime(p.t);
+    return { x: hour + minute / 60, y: p.occupancy };
+  });
+  const typical = typicalCurves(samples);
+  const nowTime = toTaipeiTime(now);
+  const nowX = scaleX(nowTime.hour + nowTime.minute / 60);
+
+  return (
+    <div>
+      <svg width={WIDTH} height={HEIGHT} className="block">
+        {[0, 0.5, 1].map(v => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={scaleY(v)} y2={scaleY(v)} stroke="#e5e7eb" />
+            <text x={PAD.left - 3} y={scaleY(v) + 3} fontSize="8" textAnchor="end" fill="#9ca3af">
+              {v * 100}%
+            </text>
+          </g>
+        ))}
+        {[0, 6, 12, 18, 24].map(h => (
+          <text key={h} x={scaleX(h)} y={HEIGHT - 4} fontSize="8" textAnchor="middle" fill="#9ca3af">
+            {t('trend.hour', { hour: h })}
+          </text>
+        ))}
+        <line x1={nowX} x2={nowX} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#d1d5db" strokeDasharray="2 2" />
+        <path d={toPath(hourlyPoints(typical.weekday))} fill="none" stroke={COLORS.weekday} strokeWidth="1.5" strokeDasharray="4 2" />
+        <path d={toPath(hourlyPoints(typical.holiday))} fill="none" stroke={COLORS.holiday} strokeWidth="1.5" strokeDasharray="4 2" />
+        <path d={toPath(recent)} fill="none" stroke={COLORS.recent} strokeWidth="2" />
+      </svg>
+      <div className="flex gap-2 text-[10px] text-gray-500">
+        <span style={{ color: COLORS.recent }}>{t('trend.recent')}</span>
+        <span style={{ color: COLORS.weekday }}>{t('trend.weekday', { days: typical.weekdayDays })}</span>
+        <span style={{ color: COLORS.holiday }}>{t('trend.holiday', { days: typical.holidayDays })}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Loads a lot's recorded history for one vehicle type and renders its
+ * occupancy trend. Meant to be mounted inside a Popup so history is only read
+ * when the popup opens.
+ */
+export const LotTrend: React.FC<{ park: ParkingLotData; vehicle: VehicleType }> = ({ park, vehicle }) => {
+  const [samples, setSamples] = useState<AvailabilitySample[] | null>(null);
+  const [failed, setFailed] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLotHistory(park.source, park.id, vehicle)
+      .then(result => { if (!cancelled) setSamples(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [park.source, park.id, vehicle, park.lastUpdated]);
+
+  let content: React.ReactNode;
+  if (failed) content = <span className="text-xs text-gray-400">{t('trend.failed')}</span>;
+  else if (!samples) content = <span className="text-xs text-gray-400">{t('trend.loading')}</span>;
+  else if (samples.length === 0) content = <span className="text-xs text-gray-400">{t('trend.empty')}</span>;
+  else content = <TrendChart samples={samples} />;
+
+  return (
+    <div className="mt-2 border-t pt-2">
+      <span className="text-xs text-gray-500 block mb-1">{t('trend.title')}</span>
+      {content}
+    </div>
+  );
+};
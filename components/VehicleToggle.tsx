@@ -0,0 +1,29 @@
+import React from 'react';
+import { VehicleType } from '../types';
+import { VEHICLES } from '../services/vehicles';
+import { t } from '../services/i18n';
+
+interface VehicleToggleProps {
+  value: VehicleType;
+  onChange: (vehicle: VehicleType) => void;
+}
+
+/**
+ * Car / motorcycle / bicycle switch; decides which spaces the map counts.
+ */
+export const VehicleToggle: React.FC<VehicleToggleProps> = ({ value, onChange }) => (
+  <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+    {VEHICLES.map(vehicle => (
+      <button
+        key={vehicle.type}
+        onClick={() => onChange(vehicle.type)}
+        className={`px-3 py-2 font-medium transition-all ${
+          value === vehicle.type ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+        title={t(vehicle.labelKey)}
+      >
+        {vehicle.icon} <span className="hidden xl:inline">{t(vehicle.labelKey)}</span>
+      </button>
+    ))}
+  </div>
+);
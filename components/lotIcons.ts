@@ -0,0 +1,67 @@
+import L from 'leaflet';
+import { ParkingLotData, VehicleType } from '../types';
+import { LEVEL_COLORS, displayedAvailability, getAvailabilityLevel } from '../services/availability';
+import { capacityOf } from '../services/vehicles';
+import { formatDelta } from '../services/changes';
+
+const PIN_WIDTH = 30;
+const PIN_HEIGHT = 40;
+
+// Round-headed pin for planar lots ("1"), flat-topped building pin for towers ("2")
+const PLANAR_PATH = 'M15 39 C15 39 2 23 2 14 A13 13 0 1 1 28 14 C28 23 15 39 15 39 Z';
+const TOWER_PATH = 'M3 3 H27 V27 H20 L15 39 L10 27 H3 Z';
+
+const badgeText = (available: number) => {
+  if (available < 0) return 'P';
+  return available > 999 ? '999+' : String(available);
+};
+
+// Keys carry free-space counts and change deltas, so icons are kept least-recently-used up to this many
+const MAX_CACHED_ICONS = 500;
+const iconCache = new Map<string, L.DivIcon>();
+
+// Pulsing "+5" / "−12" pill above a pin whose count just changed
+const deltaBadge = (delta: number) =>
+  `<span class="animate-pulse" style="position:absolute;bottom:${PIN_HEIGHT - 2}px;left:50%;transform:translateX(-50%);` +
+  `padding:0 4px;border-radius:9999px;font:bold 10px sans-serif;line-height:14px;white-space:nowrap;color:#fff;` +
+  `background:${delta > 0 ? '#16a34a' : '#dc2626'};box-shadow:0 1px 2px rgba(0,0,0,.4)">${formatDelta(delta)}</span>`;
+
+/**
+ * SVG pin coloured by availability, with the free-space count on the pin for
+ * numeric values ("P" for qualitative / unknown ones) and, right after a
+ * refresh, how much it changed. Recently used icons are cached by their
+ * visual parameters so refreshes reuse them.
+ */
+export const lotIcon = (lot: ParkingLotData, vehicle: VehicleType = 'car', delta?: number): L.DivIcon => {
+  const available = displayedAvailability(lot, vehicle);
+  const color = LEVEL_COLORS[getAvailabilityLevel(available, capacityOf(lot, vehicle))];
+  const tower = lot.type === '2';
+  const text = badgeText(available);
+  const cacheKey = `${color}:${tower ? 'T' : 'P'}:${text}:${delta ?? ''}`;
+
+  let icon = iconCache.get(cacheKey);
+  if (icon) {
+    // Re-inserting below moves the key to the end of the Map's order, the most recently used
+    iconCache.delete(cacheKey);
+  } else {
+    const fontSize = text.length >= 4 ? 8 : text.length === 3 ? 10 : 12;
+    icon = L.divIcon({
+      className: '',
+      iconSize: [PIN_WIDTH, PIN_HEIGHT],
+      iconAnchor: [PIN_WIDTH / 2, PIN_HEIGHT],
+      popupAnchor: [0, -PIN_HEIGHT + 4],
+      tooltipAnchor: [0, -PIN_HEIGHT + 4],
+      html:
+        `<svg width="${PIN_WIDTH}" height="${PIN_HEIGHT}" viewBox="0 0 ${PIN_WIDTH} ${PIN_HEIGHT}" ` +
+        `style="filter:drop-shadow(0 1px 2px rgba(0,0,0,.45))">` +
+        `<path d="${tower ? TOWER_PATH : PLANAR_PATH}" fill="${color}" stroke="#fff" stroke-width="2"/>` +
+        `<text x="15" y="${tower ? 19 : 18}" text-anchor="middle" font-family="sans-serif" font-weight="bold" ` +
+        `font-size="${fontSize}" fill="#fff">${text}</text>` +
+        `</svg>` +
+        (delta ? deltaBadge(delta) : '')
+    });
+    if (iconCache.size >= MAX_CACHED_ICONS) iconCache.delete(iconCache.keys().next().value!);
+  }
+  iconCache.set(cacheKey, icon);
+  return icon;
+};
@@ -0,0 +1,19 @@
+import { createFixtureFetcher } from '../services/http';
+import { taipeiAdapter, newTaipeiAdapter } from '../services/sources';
+import tpcDesc from './tpc/desc.json';
+import tpcAvail from './tpc/avail.json';
+import ntpcDesc from './ntpc/desc.json';
+import ntpcAvail from './ntpc/avail.json';
+
+const firstPage = (url: string) => `${url}?page=0&size=1000`;
+
+/**
+ * Offline stand-in for the TPC and NTPC feeds, e.g.
+ * `fetchParkingData(fixtureFetcher)`. Later NTPC pages resolve to [].
+ */
+export const fixtureFetcher = createFixtureFetcher({
+  [taipeiAdapter.description.url]: tpcDesc,
+  [taipeiAdapter.availability.url]: tpcAvail,
+  [firstPage(newTaipeiAdapter.description.url)]: ntpcDesc,
+  [firstPage(newTaipeiAdapter.availability.url)]: ntpcAvail
+});
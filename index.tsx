@@ -1,15 +1,30 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { EmbedWidget } from './components/EmbedWidget';
+import { embedConfigFromSearchParams, isEmbed } from './services/embed';
+import { registerServiceWorker } from './services/offline';
+import { detectLocale, isLocale, setLocale } from './services/i18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?embed=cards|map shows only the widget, e.g. in an intranet iframe; ?lang= fixes its language
+const params = new URLSearchParams(window.location.search);
+const lang = params.get('lang');
+setLocale(isLocale(lang) ? lang : detectLocale(), false);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isEmbed(params) ? (
+      <div className="h-screen w-screen">
+        <EmbedWidget config={embedConfigFromSearchParams(params)} />
+      </div>
+    ) : <App />}
   </React.StrictMode>
 );
+
+registerServiceWorker();
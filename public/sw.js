@@ -0,0 +1,100 @@
+// Service worker: offline app shell plus map tile caching.
+// Parking data itself is persisted by the app (services/snapshotCache.ts).
+
+const SHELL_CACHE = 'app-shell-v1';
+const TILE_RUNTIME = 'tiles-runtime-v1';
+// Filled by the page via services/tileCache.ts; never trimmed here
+const TILE_PRECACHE = 'tiles-precache-v1';
+const MAX_RUNTIME_TILES = 600;
+// Room for one deployment's modules and CDN files; older hashed assets age out
+const MAX_SHELL_ENTRIES = 300;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Third-party hosts the shell needs at runtime (importmap modules, Tailwind, Leaflet CSS)
+const SHELL_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com', 'unpkg.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, TILE_RUNTIME, TILE_PRECACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !keep.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// `keep`: same-origin paths that are never evicted
+const trimCache = async (name, maxEntries, keep = []) => {
+  const cache = await caches.open(name);
+  const keys = (await cache.keys()).filter(key => {
+    const url = new URL(key.url);
+    return !(url.origin === self.location.origin && keep.includes(url.pathname));
+  });
+  // Cache keys come back in insertion order, so drop the oldest first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const tileResponse = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(TILE_RUNTIME);
+    await cache.put(request, response.clone());
+    trimCache(TILE_RUNTIME, MAX_RUNTIME_TILES);
+  }
+  return response;
+};
+
+// Network first so deployments show up immediately, cache when offline. Every
+// navigation (whatever its query string) is the same page, kept as /index.html.
+const shellResponse = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const key = request.mode === 'navigate' ? '/index.html' : request;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(key, response.clone());
+      trimCache(SHELL_CACHE, MAX_SHELL_ENTRIES, SHELL_URLS);
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.hostname.endsWith('tile.openstreetmap.org')) {
+    event.respondWith(tileResponse(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin || SHELL_HOSTS.some(host => url.hostname.endsWith(host))) {
+    event.respondWith(shellResponse(request));
+  }
+});
+
+// Watch-rule alerts: bring the app forward when one is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(w => new URL(w.url).origin === self.location.origin);
+    if (client) return client.focus();
+    return self.clients.openWindow('/');
+  })());
+});
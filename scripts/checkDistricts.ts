@@ -0,0 +1,80 @@
+/**
+ * Checks district assignment and aggregation against hand-worked cases:
+ * status codes counted but never summed, over-reported counts capped, lots
+ * placed by area name or by position, and every fixture lot placed.
+ * Exits non-zero on any mismatch.
+ * Usage: npm run check:districts
+ */
+import { ParkingLotData } from '../types';
+import { fetchParkingData } from '../services/api';
+import { DistrictBoundaries, DistrictStats, aggregateDistricts, createDistrictIndex } from '../services/districts';
+import { fixtureFetcher } from '../fixtures';
+import boundaries from '../data/districts.json';
+
+const index = createDistrictIndex(boundaries as unknown as DistrictBoundaries);
+const problems: string[] = [];
+
+const expect = (label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    problems.push(`${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+  }
+};
+
+let nextId = 0;
+const lot = (area: string, totalcar: number, availablecar: number, lat = 25.026, lng = 121.543): ParkingLotData => ({
+  id: String(++nextId),
+  source: 'TPC',
+  area,
+  name: `lot ${nextId}`,
+  address: '',
+  payex: '',
+  totalcar,
+  availablecar,
+  lat,
+  lng,
+  lastUpdated: 0
+});
+
+const statsOf = (result: ReturnType<typeof aggregateDistricts>, name: string): DistrictStats =>
+  result.districts.find(s => s.district!.name === name)!;
+
+// 大安區: two counted lots (one over-reporting), one of each code
+const mixed = aggregateDistricts([
+  lot('大安區', 100, 40),
+  lot('大安區', 10, 15),
+  lot('大安區', 50, -11),
+  lot('大安區', 20, -13),
+  lot('大安區', 30, -9),
+  lot('大安區', 0, -12)
+], index);
+const daan = statsOf(mixed, '大安區');
+expect('大安區 totals', [daan.lots, daan.capacity, daan.free], [6, 210, 55]);
+expect('大安區 measured', [daan.measuredCapacity, daan.measuredFree], [110, 50]);
+expect('大安區 occupancy', daan.occupancy?.toFixed(4), (1 - 50 / 110).toFixed(4));
+expect('大安區 statuses', daan.statuses, { count: 2, plenty: 1, limited: 1, full: 1, unavailable: 1, unknown: 0 });
+
+// Codes alone give no occupancy, rather than 0% or 100%
+const codesOnly = statsOf(aggregateDistricts([lot('萬華區', 80, -11), lot('萬華區', 40, -13)], index), '萬華區');
+expect('codes only', [codesOnly.free, codesOnly.occupancy], [0, null]);
+
+// Area spellings, then position when the area is missing or unknown
+const placed = (l: ParkingLotData) => index.locate(l)?.id ?? null;
+expect('台 spelling', placed(lot('台北市大安區', 1, 1)), '臺北市大安區');
+expect('missing 區', placed(lot('板橋', 1, 1)), '新北市板橋區');
+expect('by position', placed(lot('', 1, 1, 25.0339, 121.5645)), '臺北市信義區');
+expect('unknown area', placed(lot('某區', 1, 1, 25.0143, 121.4637)), '新北市板橋區');
+expect('outside', placed(lot('', 1, 1, 25.3, 121.0)), null);
+
+fetchParkingData(fixtureFetcher).then(({ data }) => {
+  const { districts, unassigned } = aggregateDistricts(data, index);
+  districts.filter(s => s.lots > 0).forEach(s => {
+    console.log(`${s.district!.id}: ${s.lots} lots, ${s.free}/${s.capacity} free, occupancy ${s.occupancy === null ? '—' : `${Math.round(s.occupancy * 100)}%`}`);
+  });
+  expect('fixture lots unassigned', unassigned.lots, 0);
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(problem));
+    process.exit(1);
+  }
+  console.log(`${index.districts.length} districts: OK`);
+});
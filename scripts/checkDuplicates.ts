@@ -0,0 +1,39 @@
+/**
+ * Runs cross-source reconciliation on the fixture pairs and checks each one
+ * is merged or kept apart as annotated, with the expected conflicts. Prints
+ * the merge report; exits non-zero on any mismatch.
+ * Usage: npm run check:duplicates
+ */
+import { ParkingLotData } from '../types';
+import { keyOf } from '../services/identity';
+import { reconcileLots, summarizeReconciliation } from '../services/reconcile';
+import cases from '../fixtures/duplicates.json';
+
+interface DuplicateCase {
+  note: string;
+  expect: 'merge' | 'distinct';
+  conflicts: string[];
+  lots: ParkingLotData[];
+}
+
+const problems: string[] = [];
+
+(cases as DuplicateCase[]).forEach(({ note, expect, conflicts, lots }) => {
+  const { lots: result, report } = reconcileLots(lots);
+  const merged = report.merges.length > 0;
+  const fields = report.conflicts.map(c => c.field).sort().join(',');
+
+  console.log(`${merged ? 'merged  ' : 'distinct'} ${lots.map(keyOf).join(' + ')}: ${note}`);
+  report.merges.forEach(m => console.log(`  ${m.names.join(' / ')} — ${m.distanceMeters} m, similarity ${m.similarity}`));
+  report.conflicts.forEach(c => console.log(`  conflict ${c.field}: ${c.values.map(v => `${v.lot}=${v.value}`).join(', ')}`));
+
+  if (merged !== (expect === 'merge')) problems.push(`${note}: expected ${expect}, ${summarizeReconciliation(report)}`);
+  if (result.length !== (expect === 'merge' ? lots.length - 1 : lots.length)) problems.push(`${note}: ${result.length} lots left`);
+  if (fields !== [...conflicts].sort().join(',')) problems.push(`${note}: conflicts {${fields}}, expected {${conflicts.join(',')}}`);
+});
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(problem));
+  process.exit(1);
+}
+console.log(`${cases.length} duplicate cases: OK`);
@@ -0,0 +1,139 @@
+/**
+ * Exports fixture lots with awkward names and every availability code to
+ * GeoJSON, CSV and KML, reads each file back and checks that names,
+ * coordinates, quoting/escaping and availability survive, plus the snapshot
+ * time and attribution. Exits non-zero on any mismatch.
+ * Usage: npm run check:export
+ */
+import { ParkingLotData } from '../types';
+import { getAvailabilityLevel } from '../services/availability';
+import { keyOf } from '../services/identity';
+import { fromGeoJSON, snapshotMeta, toCSV, toGeoJSON, toKML } from '../services/snapshotExport';
+
+const problems: string[] = [];
+
+const expect = (label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    problems.push(`${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+  }
+};
+
+const lot = (id: string, name: string, availablecar: number, extra: Partial<ParkingLotData> = {}): ParkingLotData => ({
+  source: 'TPC',
+  id,
+  name,
+  address: '信義區市府路1號',
+  payex: '小型車每小時30元',
+  totalcar: 120,
+  availablecar,
+  lat: 25.0412345,
+  lng: 121.5654321,
+  lastUpdated: Date.UTC(2026, 0, 5, 4, 30),
+  ...extra
+});
+
+const LOTS: ParkingLotData[] = [
+  lot('001', '市府轉運站', 37),
+  lot('002', 'A, B "東" 區', 0, { address: '大安區\n復興南路' }),
+  lot('003', '<Tom & Jerry\'s> 停車場', -9, { lat: -33.8688197, lng: -151.2092955 }),
+  lot('004', '"引號開頭', -11, { payex: '1, 2, 3 元' }),
+  lot('005', '結尾逗號,', -12, { address: '' }),
+  lot('200001', '板橋 第一\r\n停車場', -13, { source: 'NTPC', totalmotor: 40, availablemotor: 5 })
+];
+
+const meta = snapshotMeta(LOTS, Date.UTC(2026, 0, 5, 4, 31));
+
+// RFC 4180 rows of fields, header included
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+const unescapeXml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+// GeoJSON: a full round trip through JSON text
+const geojson = fromGeoJSON(JSON.parse(JSON.stringify(toGeoJSON(LOTS, meta))), 'snapshot.geojson');
+expect('geojson lots', geojson.lots.length, LOTS.length);
+expect('geojson exportedAt', geojson.meta.exportedAt, meta.exportedAt);
+expect('geojson sources', geojson.meta.sources.map(s => s.id), ['TPC', 'NTPC']);
+LOTS.forEach((original, i) => {
+  const back = geojson.lots[i];
+  if (!back) return;
+  (Object.keys(original) as Array<keyof ParkingLotData>).forEach(field =>
+    expect(`geojson ${keyOf(original)} ${field}`, back[field], original[field])
+  );
+});
+
+// CSV: every column, parsed back field by field
+const columns = ['source', 'id', 'name', 'address', 'lat', 'lng', 'totalcar', 'availablecar', 'availablemotor', 'payex', 'lastUpdated'];
+const csv = toCSV(LOTS, columns, meta);
+expect('csv BOM', csv.charCodeAt(0), 0xfeff);
+const [header, ...rows] = parseCSV(csv);
+expect('csv header', header, [...columns, 'snapshotTime', 'attribution']);
+expect('csv rows', rows.length, LOTS.length);
+LOTS.forEach((original, i) => {
+  const row = Object.fromEntries((rows[i] ?? []).map((value, c) => [header[c], value]));
+  const label = `csv ${keyOf(original)}`;
+  expect(`${label} name`, row.name, original.name);
+  expect(`${label} address`, row.address, original.address);
+  expect(`${label} payex`, row.payex, original.payex);
+  expect(`${label} coordinates`, [Number(row.lat), Number(row.lng)], [original.lat, original.lng]);
+  expect(`${label} availablecar`, Number(row.availablecar), original.availablecar);
+  expect(`${label} availablemotor`, row.availablemotor, original.availablemotor === undefined ? '' : String(original.availablemotor));
+  expect(`${label} lastUpdated`, Date.parse(row.lastUpdated), original.lastUpdated);
+  expect(`${label} snapshotTime`, Date.parse(row.snapshotTime), meta.exportedAt);
+  expect(`${label} attribution`, row.attribution, meta.sources.find(s => s.id === original.source)?.attribution);
+});
+
+// KML: well-formed enough to pull each Placemark apart, with XML entities undone
+const kml = toKML(LOTS, meta);
+const placemarks = Array.from(kml.matchAll(/<Placemark>([\s\S]*?)<\/Placemark>/g), m => m[1]);
+expect('kml placemarks', placemarks.length, LOTS.length);
+expect('kml stray markup', /<(?!\/?(Placemark|name|description|TimeStamp|when|styleUrl|ExtendedData|Data|value|Point|coordinates)\b)/.test(placemarks.join('')), false);
+LOTS.forEach((original, i) => {
+  const placemark = placemarks[i] ?? '';
+  const label = `kml ${keyOf(original)}`;
+  const data = Object.fromEntries(
+    Array.from(placemark.matchAll(/<Data name="(\w+)"><value>([\s\S]*?)<\/value><\/Data>/g), m => [m[1], unescapeXml(m[2])])
+  );
+  expect(`${label} name`, unescapeXml(/<name>([\s\S]*?)<\/name>/.exec(placemark)?.[1] ?? ''), original.name);
+  expect(`${label} address`, data.address, original.address);
+  expect(`${label} payex`, data.payex, original.payex);
+  expect(`${label} availablecar`, Number(data.availablecar), original.availablecar);
+  expect(`${label} coordinates`, /<coordinates>([^<]*)<\/coordinates>/.exec(placemark)?.[1].split(',').map(Number), [original.lng, original.lat, 0]);
+  expect(`${label} style`, /<styleUrl>#(\w+)<\/styleUrl>/.exec(placemark)?.[1], getAvailabilityLevel(original.availablecar, original.totalcar));
+});
+expect('kml snapshot time', kml.includes(new Date(meta.exportedAt).toISOString()), true);
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(problem));
+  process.exit(1);
+}
+console.log(`${LOTS.length} lots through GeoJSON, CSV and KML: OK`);
@@ -0,0 +1,154 @@
+/**
+ * Checks the geo module directly: haversine distances against known values,
+ * bounding boxes that hold every point of their circle, spatial-index queries
+ * against a brute-force scan over seeded random points, and nearby scoring.
+ * Exits non-zero on any mismatch.
+ * Usage: npm run check:geo
+ */
+import { ParkingLotData } from '../types';
+import { LatLng, boundsAround, createSpatialIndex, distanceMeters } from '../services/geo';
+import { inBounds } from '../services/clustering';
+import { scoreNearby } from '../services/nearby';
+
+const problems: string[] = [];
+
+const near = (label: string, actual: number, expected: number, tolerance: number) => {
+  if (!(Math.abs(actual - expected) <= tolerance)) problems.push(`${label}: got ${actual}, expected ${expected} ± ${tolerance}`);
+};
+
+// Deterministic PRNG (mulberry32) so a failure can be replayed
+const random = (() => {
+  let seed = 20260105;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let x = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+})();
+const between = (min: number, max: number) => min + random() * (max - min);
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// The point `meters` from `from` along compass bearing `bearing`, on the same sphere as distanceMeters
+const destination = (from: LatLng, bearing: number, meters: number): LatLng => {
+  const angle = meters / EARTH_RADIUS_M;
+  const lat1 = toRad(from.lat);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(toRad(bearing)));
+  const dLng = Math.atan2(Math.sin(toRad(bearing)) * Math.sin(angle) * Math.cos(lat1), Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: toDeg(lat2), lng: from.lng + toDeg(dLng) };
+};
+
+// Haversine: exact arcs on the sphere, and a well-known city pair
+const TAIPEI_101 = { lat: 25.033964, lng: 121.564472 };
+near('one degree of latitude', distanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 }), 111195.08, 0.01);
+near('one degree of longitude at the equator', distanceMeters({ lat: 0, lng: 0 }, { lat: 0, lng: 1 }), 111195.08, 0.01);
+near('one degree of longitude at 60°', distanceMeters({ lat: 60, lng: 0 }, { lat: 60, lng: 1 }), 55596.86, 1);
+near('London to Paris', distanceMeters({ lat: 51.5074, lng: -0.1278 }, { lat: 48.8566, lng: 2.3522 }), 343557, 10);
+near('same point', distanceMeters(TAIPEI_101, TAIPEI_101), 0, 0);
+near('antipodes', distanceMeters({ lat: 10, lng: 20 }, { lat: -10, lng: -160 }), Math.PI * EARTH_RADIUS_M, 1);
+near('symmetric', distanceMeters(TAIPEI_101, { lat: 25.0478, lng: 121.517 }) - distanceMeters({ lat: 25.0478, lng: 121.517 }, TAIPEI_101), 0, 1e-9);
+[100, 1000, 3000].forEach(meters =>
+  [0, 45, 90, 180, 270].forEach(bearing =>
+    near(`${meters} m at ${bearing}°`, distanceMeters(TAIPEI_101, destination(TAIPEI_101, bearing, meters)), meters, 1e-6)
+  )
+);
+
+// boundsAround: every point on the rim lies inside, and the box is no more than a hair wider
+[21.9, 25.03, 26.4, 45, 60].forEach(lat => [50, 1000, 5000, 100000].forEach(radius => {
+  const center = { lat, lng: 121.5 };
+  const box = boundsAround(center, radius);
+  for (let bearing = 0; bearing < 360; bearing += 0.25) {
+    const rim = destination(center, bearing, radius * (1 - 1e-9));
+    if (!inBounds(rim, box)) {
+      problems.push(`boundsAround ${lat}°, ${radius} m: rim point at ${bearing}° outside the box`);
+      break;
+    }
+  }
+  near(`boundsAround ${lat}°, ${radius} m north edge`, distanceMeters(center, { lat: box.north, lng: center.lng }), radius, 1e-6);
+  const east = destination(center, 90, radius);
+  if (box.east - center.lng > (east.lng - center.lng) * 1.01) problems.push(`boundsAround ${lat}°, ${radius} m: box far wider than the circle`);
+}));
+
+// Spatial index against brute force: random lots around Taipei, clusters and exact duplicates
+interface Point extends LatLng {
+  id: number;
+}
+const points: Point[] = [];
+for (let i = 0; i < 3000; i++) points.push({ id: i, lat: between(24.9, 25.2), lng: between(121.35, 121.7) });
+for (let i = 0; i < 200; i++) points.push({ id: points.length, ...destination(TAIPEI_101, between(0, 360), between(0, 300)) });
+for (let i = 0; i < 20; i++) points.push({ ...points[i], id: points.length });
+points.push({ id: points.length, lat: NaN, lng: 121.5 });
+
+const bruteForce = (center: LatLng, radius: number) =>
+  points
+    .map(item => ({ item, distance: distanceMeters(center, item) }))
+    .filter(hit => hit.distance <= radius)
+    .sort((a, b) => a.distance - b.distance);
+
+const sameHits = (label: string, actual: Array<{ item: Point; distance: number }>, expected: Array<{ item: Point; distance: number }>) => {
+  const ids = (hits: typeof actual) => hits.map(h => h.item.id).sort((a, b) => a - b).join();
+  if (ids(actual) !== ids(expected)) {
+    problems.push(`${label}: ${actual.length} hits, brute force ${expected.length}`);
+  } else if (actual.some((hit, i) => i > 0 && hit.distance < actual[i - 1].distance)) {
+    problems.push(`${label}: hits not nearest first`);
+  }
+};
+
+[100, 500, 2000].forEach(cellMeters => {
+  const index = createSpatialIndex(points, cellMeters);
+  if (index.size !== points.length) problems.push(`index size ${index.size}, expected ${points.length}`);
+  for (let q = 0; q < 150; q++) {
+    const center = { lat: between(24.85, 25.25), lng: between(121.3, 121.75) };
+    const radius = q % 10 === 0 ? between(5000, 20000) : between(20, 2000);
+    sameHits(`cells ${cellMeters} m, query ${q}`, index.within(center, radius), bruteForce(center, radius));
+  }
+  // Queries centred on a lot, with a radius reaching exactly to another lot
+  for (let q = 0; q < 50; q++) {
+    const center = points[Math.floor(random() * 3000)];
+    const other = points[Math.floor(random() * 3000)];
+    const radius = distanceMeters(center, other);
+    sameHits(`cells ${cellMeters} m, rim query ${q}`, index.within(center, radius), bruteForce(center, radius));
+  }
+  sameHits(`cells ${cellMeters} m, zero radius`, index.within(points[5], 0), bruteForce(points[5], 0));
+});
+if (createSpatialIndex([]).within(TAIPEI_101, 1000).length !== 0) problems.push('empty index returned hits');
+
+// Nearby scoring: parts in 0..1, graded against the radius and the other candidates
+const lot = (id: string, availablecar: number, payex: string): ParkingLotData => ({
+  source: 'TPC', id, name: id, address: '', payex, totalcar: 100, availablecar, lat: 0, lng: 0, lastUpdated: 0
+});
+const entry = Date.UTC(2026, 0, 5, 2);
+const hits = [
+  { item: lot('near-pricey', 10, '小型車每小時50元'), distance: 100 },
+  { item: lot('far-cheap', 40, '小型車每小時20元'), distance: 900 },
+  { item: lot('mid-unknown', -12, ''), distance: 500 },
+  { item: lot('full', -13, '小型車每小時30元'), distance: 1000 }
+];
+const byId = (results: ReturnType<typeof scoreNearby>) => new Map(results.map(r => [r.lot.id, r]));
+const balanced = byId(scoreNearby(hits, 1000, { free: 1, cost: 1, distance: 1 }, 'car', entry));
+const parts = (id: string) => balanced.get(id)?.parts;
+near('free part, most spaces', parts('far-cheap')?.free ?? -1, 1, 1e-9);
+near('free part, 10 of 40', parts('near-pricey')?.free ?? -1, 0.25, 1e-9);
+near('free part, -12 counts as 10', parts('mid-unknown')?.free ?? -1, 0.25, 1e-9);
+near('cost part, cheapest', parts('far-cheap')?.cost ?? -1, 1, 1e-9);
+near('cost part, dearest', parts('near-pricey')?.cost ?? -1, 0, 1e-9);
+near('cost part, unknown', parts('mid-unknown')?.cost ?? -1, 0.5, 1e-9);
+near('distance part, 100 of 1000 m', parts('near-pricey')?.distance ?? -1, 0.9, 1e-9);
+near('distance part, on the rim', parts('full')?.distance ?? -1, 0, 1e-9);
+balanced.forEach(result => {
+  if (result.score < 0 || result.score > 1) problems.push(`score ${result.lot.id} ${result.score} outside 0..1`);
+});
+const first = (weights: { free: number; cost: number; distance: number }) =>
+  scoreNearby(hits, 1000, weights, 'car', entry)[0]?.lot.id;
+if (first({ free: 0, cost: 0, distance: 1 }) !== 'near-pricey') problems.push(`closest first: got ${first({ free: 0, cost: 0, distance: 1 })}`);
+if (first({ free: 0, cost: 1, distance: 0 }) !== 'far-cheap') problems.push(`cheapest first: got ${first({ free: 0, cost: 1, distance: 0 })}`);
+if (scoreNearby([], 1000, { free: 1, cost: 1, distance: 1 }).length !== 0) problems.push('scoring no hits returned results');
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(problem));
+  process.exit(1);
+}
+console.log(`geo: OK (${points.length} points, ${3 * 201} index queries against brute force)`);
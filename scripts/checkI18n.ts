@@ -0,0 +1,35 @@
+/**
+ * Checks every message catalog against zh-TW: same keys, no empty messages,
+ * same placeholders. Exits non-zero on any mismatch.
+ * Usage: npm run check:i18n
+ */
+import { CATALOGS, Locale, placeholdersOf } from '../services/i18n';
+import { zhTW } from '../services/i18n/zh-TW';
+
+const problems: string[] = [];
+const sourceKeys = Object.keys(zhTW) as Array<keyof typeof zhTW>;
+
+(Object.keys(CATALOGS) as Locale[]).forEach(locale => {
+  const catalog = CATALOGS[locale] as Record<string, string>;
+  const keys = new Set(Object.keys(catalog));
+
+  sourceKeys.forEach(key => {
+    if (!keys.has(key)) {
+      problems.push(`${locale}: missing "${key}"`);
+      return;
+    }
+    if (!catalog[key].trim()) problems.push(`${locale}: empty "${key}"`);
+    const expected = placeholdersOf(zhTW[key]).join(',');
+    const actual = placeholdersOf(catalog[key]).join(',');
+    if (expected !== actual) problems.push(`${locale}: "${key}" has {${actual}}, expected {${expected}}`);
+  });
+  keys.forEach(key => {
+    if (!(key in zhTW)) problems.push(`${locale}: unknown "${key}"`);
+  });
+});
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(problem));
+  process.exit(1);
+}
+console.log(`${Object.keys(CATALOGS).length} catalogs, ${sourceKeys.length} keys each: OK`);
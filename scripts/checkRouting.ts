@@ -0,0 +1,125 @@
+/**
+ * Checks routing without the network: estimate-engine distances and ETAs per
+ * mode for fixed coordinates, falling back when an engine fails (including an
+ * OSRM server that cannot be reached), and the navigation deep-link URLs.
+ * Exits non-zero on any mismatch.
+ * Usage: npm run check:routing
+ */
+import { LatLng, distanceMeters } from '../services/geo';
+import {
+  Route, RoutingEngine, createEstimateEngine, createOsrmEngine, formatDuration, navigationLinks, planRoute,
+  setRoutingEngine, walkingRadiusMeters, walkingSeconds, withFallback
+} from '../services/routing';
+import { t } from '../services/i18n';
+
+const problems: string[] = [];
+
+const expect = (label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    problems.push(`${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+  }
+};
+
+const near = (label: string, actual: number, expected: number, tolerance: number) => {
+  if (!(Math.abs(actual - expected) <= tolerance)) problems.push(`${label}: got ${actual}, expected ${expected} ± ${tolerance}`);
+};
+
+const TAIPEI_101 = { lat: 25.033964, lng: 121.564472 };
+const MAIN_STATION = { lat: 25.0478, lng: 121.517 };
+const EQUATOR = { lat: 0, lng: 0 };
+// 0.01° of longitude on the equator: 1111.95 m in a straight line
+const EQUATOR_EAST = { lat: 0, lng: 0.01 };
+
+const failing = (message: string): RoutingEngine => async () => { throw new Error(message); };
+
+const fixed = (engine: string): RoutingEngine => async (from, to, mode) =>
+  ({ mode, path: [from, to], distanceMeters: 1, durationSeconds: 1, engine });
+
+// withFallback reports each failure on console.warn; keep the check's output to its verdict
+const quietly = async <T>(run: () => Promise<T>): Promise<T> => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return await run();
+  } finally {
+    console.warn = warn;
+  }
+};
+
+const main = async () => {
+  // Estimate engine: straight line × 1.3 detour, 1.3 m/s walking, 6.9 m/s driving
+  const estimate = createEstimateEngine();
+  const walk = await estimate(EQUATOR, EQUATOR_EAST, 'walk');
+  const drive = await estimate(EQUATOR, EQUATOR_EAST, 'drive');
+  expect('estimate walk distance', walk.distanceMeters, 1446);
+  expect('estimate drive distance', drive.distanceMeters, 1446);
+  near('estimate walk ETA', walk.durationSeconds, 1112, 1);
+  near('estimate drive ETA', drive.durationSeconds, 209.5, 1);
+  expect('estimate path', walk.path, [EQUATOR, EQUATOR_EAST]);
+  expect('estimate engine', [walk.engine, walk.mode, drive.mode], ['estimate', 'walk', 'drive']);
+
+  const city = await estimate(TAIPEI_101, MAIN_STATION, 'drive');
+  near('Taipei 101 to Main Station distance', city.distanceMeters, distanceMeters(TAIPEI_101, MAIN_STATION) * 1.3, 0.5);
+  if (city.distanceMeters < 6000 || city.distanceMeters > 7000) problems.push(`Taipei 101 to Main Station: ${city.distanceMeters} m`);
+  const back = await estimate(MAIN_STATION, TAIPEI_101, 'drive');
+  expect('estimate symmetric', [back.distanceMeters, back.durationSeconds], [city.distanceMeters, city.durationSeconds]);
+
+  const still = await estimate(TAIPEI_101, TAIPEI_101, 'walk');
+  expect('estimate same point', [still.distanceMeters, still.durationSeconds], [0, 0]);
+
+  const custom = await createEstimateEngine({ walk: 1, drive: 10 }, 1)(EQUATOR, EQUATOR_EAST, 'drive');
+  expect('custom speeds', [custom.distanceMeters, custom.durationSeconds], [1112, 111]);
+
+  near('ten-minute walking radius round trip', walkingSeconds(walkingRadiusMeters(10)), 600, 1e-9);
+
+  // Fallback: a failing primary hands over, a working one does not, both failing rejects
+  const fallenBack = await quietly(() => withFallback(failing('down'), estimate)(TAIPEI_101, MAIN_STATION, 'walk'));
+  expect('fallback engine', fallenBack.engine, 'estimate');
+  expect('fallback distance', fallenBack.distanceMeters, city.distanceMeters);
+  expect('primary kept', (await withFallback(fixed('primary'), estimate)(TAIPEI_101, MAIN_STATION, 'walk')).engine, 'primary');
+  const chained = await quietly(() =>
+    withFallback(failing('first'), withFallback(failing('second'), fixed('third')))(TAIPEI_101, MAIN_STATION, 'drive')
+  );
+  expect('chained fallback', chained.engine, 'third');
+  const bothDown = await quietly(() =>
+    withFallback(failing('first'), failing('second'))(TAIPEI_101, MAIN_STATION, 'walk').then(() => null, (err: Error) => err.message)
+  );
+  expect('both engines failing', bothDown, 'second');
+
+  // An OSRM server that refuses the connection falls back through planRoute
+  setRoutingEngine(withFallback(createOsrmEngine('http://127.0.0.1:9/', 2000), estimate));
+  const planned: Route = await quietly(() => planRoute(TAIPEI_101, MAIN_STATION, 'drive'));
+  expect('unreachable OSRM falls back', [planned.engine, planned.distanceMeters], ['estimate', city.distanceMeters]);
+
+  expect('duration under a minute', formatDuration(20), t('duration.minutes', { minutes: 1 }));
+  expect('duration in hours', formatDuration(3 * 3600 + 5 * 60), t('duration.hoursMinutes', { hours: 3, minutes: 5 }));
+};
+
+// Deep links: origin when known, travel mode per app, Waze for driving only
+const links = (from: LatLng | null, mode: 'walk' | 'drive') =>
+  Object.fromEntries(navigationLinks(from, MAIN_STATION, mode).map(link => [link.name, link.url]));
+
+expect('walk links', links(TAIPEI_101, 'walk'), {
+  [t('nav.googleMaps')]: 'https://www.google.com/maps/dir/?api=1&destination=25.0478%2C121.517&travelmode=walking&origin=25.033964%2C121.564472',
+  [t('nav.appleMaps')]: 'https://maps.apple.com/?daddr=25.0478%2C121.517&dirflg=w&saddr=25.033964%2C121.564472'
+});
+expect('drive links', links(TAIPEI_101, 'drive'), {
+  [t('nav.googleMaps')]: 'https://www.google.com/maps/dir/?api=1&destination=25.0478%2C121.517&travelmode=driving&origin=25.033964%2C121.564472',
+  [t('nav.appleMaps')]: 'https://maps.apple.com/?daddr=25.0478%2C121.517&dirflg=d&saddr=25.033964%2C121.564472',
+  Waze: 'https://waze.com/ul?ll=25.0478%2C121.517&navigate=yes'
+});
+expect('links without a location', links(null, 'drive'), {
+  [t('nav.googleMaps')]: 'https://www.google.com/maps/dir/?api=1&destination=25.0478%2C121.517&travelmode=driving',
+  [t('nav.appleMaps')]: 'https://maps.apple.com/?daddr=25.0478%2C121.517&dirflg=d',
+  Waze: 'https://waze.com/ul?ll=25.0478%2C121.517&navigate=yes'
+});
+
+main()
+  .catch(err => problems.push(`routing check failed: ${err instanceof Error ? err.message : String(err)}`))
+  .then(() => {
+    if (problems.length > 0) {
+      problems.forEach(problem => console.error(problem));
+      process.exit(1);
+    }
+    console.log('routing: OK');
+  });
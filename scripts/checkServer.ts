@@ -0,0 +1,73 @@
+/**
+ * Starts the aggregation server on the fixture feeds and an ephemeral port,
+ * then checks /api/parking (lots and a lastUpdated per source), conditional
+ * requests against its ETag, /healthz, and that non-GET methods get 405.
+ * Exits non-zero on any mismatch.
+ * Usage: npm run check:server
+ */
+import { AddressInfo } from 'node:net';
+import { createAggregator, ParkingPayload } from '../server/aggregator';
+import { createApp } from '../server/app';
+import { fixtureFetcher } from '../fixtures';
+
+const problems: string[] = [];
+
+const expect = (label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    problems.push(`${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+  }
+};
+
+const main = async () => {
+  const aggregator = createAggregator(fixtureFetcher);
+  await aggregator.refresh();
+  const server = createApp(aggregator);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const first = await fetch(`${base}/api/parking`);
+    expect('parking status', first.status, 200);
+    const payload = (await first.json()) as ParkingPayload;
+    if (payload.data.length === 0) problems.push('parking: no lots');
+    expect('parking sources', payload.sources.map(s => s.id), ['TPC', 'NTPC']);
+    payload.sources.forEach(source => {
+      if (typeof source.lastUpdated !== 'number') problems.push(`parking: ${source.id} has no lastUpdated`);
+      if (source.count === 0) problems.push(`parking: ${source.id} served no lots`);
+    });
+
+    // Conditional requests: the tag as sent, its strong form, inside a list, and *
+    const etag = first.headers.get('etag') ?? '';
+    if (!etag) problems.push('parking: no ETag');
+    const conditional = async (ifNoneMatch: string) =>
+      (await fetch(`${base}/api/parking`, { headers: { 'If-None-Match': ifNoneMatch } })).status;
+    expect('If-None-Match same tag', await conditional(etag), 304);
+    expect('If-None-Match strong form', await conditional(etag.replace(/^W\//, '')), 304);
+    expect('If-None-Match list', await conditional(`"stale", ${etag}`), 304);
+    expect('If-None-Match *', await conditional('*'), 304);
+    expect('If-None-Match other tag', await conditional('W/"stale"'), 200);
+
+    const health = await fetch(`${base}/healthz`);
+    expect('healthz status', health.status, 200);
+    expect('healthz ok', ((await health.json()) as { ok: boolean }).ok, true);
+
+    for (const method of ['POST', 'PUT', 'DELETE', 'PATCH']) {
+      const response = await fetch(`${base}/api/parking`, { method });
+      expect(`${method} status`, response.status, 405);
+      await response.body?.cancel();
+    }
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+};
+
+main()
+  .catch(err => problems.push(`server check failed: ${err instanceof Error ? err.message : String(err)}`))
+  .then(() => {
+    if (problems.length > 0) {
+      problems.forEach(problem => console.error(problem));
+      process.exit(1);
+    }
+    console.log('server: OK');
+  });
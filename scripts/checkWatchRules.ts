@@ -0,0 +1,157 @@
+/**
+ * Checks watch-rule evaluation: clock parsing, time windows (including ones
+ * that wrap past midnight), edge triggering across refreshes, qualitative
+ * and -9 availability codes, rules on scooter and bicycle spaces, and rules
+ * saved against a lot that was later merged with a duplicate from another source. Exits non-zero on any mismatch.
+ * Usage: npm run check:watch
+ */
+import { ParkingLotData, WatchCondition, WatchRule } from '../types';
+import { WatchState, evaluateRules, inWindow, parseClock } from '../services/watchRules';
+
+const problems: string[] = [];
+
+const expect = (label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    problems.push(`${label}: got ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+  }
+};
+
+// Epoch ms for a Taipei wall-clock time on a fixed day
+const at = (clock: string) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return Date.UTC(2026, 0, 5, hours - 8, minutes);
+};
+
+const lot = (availablecar: number, extra: Partial<ParkingLotData> = {}): ParkingLotData => ({
+  source: 'TPC',
+  id: '001',
+  name: '市府轉運站',
+  address: '',
+  payex: '',
+  totalcar: 100,
+  availablecar,
+  lat: 25.0412,
+  lng: 121.5654,
+  lastUpdated: 0,
+  ...extra
+});
+
+const rule = (condition: WatchCondition, extra: Partial<WatchRule> = {}): WatchRule => ({
+  id: 'r1',
+  source: 'TPC',
+  lotId: '001',
+  condition,
+  vehicle: 'car',
+  enabled: true,
+  ...extra
+});
+
+// Feeds one refresh per step through the rule and returns the steps that alerted
+const firedAt = (watch: WatchRule, steps: Array<{ lots: ParkingLotData[]; now?: number }>) => {
+  let state: WatchState = {};
+  return steps.flatMap(({ lots, now = at('12:00') }, i) => {
+    const result = evaluateRules([watch], lots, state, now);
+    state = result.state;
+    return result.alerts.length > 0 ? [i] : [];
+  });
+};
+
+const counts = (values: number[]) => values.map(available => ({ lots: [lot(available)] }));
+
+// Clock parsing
+expect('parseClock 07:30', parseClock('07:30'), 450);
+expect('parseClock 7:05', parseClock('7:05'), 425);
+expect('parseClock 24:00', parseClock('24:00'), 1440);
+expect('parseClock 24:01', parseClock('24:01'), null);
+expect('parseClock 12:60', parseClock('12:60'), null);
+expect('parseClock 7:5', parseClock('7:5'), null);
+expect('parseClock text', parseClock('noon'), null);
+
+// Windows
+const day = { start: '08:00', end: '10:00' };
+const night = { start: '22:00', end: '02:00' };
+[
+  [day, '07:59', false], [day, '08:00', true], [day, '09:59', true], [day, '10:00', false],
+  [night, '21:59', false], [night, '22:00', true], [night, '23:30', true], [night, '00:00', true],
+  [night, '01:59', true], [night, '02:00', false], [night, '12:00', false],
+  [undefined, '03:00', true], [{ start: 'x', end: '02:00' }, '12:00', true]
+].forEach(([window, clock, expected]) => {
+  const w = window as WatchRule['window'];
+  expect(`inWindow ${w ? `${w.start}–${w.end}` : 'none'} at ${clock}`, inWindow(w, at(clock as string)), expected);
+});
+
+const below10 = rule({ kind: 'below', threshold: 10 });
+
+// Edge triggering: once on crossing, again only after recovering
+expect('below 10, crossing', firedAt(below10, counts([20, 8, 5, 3, 15, 6, 4])), [1, 5]);
+expect('below 10, already below at start', firedAt(below10, counts([3, 3, 3])), [0]);
+expect('below 10, exactly 10', firedAt(below10, counts([10, 10])), []);
+
+// -9 is no data: it neither fires nor resets the rule
+expect('below 10, -9 while below', firedAt(below10, counts([8, -9, 7])), [0]);
+expect('below 10, -9 while above', firedAt(below10, counts([20, -9, 5])), [2]);
+expect('below 10, first refresh -9', firedAt(below10, counts([-9, -9, 5])), [2]);
+
+// Qualitative codes have no count to compare with a threshold
+expect('below 10, codes', firedAt(below10, counts([-11, -12, -13, 20])), []);
+expect('below 10, code then count', firedAt(below10, counts([-12, 4])), [1]);
+
+const full = rule({ kind: 'status', code: -13 });
+expect('status -13', firedAt(full, counts([-12, -13, -13, -12, -13])), [1, 4]);
+expect('status -13, counts', firedAt(full, counts([0, 5, -13])), [2]);
+expect('status -13, -9 in between', firedAt(full, counts([-13, -9, -13])), [0]);
+
+// A missing lot keeps the rule's state, like -9
+expect('below 10, lot missing', firedAt(below10, [{ lots: [lot(5)] }, { lots: [] }, { lots: [lot(4)] }]), [0]);
+
+// Leaving the window resets the rule, so it fires again on the next night
+const nightly = rule({ kind: 'below', threshold: 10 }, { window: night });
+expect('night window', firedAt(nightly, [
+  { lots: [lot(5)], now: at('21:00') },
+  { lots: [lot(5)], now: at('22:15') },
+  { lots: [lot(4)], now: at('01:00') },
+  { lots: [lot(4)], now: at('03:00') },
+  { lots: [lot(4)], now: at('23:00') }
+]), [1, 4]);
+
+// Disabled rules never fire
+expect('disabled', firedAt({ ...below10, enabled: false }, counts([20, 5])), []);
+
+// A rule counts the spaces of its own vehicle; a lot without that vehicle's count reads as -9
+const motorBelow10 = rule({ kind: 'below', threshold: 10 }, { vehicle: 'motor' });
+const scooters = (values: number[]) => values.map(available => ({ lots: [lot(50, { totalmotor: 80, availablemotor: available })] }));
+expect('motor below 10, crossing', firedAt(motorBelow10, scooters([20, 8, 30, 4])), [1, 3]);
+expect('motor below 10, cars low', firedAt(motorBelow10, counts([20, 5, 3])), []);
+expect('motor below 10, no motor count', firedAt(motorBelow10, [...scooters([5]), ...counts([20]), ...scooters([4])]), [0]);
+const motorAlert = evaluateRules([motorBelow10], [lot(50, { availablemotor: 3 })], {}, at('12:00')).alerts[0];
+expect('motor alert, available', motorAlert?.available, 3);
+
+// Merged lots answer to every source's key
+const merged = (available: number) => lot(available, {
+  provenance: [
+    { source: 'TPC', id: '001', name: '市府轉運站' },
+    { source: 'NTPC', id: 'N201', name: '市府轉運站停車場' }
+  ]
+});
+const onDuplicate = rule({ kind: 'below', threshold: 10 }, { source: 'NTPC', lotId: 'N201' });
+expect('merged, rule on the folded lot', firedAt(onDuplicate, [20, 5].map(n => ({ lots: [merged(n)] }))), [1]);
+expect('merged, rule on the survivor', firedAt(below10, [20, 5].map(n => ({ lots: [merged(n)] }))), [1]);
+const { alerts } = evaluateRules([onDuplicate], [merged(5)], {}, at('12:00'));
+expect('merged, alert key', alerts.map(a => a.lotKey), ['NTPC:N201']);
+expect('merged, alert name', alerts.map(a => a.lotName), ['市府轉運站']);
+
+// Each rule keeps its own state
+const two = evaluateRules(
+  [below10, { ...full, id: 'r2', lotId: '002' }],
+  [lot(5), lot(-13, { id: '002' })],
+  { r1: true },
+  at('12:00')
+);
+expect('two rules, alerts', two.alerts.map(a => a.ruleId), ['r2']);
+expect('two rules, state', two.state, { r1: true, r2: true });
+
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(problem));
+  process.exit(1);
+}
+console.log('watch rules: OK');
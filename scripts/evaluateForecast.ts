@@ -0,0 +1,26 @@
+/**
+ * Scores the seasonal baseline forecaster on held-out fixture history.
+ * Usage: npm run evaluate:forecast
+ */
+import { AvailabilitySample } from '../types';
+import { evaluateBaseline } from '../services/forecast';
+import samples from '../fixtures/history/samples.json';
+
+const DAY = 24 * 60 * 60 * 1000;
+// The fixture covers four weeks; train on the first three, hold out the last one
+const HOLDOUT_DAYS = 7;
+
+const history = samples as AvailabilitySample[];
+const lastT = Math.max(...history.map(s => s.t));
+const splitAt = lastT - HOLDOUT_DAYS * DAY;
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+[30, 60, 180, 24 * 60].forEach(leadMinutes => {
+  const result = evaluateBaseline(history, splitAt, leadMinutes);
+  console.log(
+    `lead ${String(leadMinutes).padStart(4)} min: ` +
+    `n=${result.count}, MAE ${pct(result.maeOccupancy)} ` +
+    `(persistence ${pct(result.persistenceMaeOccupancy)}), band coverage ${pct(result.coverage)}`
+  );
+});
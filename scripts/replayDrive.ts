@@ -0,0 +1,89 @@
+/**
+ * Replays the recorded drive in fixtures/driving.json through the driving-mode
+ * ranking, with and without hysteresis, and checks the suggestions: never a
+ * full lot, a lot that fills up is dropped at the next fix, headings are
+ * inferred from movement, and with hysteresis no lot drops out and comes
+ * straight back. Exits non-zero on any mismatch.
+ * Usage: npm run check:driving
+ */
+import { ParkingLotData } from '../types';
+import { createSpatialIndex } from '../services/geo';
+import { keyOf } from '../services/identity';
+import { PositionFix, createHeadingTracker, replaySource } from '../services/positionSource';
+import { DEFAULT_DRIVING_RULES, DrivingRules, hasFreeSpaces, rankForDriving } from '../services/driving';
+import drive from '../fixtures/driving.json';
+
+interface Refresh {
+  atFix: number;
+  availablecar: Record<string, number>;
+}
+
+// A lot leaving and rejoining the cards within this many fixes is a flicker
+const FLICKER_FIXES = 5;
+
+const problems: string[] = [];
+const refreshes = drive.refreshes as Refresh[];
+
+const replay = (rules: DrivingRules) => new Promise<{ changes: number; flickers: string[] }>(resolve => {
+  let lots = drive.lots as ParkingLotData[];
+  let index = createSpatialIndex(lots);
+  const track = createHeadingTracker();
+  const leftAt = new Map<string, number>();
+  const flickers: string[] = [];
+  let shown: string[] = [];
+  let changes = 0;
+  let i = 0;
+
+  const stop = replaySource(drive.track as PositionFix[], { speedup: Infinity }).start(raw => {
+    const refresh = refreshes.find(r => r.atFix === i);
+    if (refresh) {
+      lots = lots.map(lot => (lot.id in refresh.availablecar ? { ...lot, availablecar: refresh.availablecar[lot.id] } : lot));
+      index = createSpatialIndex(lots);
+    }
+
+    const fix = track(raw);
+    if (i >= 5 && raw.speed && (fix.heading === null || Math.abs(fix.heading - 90) > 45)) {
+      problems.push(`fix ${i}: heading ${fix.heading}, expected about 90 (east)`);
+    }
+
+    const suggestions = rankForDriving(index, fix, 'car', shown, rules);
+    const keys = suggestions.map(s => keyOf(s.lot));
+    suggestions.forEach(s => {
+      if (!hasFreeSpaces(s.lot.availablecar)) problems.push(`fix ${i}: suggested ${keyOf(s.lot)} with ${s.lot.availablecar}`);
+    });
+    if (keys.length > rules.count) problems.push(`fix ${i}: ${keys.length} suggestions`);
+
+    shown.filter(key => !keys.includes(key)).forEach(key => leftAt.set(key, i));
+    keys.filter(key => !shown.includes(key)).forEach(key => {
+      const left = leftAt.get(key);
+      if (left !== undefined && i - left <= FLICKER_FIXES) flickers.push(`${key} left at fix ${left}, back at ${i}`);
+    });
+    if (keys.join() !== shown.join()) changes++;
+    shown = keys;
+
+    if (++i === drive.track.length) {
+      stop();
+      resolve({ changes, flickers });
+    }
+  }, error => {
+    problems.push(error.message);
+    resolve({ changes, flickers });
+  });
+});
+
+(async () => {
+  const sticky = await replay(DEFAULT_DRIVING_RULES);
+  const plain = await replay({ ...DEFAULT_DRIVING_RULES, hysteresis: 0, orderHysteresis: 0 });
+  console.log(`${drive.track.length} fixes: ${sticky.changes} card changes with hysteresis, ${plain.changes} without`);
+  console.log(`flickers: ${sticky.flickers.length} with hysteresis, ${plain.flickers.length} without`);
+  plain.flickers.forEach(flicker => console.log(`  without: ${flicker}`));
+
+  sticky.flickers.forEach(flicker => problems.push(`flicker with hysteresis: ${flicker}`));
+  if (sticky.changes > plain.changes) problems.push(`hysteresis made ${sticky.changes} changes, ${plain.changes} without`);
+
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(problem));
+    process.exit(1);
+  }
+  console.log('driving replay: OK');
+})();
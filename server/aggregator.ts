@@ -0,0 +1,114 @@
+import { createHash } from 'node:crypto';
+import { NormalizationReport, ParkingLotData, ParkingSourceId, ReconciliationReport, SourceHealth } from '../types';
+import { getAdapters } from '../services/sources';
+import { loadAdapter } from '../services/sources/loader';
+import { reconcileLots } from '../services/reconcile';
+import { JsonFetcher } from '../services/http';
+
+export interface SourceState {
+  id: ParkingSourceId;
+  label: string;
+  lots: ParkingLotData[];
+  lastUpdated: number | null; // epoch ms of the last successful load
+  lastAttempt: number | null;
+  report: NormalizationReport | null;
+  // Outcome of the last attempt; 'stale' when it failed and older lots are still served
+  health: SourceHealth | null;
+  error: string | null;
+}
+
+export interface ParkingPayload {
+  generatedAt: number;
+  sources: Array<Omit<SourceState, 'lots'> & { count: number }>;
+  data: ParkingLotData[];
+  reconciliation: ReconciliationReport;
+}
+
+export interface ParkingAggregator {
+  refresh: () => Promise<void>;
+  start: (intervalMs: number) => void;
+  stop: () => void;
+  // The serialized /api/parking body and its ETag, rebuilt only after a refresh
+  current: () => { body: string; etag: string };
+}
+
+/**
+ * Loads every registered source on a schedule and keeps the latest good
+ * result per source. A source that fails keeps serving its previous data,
+ * with `error` set, its health marked 'stale' and `lastUpdated` showing its age.
+ */
+export const createAggregator = (fetchJson: JsonFetcher): ParkingAggregator => {
+  const states = new Map<ParkingSourceId, SourceState>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let payload: { body: string; etag: string } | null = null;
+
+  getAdapters().forEach(adapter => {
+    states.set(adapter.id, {
+      id: adapter.id,
+      label: adapter.label,
+      lots: [],
+      lastUpdated: null,
+      lastAttempt: null,
+      report: null,
+      health: null,
+      error: null
+    });
+  });
+
+  const refresh = async () => {
+    await Promise.all(getAdapters().map(async adapter => {
+      const state = states.get(adapter.id)!;
+      state.lastAttempt = Date.now();
+      const { lots, report, health } = await loadAdapter(adapter, fetchJson);
+      state.report = report;
+      if (lots.length > 0) {
+        state.lots = lots;
+        state.lastUpdated = Date.now();
+        state.health = health;
+        state.error = null;
+      } else {
+        state.error = health.error ?? 'No records loaded';
+        state.health = state.lots.length > 0
+          ? { ...health, status: 'stale', records: state.lots.length }
+          : health;
+      }
+    }));
+    payload = null;
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const start = (intervalMs: number) => {
+    stop();
+    timer = setInterval(() => {
+      refresh().catch(err => console.error('Scheduled refresh failed:', err));
+    }, intervalMs);
+  };
+
+  const current = () => {
+    if (!payload) {
+      const all = Array.from(states.values());
+      const { lots, report } = reconcileLots(all.flatMap(state => state.lots));
+      const next: ParkingPayload = {
+        generatedAt: Date.now(),
+        sources: all.map(({ lots, ...rest }) => ({ ...rest, count: lots.length })),
+        data: lots,
+        reconciliation: report
+      };
+      // The ETag covers what clients show: the lots, less the time they were fetched,
+      // and each source's status. Refresh timestamps alone must not defeat If-None-Match,
+      // so the tag is weak: the same tag can come with a newer generatedAt.
+      const fingerprint = JSON.stringify({
+        data: lots.map(({ lastUpdated, ...lot }) => lot),
+        sources: all.map(state => [state.id, state.health?.status ?? null, state.error])
+      });
+      payload = { body: JSON.stringify(next), etag: `W/"${createHash('sha1').update(fingerprint).digest('base64url')}"` };
+    }
+    return payload;
+  };
+
+  return { refresh, start, stop, current };
+};
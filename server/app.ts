@@ -0,0 +1,60 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ParkingAggregator } from './aggregator';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag'
+};
+
+const send = (res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, ...headers });
+  res.end(body);
+};
+
+// RFC 9110 weak comparison: a list of entity tags, W/ ignored, * matching any
+const matchesEtag = (header: string | undefined, etag: string) => {
+  if (!header) return false;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+};
+
+/**
+ * HTTP front for the aggregator:
+ * - GET /api/parking  normalized lots of every source, with ETag / If-None-Match
+ * - GET /healthz      per-source status without the lot data
+ */
+export const createApp = (aggregator: ParkingAggregator) =>
+  createServer((req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      send(res, 204, '');
+      return;
+    }
+    if (req.method !== 'GET') {
+      send(res, 405, JSON.stringify({ error: 'Method not allowed' }), { 'Content-Type': 'application/json' });
+      return;
+    }
+
+    if (pathname === '/api/parking') {
+      const { body, etag } = aggregator.current();
+      const headers = { 'ETag': etag, 'Cache-Control': 'no-cache' };
+      if (matchesEtag(req.headers['if-none-match'], etag)) {
+        send(res, 304, '', headers);
+        return;
+      }
+      send(res, 200, body, { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+      return;
+    }
+
+    if (pathname === '/healthz') {
+      const { sources } = JSON.parse(aggregator.current().body);
+      const ok = sources.some((s: { lastUpdated: number | null }) => s.lastUpdated !== null);
+      send(res, ok ? 200 : 503, JSON.stringify({ ok, sources }), { 'Content-Type': 'application/json; charset=utf-8' });
+      return;
+    }
+
+    send(res, 404, JSON.stringify({ error: 'Not found' }), { 'Content-Type': 'application/json' });
+  });
@@ -0,0 +1,22 @@
+import { JsonFetcher } from '../services/http';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Server-side fetcher: no CORS, so every endpoint is fetched directly,
+ * with a timeout and a couple of retries.
+ */
+export const createServerFetcher = (retries = 2, timeoutMs = 15000): JsonFetcher => async (url) => {
+  let lastError: unknown;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+      return { json: await res.json(), via: 'direct' };
+    } catch (err) {
+      lastError = err;
+      if (i < retries) await sleep(1000 * (i + 1));
+    }
+  }
+  throw lastError;
+};
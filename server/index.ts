@@ -0,0 +1,39 @@
+/**
+ * Parking aggregation server.
+ *
+ *   npm run server                  # live TPC / NTPC feeds
+ *   npm run server -- --fixtures    # local JSON fixtures, no network
+ *
+ * Environment: PORT (default 8787), REFRESH_INTERVAL_MS (default 5 minutes).
+ */
+import { createAggregator } from './aggregator';
+import { createApp } from './app';
+import { createServerFetcher } from './fetcher';
+import { fixtureFetcher } from '../fixtures';
+
+const PORT = parseInt(process.env.PORT ?? '8787', 10);
+const REFRESH_INTERVAL = parseInt(process.env.REFRESH_INTERVAL_MS ?? String(5 * 60 * 1000), 10);
+const useFixtures = process.argv.includes('--fixtures');
+
+const main = async () => {
+  const aggregator = createAggregator(useFixtures ? fixtureFetcher : createServerFetcher());
+  await aggregator.refresh();
+  aggregator.start(REFRESH_INTERVAL);
+
+  const server = createApp(aggregator);
+  server.listen(PORT, () => {
+    console.log(`Parking server listening on http://localhost:${PORT} (${useFixtures ? 'fixtures' : 'live feeds'})`);
+  });
+
+  const shutdown = () => {
+    aggregator.stop();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch(err => {
+  console.error('Failed to start parking server:', err);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { AvailabilityForecast, ParkingLotData, VehicleType } from '../types';
+import { availableOf } from './vehicles';
+import { Translator, pageTranslator } from './i18n';
+
+// A lot's forecast, when it predicts the spaces of the vehicle being shown
+export const forecastFor = (lot: ParkingLotData, vehicle: VehicleType): AvailabilityForecast | undefined =>
+  lot.forecast?.vehicle === vehicle ? lot.forecast : undefined;
+
+// The value the map shows for a lot: predicted when a forecast is attached, live otherwise.
+export const displayedAvailability = (lot: ParkingLotData, vehicle: VehicleType = 'car') =>
+  forecastFor(lot, vehicle)?.available ?? availableOf(lot, vehicle);
+
+// Format the availability text based on requirements
+export const getAvailabilityText = (available: number, { t, formatNumber }: Translator = pageTranslator) => {
+  if (available === -9) return t('availability.unavailable');
+  if (available === -11) return t('availability.plenty');
+  if (available === -12) return t('availability.limited');
+  if (available === -13) return t('availability.full');
+  if (available < 0) return t('availability.unknown');
+  return t('availability.count', { count: formatNumber(available) });
+};
+
+export const getAvailabilityClass = (available: number) => {
+  if (available === -9) return "text-gray-500 font-bold";
+  if (available === -11) return "text-green-600 font-bold";
+  if (available === -12) return "text-yellow-600 font-bold";
+  if (available === -13) return "text-red-600 font-bold";
+  if (available > 0) return "text-blue-600 font-bold";
+  return "text-gray-600 font-bold";
+};
+
+export type AvailabilityLevel = 'plenty' | 'open' | 'limited' | 'full' | 'unknown';
+
+// Free-space ratios mirroring the qualitative codes: -11 足夠, -12 不足半數, -13 不足
+const LIMITED_RATIO = 0.5;
+const FULL_RATIO = 0.1;
+
+/**
+ * Coarse status used for marker and cluster colours, following the same
+ * code → colour mapping as getAvailabilityClass and the legend. Numeric counts
+ * are graded against `total` when it is known, and stay 'open' otherwise.
+ */
+export const getAvailabilityLevel = (available: number, total?: number): AvailabilityLevel => {
+  if (available === -11) return 'plenty';
+  if (available === -12) return 'limited';
+  if (available === -13 || available === 0) return 'full';
+  if (available < 0) return 'unknown';
+  if (!total || total <= 0) return 'open';
+  const ratio = available / total;
+  if (ratio >= LIMITED_RATIO) return 'plenty';
+  if (ratio >= FULL_RATIO) return 'limited';
+  return 'full';
+};
+
+export const LEVEL_COLORS: Record<AvailabilityLevel, string> = {
+  plenty: '#22c55e',  // Green-500
+  open: '#2563eb',    // Blue-600
+  limited: '#eab308', // Yellow-500
+  full: '#ef4444',    // Red-500
+  unknown: '#9ca3af'  // Gray-400
+};
+
+// Best first; used to pick a cluster's best and worst member status
+export const LEVEL_RANK: AvailabilityLevel[] = ['plenty', 'open', 'limited', 'full', 'unknown'];
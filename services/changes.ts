@@ -0,0 +1,41 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { keyOf } from './identity';
+import { VEHICLES, availableOf } from './vehicles';
+import { formatNumber } from './i18n';
+
+// Change in free spaces per vehicle type since the previous refresh
+export type AvailabilityDelta = Partial<Record<VehicleType, number>>;
+
+export interface AvailabilityChanges {
+  at: number;
+  deltas: Map<string, AvailabilityDelta>;
+}
+
+// How long changed lots stay highlighted after a refresh
+export const HIGHLIGHT_MS = 45 * 1000;
+
+/**
+ * Lots whose free-space count moved between two loads, keyed by keyOf. Only
+ * numeric counts on both sides are compared; a lot switching to or from a
+ * qualitative code or -9 has no meaningful delta.
+ */
+export const diffAvailability = (previous: ParkingLotData[], next: ParkingLotData[]): Map<string, AvailabilityDelta> => {
+  const before = new Map(previous.map(lot => [keyOf(lot), lot]));
+  const deltas = new Map<string, AvailabilityDelta>();
+  next.forEach(lot => {
+    const old = before.get(keyOf(lot));
+    if (!old) return;
+    const delta: AvailabilityDelta = {};
+    VEHICLES.forEach(({ type }) => {
+      const a = availableOf(old, type);
+      const b = availableOf(lot, type);
+      if (a >= 0 && b >= 0 && a !== b) delta[type] = b - a;
+    });
+    if (Object.keys(delta).length > 0) deltas.set(keyOf(lot), delta);
+  });
+  return deltas;
+};
+
+// "+5" / "−12", with a real minus sign so it lines up with the plus
+export const formatDelta = (delta: number) =>
+  delta > 0 ? `+${formatNumber(delta)}` : `−${formatNumber(-delta)}`;
@@ -0,0 +1,104 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { Bounds } from './geo';
+import { AvailabilityLevel, LEVEL_RANK, displayedAvailability, getAvailabilityLevel } from './availability';
+import { capacityOf } from './vehicles';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LotCluster {
+  key: string;
+  lat: number;
+  lng: number;
+  lots: ParkingLotData[];
+  // Sum of numeric free spaces; qualitative codes do not contribute
+  freeSpaces: number;
+  best: AvailabilityLevel;
+  worst: AvailabilityLevel;
+}
+
+export interface ClusterOptions {
+  // Grid cell size in screen pixels
+  cellSize: number;
+  // Lots are rendered individually at or above this zoom
+  maxClusterZoom: number;
+  // Whose free spaces and status the clusters summarize
+  vehicle: VehicleType;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  cellSize: 64,
+  maxClusterZoom: 17,
+  vehicle: 'car'
+};
+
+export type ClusterItem =
+  | { kind: 'lot'; lot: ParkingLotData }
+  | { kind: 'cluster'; cluster: LotCluster };
+
+export const inBounds = (lot: { lat: number; lng: number }, bounds: Bounds) =>
+  lot.lat >= bounds.south && lot.lat <= bounds.north && lot.lng >= bounds.west && lot.lng <= bounds.east;
+
+const summarize = (key: string, lots: ParkingLotData[], vehicle: VehicleType): LotCluster => {
+  let lat = 0;
+  let lng = 0;
+  let freeSpaces = 0;
+  let bestRank = LEVEL_RANK.length - 1;
+  let worstRank = 0;
+  lots.forEach(lot => {
+    lat += lot.lat;
+    lng += lot.lng;
+    const available = displayedAvailability(lot, vehicle);
+    if (available > 0) freeSpaces += available;
+    const rank = LEVEL_RANK.indexOf(getAvailabilityLevel(available, capacityOf(lot, vehicle)));
+    bestRank = Math.min(bestRank, rank);
+    worstRank = Math.max(worstRank, rank);
+  });
+  return {
+    key,
+    lat: lat / lots.length,
+    lng: lng / lots.length,
+    lots,
+    freeSpaces,
+    best: LEVEL_RANK[bestRank],
+    worst: LEVEL_RANK[worstRank]
+  };
+};
+
+/**
+ * Culls lots to the (padded) viewport and groups the rest into screen-space
+ * grid cells. Cells holding a single lot, and everything at or above
+ * `maxClusterZoom`, come back as individual lots.
+ *
+ * @param project maps a lat/lng to pixel coordinates at the current zoom
+ */
+export const clusterLots = (
+  lots: ParkingLotData[],
+  bounds: Bounds,
+  zoom: number,
+  project: (lat: number, lng: number) => Point,
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): ClusterItem[] => {
+  const visible = lots.filter(lot => inBounds(lot, bounds));
+  if (zoom >= options.maxClusterZoom) {
+    return visible.map(lot => ({ kind: 'lot', lot }));
+  }
+
+  const cells = new Map<string, ParkingLotData[]>();
+  visible.forEach(lot => {
+    const p = project(lot.lat, lot.lng);
+    const cell = `${Math.floor(p.x / options.cellSize)}:${Math.floor(p.y / options.cellSize)}`;
+    const members = cells.get(cell);
+    if (members) members.push(lot);
+    else cells.set(cell, [lot]);
+  });
+
+  const items: ClusterItem[] = [];
+  cells.forEach((members, cell) => {
+    if (members.length === 1) items.push({ kind: 'lot', lot: members[0] });
+    else items.push({ kind: 'cluster', cluster: summarize(`${zoom}:${cell}`, members, options.vehicle) });
+  });
+  return items;
+};
@@ -1,4 +1,5 @@
 import proj4 from 'proj4';
+import { CoordinateSystem } from '../types';
 
 // Fix for ESM/CDN import where proj4 might be wrapped in a default property
 const p4 = (proj4 as any).default || proj4;
@@ -9,8 +10,79 @@ const TWD97_DEF = "+proj=tmerc +lat_0=0 +lon_0=121 +k=0.9999 +x_0=250000 +y_0=0
 // WGS84 projection string (standard lat/lon)
 const WGS84_DEF = "+proj=longlat +datum=WGS84 +no_defs";
 
-// Register the definition
+// TWD67 (TM2 zone 121) on the Australian 1965 ellipsoid, EPSG:3828
+const TWD67_DEF = "+proj=tmerc +lat_0=0 +lon_0=121 +k=0.9999 +x_0=250000 +y_0=0 +ellps=aust_SA +towgs84=-752,-358,-179,-0.0000011698,0.0000018398,0.0000009822,0.00002329 +units=m +no_defs";
+
+// Register the definitions
 p4.defs("EPSG:3826", TWD97_DEF);
+p4.defs("EPSG:3828", TWD67_DEF);
+
+const PROJECTED: Record<Exclude<CoordinateSystem, 'WGS84'>, string> = { TWD97: 'EPSG:3826', TWD67: 'EPSG:3828' };
+
+// Building a converter parses both definitions; reuse one per system instead of per point
+const converters = new Map<string, { forward: (p: number[]) => number[]; inverse: (p: number[]) => number[] }>();
+
+const converterFor = (system: Exclude<CoordinateSystem, 'WGS84'>) => {
+  let converter = converters.get(system);
+  if (!converter) {
+    converter = p4(PROJECTED[system], WGS84_DEF);
+    converters.set(system, converter);
+  }
+  return converter;
+};
+
+const isUsable = (a: number, b: number) => !!a && !!b && !isNaN(a) && !isNaN(b);
+
+/**
+ * Converts many raw pairs in one system to [latitude, longitude], reusing a
+ * single projection. Projected systems take (x, y) in metres, WGS84 takes
+ * (longitude, latitude). Pairs that are missing or fail to convert come back
+ * as [0, 0], as with toWGS84.
+ */
+export const toWGS84Batch = (points: Array<[number, number]>, system: CoordinateSystem): Array<[number, number]> => {
+  if (system === 'WGS84') return points.map(([x, y]) => (isUsable(x, y) ? [y, x] : [0, 0]));
+  const converter = converterFor(system);
+  return points.map(([x, y]) => {
+    if (!isUsable(x, y)) return [0, 0];
+    try {
+      // proj4 returns [lon, lat], but Leaflet uses [lat, lon]
+      const [lng, lat] = converter.forward([x, y]);
+      return [lat, lng];
+    } catch (error) {
+      console.error("Coordinate conversion error:", error);
+      return [0, 0];
+    }
+  });
+};
+
+/**
+ * Inverse of toWGS84Batch: [latitude, longitude] pairs to (x, y) in the
+ * projected system, or (longitude, latitude) for WGS84. Failures give [0, 0].
+ */
+export const fromWGS84Batch = (points: Array<[number, number]>, system: CoordinateSystem): Array<[number, number]> => {
+  if (system === 'WGS84') return points.map(([lat, lng]) => (isUsable(lat, lng) ? [lng, lat] : [0, 0]));
+  const converter = converterFor(system);
+  return points.map(([lat, lng]) => {
+    if (!isUsable(lat, lng)) return [0, 0];
+    try {
+      const [x, y] = converter.inverse([lng, lat]);
+      return [x, y];
+    } catch (error) {
+      console.error("Coordinate conversion error:", error);
+      return [0, 0];
+    }
+  });
+};
+
+/**
+ * Converts a raw coordinate pair in the given system to [latitude, longitude].
+ * For WGS84 input, x is longitude and y is latitude.
+ */
+export const toWGS84 = (x: number, y: number, system: CoordinateSystem): [number, number] =>
+  toWGS84Batch([[x, y]], system)[0];
+
+export const fromWGS84 = (lat: number, lng: number, system: CoordinateSystem): [number, number] =>
+  fromWGS84Batch([[lat, lng]], system)[0];
 
 /**
  * Converts TWD97 coordinates (X, Y) to WGS84 (Latitude, Longitude).
@@ -18,14 +90,46 @@ p4.defs("EPSG:3826", TWD97_DEF);
  * @param y TWD97 Y coordinate
  * @returns [latitude, longitude]
  */
-export const convertTWD97ToWGS84 = (x: number, y: number): [number, number] => {
-  if (!x || !y) return [0, 0];
-  try {
-    const result = p4("EPSG:3826", WGS84_DEF, [x, y]);
-    // proj4 returns [lon, lat], but Leaflet uses [lat, lon]
-    return [result[1], result[0]];
-  } catch (error) {
-    console.error("Coordinate conversion error:", error);
-    return [0, 0];
-  }
-};
\ No newline at end of file
+export const convertTWD97ToWGS84 = (x: number, y: number): [number, number] => toWGS84(x, y, 'TWD97');
+
+export const convertWGS84ToTWD97 = (lat: number, lng: number): [number, number] => fromWGS84(lat, lng, 'TWD97');
+
+// Plausible ranges over Taiwan and its outlying islands
+const LAT_RANGE: [number, number] = [21, 27];
+const LNG_RANGE: [number, number] = [118, 123];
+const TWD97_X_RANGE: [number, number] = [100000, 400000];
+const TWD97_Y_RANGE: [number, number] = [2400000, 2950000];
+
+const within = (v: number, [min, max]: [number, number]) => v >= min && v <= max;
+
+export interface DetectedSystem {
+  system: CoordinateSystem;
+  // True when the pair arrived as (y, x), e.g. latitude first
+  swapped: boolean;
+}
+
+/**
+ * Guesses the coordinate system of a raw pair from its magnitude, accepting
+ * either axis order. Returns null when the pair fits neither system. Projected
+ * pairs read as TWD97; TWD67 data has to be declared by its adapter.
+ */
+export const detectCoordinateSystem = (a: number, b: number): DetectedSystem | null => {
+  if (isNaN(a) || isNaN(b)) return null;
+  if (within(a, LNG_RANGE) && within(b, LAT_RANGE)) return { system: 'WGS84', swapped: false };
+  if (within(a, LAT_RANGE) && within(b, LNG_RANGE)) return { system: 'WGS84', swapped: true };
+  if (within(a, TWD97_X_RANGE) && within(b, TWD97_Y_RANGE)) return { system: 'TWD97', swapped: false };
+  if (within(a, TWD97_Y_RANGE) && within(b, TWD97_X_RANGE)) return { system: 'TWD97', swapped: true };
+  return null;
+};
+
+/**
+ * Converts a pair of unknown system and axis order to [latitude, longitude],
+ * or null when it cannot be recognised.
+ */
+export const toWGS84Auto = (a: number, b: number): [number, number] | null => {
+  const detected = detectCoordinateSystem(a, b);
+  if (!detected) return null;
+  const [x, y] = detected.swapped ? [b, a] : [a, b];
+  const result = toWGS84(x, y, detected.system);
+  return result[0] === 0 && result[1] === 0 ? null : result;
+};
@@ -0,0 +1,156 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { Bounds, PolygonRings, boundsOfRings, pointInPolygon } from './geo';
+import { inBounds } from './clustering';
+import { displayedAvailability } from './availability';
+import { capacityOf, servesVehicle } from './vehicles';
+
+export interface DistrictFeature {
+  type: 'Feature';
+  properties: { code: string; county: string; name: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: PolygonRings }
+    | { type: 'MultiPolygon'; coordinates: PolygonRings[] };
+}
+
+export interface DistrictBoundaries {
+  type: 'FeatureCollection';
+  features: DistrictFeature[];
+}
+
+/**
+ * Township boundaries of Taipei and New Taipei (MOI, via taiwan-atlas),
+ * bundled so the overlay works offline. Loaded on first use since the file
+ * is a few hundred kB.
+ */
+export const loadDistrictBoundaries = (): Promise<DistrictBoundaries> =>
+  import('../data/districts.json').then(module => module.default as unknown as DistrictBoundaries);
+
+// A township with its official boundary; not the lot-derived District of the tile cache
+export interface AdminDistrict {
+  id: string; // county + district, e.g. 臺北市大安區
+  county: string;
+  name: string;
+  polygons: PolygonRings[];
+  bounds: Bounds;
+}
+
+export interface DistrictIndex {
+  districts: AdminDistrict[];
+  // The lot's district: the one its area field names, else the one it lies in
+  locate: (lot: ParkingLotData) => AdminDistrict | null;
+}
+
+// TPC writes 臺 or 台 and sometimes drops the 區; NTPC's AREA may carry the city
+const normalizeArea = (area: string | undefined) =>
+  (area ?? '').normalize('NFKC').replace(/\s/g, '').replace(/台/g, '臺');
+
+export const createDistrictIndex = (boundaries: DistrictBoundaries): DistrictIndex => {
+  const districts: AdminDistrict[] = boundaries.features.map(({ properties, geometry }) => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    return {
+      id: `${properties.county}${properties.name}`,
+      county: properties.county,
+      name: properties.name,
+      polygons,
+      bounds: boundsOfRings(polygons)
+    };
+  });
+
+  // District names are unique across the two cities, so a bare name is enough
+  const byName = new Map<string, AdminDistrict>();
+  districts.forEach(d => {
+    byName.set(d.name, d);
+    byName.set(d.id, d);
+  });
+
+  const located = new WeakMap<ParkingLotData, AdminDistrict | null>();
+  const locate = (lot: ParkingLotData) => {
+    if (located.has(lot)) return located.get(lot)!;
+    const area = normalizeArea(lot.area);
+    const district =
+      (area ? byName.get(area) ?? byName.get(`${area}區`) : undefined) ??
+      districts.find(d => inBounds(lot, d.bounds) && d.polygons.some(rings => pointInPolygon(lot, rings))) ??
+      null;
+    located.set(lot, district);
+    return district;
+  };
+
+  return { districts, locate };
+};
+
+export type LotStatus = 'count' | 'plenty' | 'limited' | 'full' | 'unavailable' | 'unknown';
+
+export const LOT_STATUSES: LotStatus[] = ['count', 'plenty', 'limited', 'full', 'unavailable', 'unknown'];
+
+// -9 無資料, -11 足夠, -12 不足半數, -13 不足; any other negative is unknown
+export const statusOf = (available: number): LotStatus => {
+  if (available >= 0) return 'count';
+  if (available === -11) return 'plenty';
+  if (available === -12) return 'limited';
+  if (available === -13) return 'full';
+  if (available === -9) return 'unavailable';
+  return 'unknown';
+};
+
+export interface DistrictStats {
+  // null for the lots no district could be found for
+  district: AdminDistrict | null;
+  lots: number;
+  capacity: number;
+  free: number;
+  // Spaces and free spaces of the lots reporting a count, which occupancy is measured on
+  measuredCapacity: number;
+  measuredFree: number;
+  // 0..1; null when no lot in the district reports a count
+  occupancy: number | null;
+  statuses: Record<LotStatus, number>;
+}
+
+const emptyStats = (district: AdminDistrict | null): DistrictStats => ({
+  district,
+  lots: 0,
+  capacity: 0,
+  free: 0,
+  measuredCapacity: 0,
+  measuredFree: 0,
+  occupancy: null,
+  statuses: { count: 0, plenty: 0, limited: 0, full: 0, unavailable: 0, unknown: 0 }
+});
+
+/**
+ * Per-district totals for one vehicle type, one entry per district in index
+ * order plus the unassigned lots. Status codes are counted but never summed:
+ * free is the sum of numeric counts only, and occupancy is measured on the
+ * lots that report one, each capped at its capacity, so a district of "-11
+ * plenty" lots reads as unknown rather than empty or full.
+ */
+export const aggregateDistricts = (
+  lots: ParkingLotData[],
+  index: DistrictIndex,
+  vehicle: VehicleType = 'car'
+): { districts: DistrictStats[]; unassigned: DistrictStats } => {
+  const byId = new Map(index.districts.map(d => [d.id, emptyStats(d)]));
+  const unassigned = emptyStats(null);
+
+  lots.forEach(lot => {
+    if (!servesVehicle(lot, vehicle)) return;
+    const stats = byId.get(index.locate(lot)?.id ?? '') ?? unassigned;
+    const capacity = Math.max(0, capacityOf(lot, vehicle));
+    const available = displayedAvailability(lot, vehicle);
+    stats.lots++;
+    stats.capacity += capacity;
+    stats.statuses[statusOf(available)]++;
+    if (available < 0) return;
+    stats.free += available;
+    if (capacity > 0) {
+      stats.measuredCapacity += capacity;
+      stats.measuredFree += Math.min(available, capacity);
+    }
+  });
+
+  const finish = (stats: DistrictStats) => ({
+    ...stats,
+    occupancy: stats.measuredCapacity > 0 ? 1 - stats.measuredFree / stats.measuredCapacity : null
+  });
+  return { districts: [...byId.values()].map(finish), unassigned: finish(unassigned) };
+};
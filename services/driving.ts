@@ -0,0 +1,94 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { SpatialIndex, bearingDegrees } from './geo';
+import { displayedAvailability } from './availability';
+import { freeRank } from './filters';
+import { keyOf } from './identity';
+import { PositionFix } from './positionSource';
+import { drivingSeconds } from './routing';
+
+export interface DrivingRules {
+  radiusMeters: number;
+  count: number;
+  // Cost discount a shown lot keeps its place with; a newcomer must beat it by this much
+  hysteresis: number;
+  // Extra discount by shown position, so neighbours only swap on a clear difference
+  orderHysteresis: number;
+}
+
+export const DEFAULT_DRIVING_RULES: DrivingRules = {
+  radiusMeters: 3000,
+  count: 3,
+  hysteresis: 0.2,
+  orderHysteresis: 0.1
+};
+
+// A lot straight behind counts as this much further: turning round costs time
+const BEHIND_PENALTY = 1;
+// A lot with one space counts as twice as far; the penalty fades as spaces grow
+const SCARCITY_PENALTY = 2;
+
+export interface DrivingSuggestion {
+  lot: ParkingLotData;
+  // Straight-line metres from the driver
+  distance: number;
+  driveSeconds: number;
+  // Compass bearing from the driver to the lot
+  bearing: number;
+  // Equivalent metres, lower is better; before hysteresis
+  cost: number;
+}
+
+// 0 straight ahead, 1 straight behind; 0 when the heading is unknown
+const behindness = (heading: number | null, bearing: number) =>
+  heading === null ? 0 : (1 - Math.cos(((bearing - heading) * Math.PI) / 180)) / 2;
+
+export const hasFreeSpaces = (available: number) => available > 0 || available === -11 || available === -12;
+
+/**
+ * Lots with free spaces near the driver, cheapest first, with no hysteresis.
+ * Cost is distance stretched for lots behind the direction of travel and for
+ * lots with few spaces left ("-12" counts as about ten).
+ */
+export const scoreForDriving = (
+  index: SpatialIndex<ParkingLotData>,
+  fix: PositionFix,
+  vehicle: VehicleType = 'car',
+  rules: DrivingRules = DEFAULT_DRIVING_RULES
+): DrivingSuggestion[] =>
+  index.within(fix, rules.radiusMeters)
+    .filter(({ item }) => hasFreeSpaces(displayedAvailability(item, vehicle)))
+    .map(({ item, distance }) => {
+      const bearing = bearingDegrees(fix, item);
+      const free = freeRank(displayedAvailability(item, vehicle));
+      const cost = distance * (1 + BEHIND_PENALTY * behindness(fix.heading, bearing)) * (1 + SCARCITY_PENALTY / (1 + free));
+      return { lot: item, distance, driveSeconds: drivingSeconds(distance), bearing, cost };
+    })
+    .sort((a, b) => a.cost - b.cost);
+
+/**
+ * The best `rules.count` lots for the driver, with hysteresis against the
+ * lots currently shown (`shown`, keyOf in display order): a shown lot's cost
+ * is discounted, more the higher it is listed, so a newcomer has to be clearly
+ * better to displace it and two close lots do not keep trading places as GPS
+ * jitter moves the driver. A shown lot that fills up or falls out of range
+ * is dropped at once.
+ */
+export const rankForDriving = (
+  index: SpatialIndex<ParkingLotData>,
+  fix: PositionFix,
+  vehicle: VehicleType = 'car',
+  shown: string[] = [],
+  rules: DrivingRules = DEFAULT_DRIVING_RULES
+): DrivingSuggestion[] => {
+  const rankOf = new Map(shown.map((key, i) => [key, i]));
+  const stickiness = (suggestion: DrivingSuggestion) => {
+    const rank = rankOf.get(keyOf(suggestion.lot));
+    if (rank === undefined || rank >= rules.count) return 0;
+    return rules.hysteresis + (rules.orderHysteresis * (rules.count - 1 - rank)) / Math.max(1, rules.count - 1);
+  };
+  return scoreForDriving(index, fix, vehicle, rules)
+    .map(suggestion => ({ suggestion, adjusted: suggestion.cost * (1 - stickiness(suggestion)) }))
+    .sort((a, b) => a.adjusted - b.adjusted)
+    .slice(0, rules.count)
+    .map(({ suggestion }) => suggestion);
+};
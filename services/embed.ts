@@ -0,0 +1,88 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { Bounds } from './geo';
+import { inBounds } from './clustering';
+import { keysOf } from './identity';
+import { isVehicleType } from './vehicles';
+
+export type EmbedView = 'cards' | 'map';
+export type EmbedTheme = 'light' | 'dark' | 'auto';
+
+export interface EmbedConfig {
+  view: EmbedView;
+  // Lot keys such as TPC:001; a bare id matches that id in any source
+  lots: string[];
+  bbox: Bounds | null;
+  theme: EmbedTheme;
+  refreshSeconds: number; // 0 = never
+  vehicle: VehicleType;
+  title: string;
+}
+
+// The feeds publish every few minutes; polling faster only adds load
+export const MIN_EMBED_REFRESH_SECONDS = 60;
+
+export const DEFAULT_EMBED_CONFIG: EmbedConfig = {
+  view: 'cards',
+  lots: [],
+  bbox: null,
+  theme: 'auto',
+  refreshSeconds: 120,
+  vehicle: 'car',
+  title: ''
+};
+
+export const isEmbed = (params: URLSearchParams) => params.has('embed');
+
+const list = (value: string | null) => (value ? value.split(',').map(v => v.trim()).filter(Boolean) : []);
+
+// "south,west,north,east" in WGS84 degrees
+export const parseBbox = (value: string | null): Bounds | null => {
+  const parts = list(value).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) return null;
+  const [south, west, north, east] = parts;
+  return south < north && west < east ? { south, west, north, east } : null;
+};
+
+/**
+ * Embed settings from a URL such as
+ * `?embed=cards&lots=TPC:001,NTPC:200001&theme=dark&refresh=300`, or
+ * `?embed=map&bbox=25.03,121.55,25.05,121.57`. Unknown values fall back to
+ * the defaults; a refresh below the minimum is raised to it and 0 turns it off.
+ */
+export const embedConfigFromSearchParams = (params: URLSearchParams): EmbedConfig => {
+  const view = params.get('embed');
+  const theme = params.get('theme');
+  const vehicle = params.get('v');
+  const refresh = parseInt(params.get('refresh') ?? '', 10);
+  return {
+    view: view === 'map' ? 'map' : 'cards',
+    lots: [...new Set([...list(params.get('lot')), ...list(params.get('lots'))])],
+    bbox: parseBbox(params.get('bbox')),
+    theme: theme === 'light' || theme === 'dark' ? theme : 'auto',
+    refreshSeconds: isNaN(refresh)
+      ? DEFAULT_EMBED_CONFIG.refreshSeconds
+      : refresh <= 0 ? 0 : Math.max(MIN_EMBED_REFRESH_SECONDS, refresh),
+    vehicle: isVehicleType(vehicle) ? vehicle : 'car',
+    title: params.get('title') ?? ''
+  };
+};
+
+/**
+ * The listed lots in the order given, then any other lots inside the bounding
+ * box, plus the listed keys no lot answers to. Listed keys match merged lots
+ * by any of their sources' keys.
+ */
+export const selectEmbedLots = (
+  lots: ParkingLotData[],
+  config: EmbedConfig
+): { lots: ParkingLotData[]; missing: string[] } => {
+  const listed = new Set<ParkingLotData>();
+  const missing: string[] = [];
+  config.lots.forEach(wanted => {
+    const lot = lots.find(l => keysOf(l).includes(wanted) || (!wanted.includes(':') && l.id === wanted));
+    if (lot) listed.add(lot);
+    else missing.push(wanted);
+  });
+  const boxed = config.bbox ? lots.filter(lot => !listed.has(lot) && inBounds(lot, config.bbox!)) : [];
+  return { lots: [...listed, ...boxed], missing };
+};
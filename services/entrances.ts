@@ -0,0 +1,43 @@
+import { ParkingLotData } from '../types';
+import { LatLng, distanceMeters } from './geo';
+import { toWGS84Auto } from './coordinateService';
+
+export interface LotEntrance extends LatLng {
+  address: string;
+}
+
+// Keyed by the EntranceCoord object, which lot copies (e.g. with a forecast) share
+const entranceCache = new WeakMap<object, LotEntrance[]>();
+
+/**
+ * Entrances listed in a lot's EntranceCoord, converted to WGS84. The feed
+ * mostly gives latitude in Xcod and longitude in Ycod, but some rows carry
+ * TWD97 metres or the other axis order, so each pair is detected on its own.
+ * Unrecognisable pairs are dropped.
+ */
+export const entrancesOf = (lot: Pick<ParkingLotData, 'EntranceCoord'>): LotEntrance[] => {
+  const coord = lot.EntranceCoord;
+  if (!coord) return [];
+  let entrances = entranceCache.get(coord);
+  if (!entrances) {
+    entrances = (coord.EntrancecoordInfo ?? []).flatMap(info => {
+      const converted = toWGS84Auto(parseFloat(info.Xcod), parseFloat(info.Ycod));
+      if (!converted) return [];
+      return [{ lat: converted[0], lng: converted[1], address: info.Address ?? '' }];
+    });
+    entranceCache.set(coord, entrances);
+  }
+  return entrances;
+};
+
+/**
+ * Where to route to: the entrance closest to `from` when the lot lists any,
+ * the lot's own coordinate otherwise.
+ */
+export const destinationOf = (lot: ParkingLotData, from: LatLng | null): LotEntrance => {
+  const entrances = entrancesOf(lot);
+  const centroid = { lat: lot.lat, lng: lot.lng, address: lot.address };
+  if (entrances.length === 0) return centroid;
+  if (!from) return entrances[0];
+  return entrances.reduce((best, e) => (distanceMeters(from, e) < distanceMeters(from, best) ? e : best));
+};
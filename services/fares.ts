@@ -0,0 +1,267 @@
+import { FarePeriod, FareUnit, ParkingLotData, StayCost, Tariff } from '../types';
+import { isHoliday, toTaipeiTime } from './trends';
+import { MessageKey, t } from './i18n';
+
+const MINUTE = 60 * 1000;
+const FULL_DAY = 24 * 60;
+
+const UNIT_MINUTES: Record<Exclude<FareUnit, 'entry'>, number> = {
+  'hour': 60,
+  'half-hour': 30
+};
+
+// "00~24", "08:00~20:00", "8:00-20:00", "0800至2000", "00:00:00~23:59:59"
+const PERIOD_PATTERN = /(\d{1,2})(?:[:：]?(\d{2})(?:[:：]\d{2})?)?\s*[~\-－～至到]\s*(\d{1,2})(?:[:：]?(\d{2})(?:[:：]\d{2})?)?/g;
+
+const MONTHLY_PATTERN = /月票|月租|季票|年票|回數票/;
+const CAP_PATTERN = /(?:當日|每日|單日|全日|每天)?(?:最高|上限)(?:收費|上限)?\s*(\d+)\s*元/;
+const FIRST_HOUR_PATTERN = /(?:首|第一|第1|前1|前一)(?:個)?小時\s*(?:收費)?\s*(\d+)\s*元?/;
+export const WORKING_DAY_PATTERN = /平日|週一至週五|周一至周五|星期一至星期五/;
+export const HOLIDAY_PATTERN = /假日|例假|週六|週日|周六|周日|星期六|星期日/;
+
+// Free text (payex, serviceTime) split at Chinese and ASCII list punctuation
+export const splitClauses = (text: string): string[] =>
+  text.split(/[，,；;。、\n]/).map(c => c.trim()).filter(Boolean);
+
+// The day types a clause applies to: the one it names, or both when it names neither or both
+export const clauseDayTypes = (clause: string) => {
+  const onWorking = WORKING_DAY_PATTERN.test(clause);
+  const onHoliday = HOLIDAY_PATTERN.test(clause);
+  return { workingDay: onWorking || !onHoliday, holiday: onHoliday || !onWorking };
+};
+
+// Every time range in the text, in minutes after midnight; ranges past 24:00 are skipped
+export const parsePeriods = (text: string): Array<{ start: number; end: number }> =>
+  Array.from(text.matchAll(PERIOD_PATTERN)).flatMap(match => {
+    const start = parseInt(match[1], 10) * 60 + parseInt(match[2] ?? '0', 10);
+    const end = parseInt(match[3], 10) * 60 + parseInt(match[4] ?? '0', 10);
+    return start > FULL_DAY || end > FULL_DAY ? [] : [{ start, end }];
+  });
+
+export const parsePeriod = (text: string): { start: number; end: number } | null => parsePeriods(text)[0] ?? null;
+
+/**
+ * Recognises a single rate phrase: "30元/時", "每小時40元", "計時40元",
+ * "20元/半小時", "計次50元". A bare number ("40") is read as an hourly rate,
+ * which is how TPC's FareInfo tables are written.
+ */
+export const parseRate = (text: string): { rate: number; unit: FareUnit } | null => {
+  const halfHour = text.match(/(\d+)\s*元?\s*\/\s*(?:半小時|30分)/) ?? text.match(/每半小時\s*(\d+)/);
+  if (halfHour) return { rate: parseInt(halfHour[1], 10), unit: 'half-hour' };
+
+  const entry = text.match(/(?:計次|每次|按次)\s*(\d+)/) ?? text.match(/(\d+)\s*元?\s*\/\s*次/);
+  if (entry) return { rate: parseInt(entry[1], 10), unit: 'entry' };
+
+  const hour = text.match(/(\d+)\s*元?\s*\/\s*(?:小?時|hr?\b)/i)
+    ?? text.match(/(?:每小時|計時|時租)\s*(\d+)/);
+  if (hour) return { rate: parseInt(hour[1], 10), unit: 'hour' };
+
+  const bare = text.match(/^\s*(\d+)\s*元?\s*$/);
+  if (bare) return { rate: parseInt(bare[1], 10), unit: 'hour' };
+
+  return null;
+};
+
+const wholeDay = (rate: number, unit: FareUnit): FarePeriod => ({ start: 0, end: FULL_DAY, rate, unit });
+
+const fromFareTable = (rows: Array<{ Period: string; Fare: string }> | undefined, unparsed: string[]): FarePeriod[] => {
+  const periods: FarePeriod[] = [];
+  (rows ?? []).forEach(row => {
+    const period = parsePeriod(row.Period ?? '') ?? { start: 0, end: FULL_DAY };
+    const rate = parseRate(row.Fare ?? '');
+    if (rate) periods.push({ ...period, ...rate });
+    else if (row.Fare) unparsed.push(`${row.Period} ${row.Fare}`.trim());
+  });
+  return periods;
+};
+
+/**
+ * Parses the free-text payex description clause by clause. Monthly passes are
+ * ignored; clauses with numbers that match no rule end up in `unparsed`.
+ */
+const fromPayex = (payex: string) => {
+  const workingDay: FarePeriod[] = [];
+  const holiday: FarePeriod[] = [];
+  const unparsed: string[] = [];
+  let firstHourRate: number | undefined;
+  let dailyCap: number | undefined;
+  let subsequentRate: { rate: number; unit: FareUnit } | undefined;
+
+  splitClauses(payex).forEach(clause => {
+    if (MONTHLY_PATTERN.test(clause)) return;
+
+    let understood = false;
+
+    const cap = clause.match(CAP_PATTERN);
+    if (cap) {
+      dailyCap = parseInt(cap[1], 10);
+      understood = true;
+    }
+
+    const firstHour = clause.match(FIRST_HOUR_PATTERN);
+    if (firstHour) {
+      firstHourRate = parseInt(firstHour[1], 10);
+      understood = true;
+      // "首小時30元，之後每小時40元" may share one clause
+      const rest = clause.slice((firstHour.index ?? 0) + firstHour[0].length);
+      const restRate = parseRate(rest);
+      if (restRate) subsequentRate = restRate;
+    } else if (!cap) {
+      const rate = parseRate(clause);
+      if (rate) {
+        const period = parsePeriod(clause);
+        const entry: FarePeriod = period ? { ...period, ...rate } : wholeDay(rate.rate, rate.unit);
+        if (/(?:第二|第2|之後|其後|續|超過)/.test(clause)) {
+          subsequentRate = rate;
+        } else {
+          const days = clauseDayTypes(clause);
+          if (days.workingDay) workingDay.push(entry);
+          if (days.holiday) holiday.push(entry);
+        }
+        understood = true;
+      }
+    }
+
+    if (!understood && /\d/.test(clause)) unparsed.push(clause);
+  });
+
+  // A first-hour rate followed by a "thereafter" rate is an all-day tariff
+  if (subsequentRate && workingDay.length === 0 && holiday.length === 0) {
+    workingDay.push(wholeDay(subsequentRate.rate, subsequentRate.unit));
+    holiday.push(wholeDay(subsequentRate.rate, subsequentRate.unit));
+  }
+
+  return { workingDay, holiday, unparsed, firstHourRate, dailyCap };
+};
+
+/**
+ * Builds a typed tariff for a lot from its structured FareInfo tables (TPC)
+ * and free-text payex (TPC and NTPC). FareInfo periods take precedence;
+ * payex contributes caps, first-hour rates, and the rates when no table exists.
+ */
+export const parseTariff = (lot: Pick<ParkingLotData, 'payex' | 'FareInfo'>): Tariff => {
+  const tableUnparsed: string[] = [];
+  const tableWorking = fromFareTable(lot.FareInfo?.WorkingDay, tableUnparsed);
+  const tableHoliday = fromFareTable(lot.FareInfo?.Holiday, tableUnparsed);
+  const text = fromPayex(lot.payex ?? '');
+
+  const hasTable = tableWorking.length > 0 || tableHoliday.length > 0;
+  const workingDay = hasTable ? tableWorking : text.workingDay;
+  const holiday = hasTable ? tableHoliday : text.holiday;
+  // When the table provides rates, payex rate clauses are only informational
+  const unparsed = [...tableUnparsed, ...text.unparsed];
+
+  const hasRates = workingDay.length > 0 || holiday.length > 0;
+  return {
+    workingDay,
+    holiday,
+    firstHourRate: text.firstHourRate,
+    dailyCap: text.dailyCap,
+    status: !hasRates ? 'unparsed' : unparsed.length > 0 ? 'partial' : 'parsed',
+    unparsed
+  };
+};
+
+const inPeriod = (period: FarePeriod, minuteOfDay: number) =>
+  period.start < period.end
+    ? minuteOfDay >= period.start && minuteOfDay < period.end
+    : minuteOfDay >= period.start || minuteOfDay < period.end;
+
+const periodAt = (tariff: Tariff, t: number): FarePeriod | undefined => {
+  const holiday = isHoliday(t);
+  // Fall back to the other table when a lot only publishes one
+  const periods = (holiday ? tariff.holiday : tariff.workingDay).length > 0
+    ? (holiday ? tariff.holiday : tariff.workingDay)
+    : (holiday ? tariff.workingDay : tariff.holiday);
+  const { hour, minute } = toTaipeiTime(t);
+  return periods.find(p => inPeriod(p, hour * 60 + minute));
+};
+
+/**
+ * Estimated charge for parking from `entry` for `minutes`. Started billing
+ * units are charged in full, per-entry periods are charged once per stay, and
+ * the daily cap applies per Taipei calendar day.
+ */
+export const estimateStayCost = (tariff: Tariff, entry: number, minutes: number): StayCost => {
+  const flags: string[] = [];
+  if (tariff.status === 'unparsed') return { cost: null, flags: ['unparsed-tariff'] };
+  if (tariff.status === 'partial') flags.push('unparsed-text');
+
+  const dayTotals = new Map<string, number>();
+  const chargedEntries = new Set<FarePeriod>();
+  const charge = (t: number, amount: number) => {
+    const day = toTaipeiTime(t).dayKey;
+    dayTotals.set(day, (dayTotals.get(day) ?? 0) + amount);
+  };
+
+  let elapsed = 0;
+  while (elapsed < minutes) {
+    const t = entry + elapsed * MINUTE;
+
+    if (elapsed === 0 && tariff.firstHourRate !== undefined) {
+      charge(t, tariff.firstHourRate);
+      elapsed += 60;
+      continue;
+    }
+
+    const period = periodAt(tariff, t);
+    if (!period) {
+      if (!flags.includes('no-period')) flags.push('no-period');
+      elapsed += 30;
+      continue;
+    }
+
+    if (period.unit === 'entry') {
+      if (!chargedEntries.has(period)) {
+        chargedEntries.add(period);
+        charge(t, period.rate);
+      }
+      elapsed += 30;
+      continue;
+    }
+
+    charge(t, period.rate);
+    elapsed += UNIT_MINUTES[period.unit];
+  }
+
+  let cost = 0;
+  dayTotals.forEach(total => {
+    cost += tariff.dailyCap !== undefined ? Math.min(total, tariff.dailyCap) : total;
+  });
+  return { cost, flags };
+};
+
+// Parsed tariffs per lot object; lots are replaced on every refresh so this never grows stale
+const tariffCache = new WeakMap<object, Tariff>();
+
+export const getTariff = (lot: ParkingLotData): Tariff => {
+  let tariff = tariffCache.get(lot);
+  if (!tariff) {
+    tariff = parseTariff(lot);
+    tariffCache.set(lot, tariff);
+  }
+  return tariff;
+};
+
+export const STANDARD_STAY_MINUTES = 180;
+
+export const stayCostOf = (lot: ParkingLotData, entry: number = Date.now(), minutes = STANDARD_STAY_MINUTES): StayCost =>
+  estimateStayCost(getTariff(lot), entry, minutes);
+
+/**
+ * Orders stay costs cheapest first; lots without an estimate sort last.
+ */
+export const compareStayCosts = (a: number | null, b: number | null) => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+const UNIT_LABEL: Record<FareUnit, MessageKey> = { 'hour': 'fare.unitHour', 'half-hour': 'fare.unitHalfHour', 'entry': 'fare.unitEntry' };
+
+const formatMinutes = (m: number) =>
+  `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+
+export const formatFarePeriod = (p: FarePeriod) =>
+  `${p.start === 0 && p.end === FULL_DAY ? t('fare.allDay') : `${formatMinutes(p.start)}~${formatMinutes(p.end)}`} ${t('fare.rate', { rate: p.rate, unit: t(UNIT_LABEL[p.unit]) })}`;
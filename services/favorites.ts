@@ -0,0 +1,56 @@
+import { FavoriteLot, ParkingLotData, WatchRule } from '../types';
+import { keysOf, lotKey } from './identity';
+import { WatchState } from './watchRules';
+
+const FAVORITES_KEY = 'parking.favorites.v1';
+const RULES_KEY = 'parking.watchRules.v1';
+const WATCH_STATE_KEY = 'parking.watchState.v1';
+
+// localStorage can be missing (private mode, workers) or hold garbage from older versions
+const read = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key}:`, error);
+  }
+};
+
+export const loadFavorites = (): FavoriteLot[] => {
+  const favorites = read<FavoriteLot[]>(FAVORITES_KEY, []);
+  return Array.isArray(favorites) ? favorites : [];
+};
+export const saveFavorites = (favorites: FavoriteLot[]) => write(FAVORITES_KEY, favorites);
+
+// Rules saved before vehicle modes have no vehicle; they always watched car spaces
+export const loadWatchRules = (): WatchRule[] => {
+  const rules = read<WatchRule[]>(RULES_KEY, []);
+  return Array.isArray(rules) ? rules.map(rule => ({ ...rule, vehicle: rule.vehicle ?? 'car' })) : [];
+};
+export const saveWatchRules = (rules: WatchRule[]) => write(RULES_KEY, rules);
+
+export const loadWatchState = (): WatchState => read<WatchState>(WATCH_STATE_KEY, {});
+export const saveWatchState = (state: WatchState) => write(WATCH_STATE_KEY, state);
+
+export const favoriteKey = (favorite: FavoriteLot) => lotKey(favorite.source, favorite.id);
+
+export const isFavorite = (favorites: FavoriteLot[], lot: Pick<ParkingLotData, 'source' | 'id' | 'provenance'>) =>
+  keysOf(lot).some(key => favorites.some(f => favoriteKey(f) === key));
+
+/**
+ * Adds the lot when it is not starred yet and removes it otherwise.
+ */
+export const toggleFavorite = (favorites: FavoriteLot[], lot: ParkingLotData, now: number = Date.now()): FavoriteLot[] =>
+  isFavorite(favorites, lot)
+    ? favorites.filter(f => !keysOf(lot).includes(favoriteKey(f)))
+    : [...favorites, { source: lot.source, id: lot.id, name: lot.name, addedAt: now }];
+
+export const createRuleId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
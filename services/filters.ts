@@ -0,0 +1,147 @@
+import { ParkingLotData, ParkingSourceId, VehicleType } from '../types';
+import { STANDARD_STAY_MINUTES, compareStayCosts, stayCostOf } from './fares';
+import { DistrictIndex } from './districts';
+import { LatLng, distanceMeters } from './geo';
+import { availableOf, isVehicleType, servesVehicle } from './vehicles';
+
+export const AMENITIES = [
+  { key: 'Handicap_First', labelKey: 'amenity.Handicap_First' },
+  { key: 'Pregnancy_First', labelKey: 'amenity.Pregnancy_First' },
+  { key: 'AED_Equipment', labelKey: 'amenity.AED_Equipment' },
+  { key: 'Phone_Charge', labelKey: 'amenity.Phone_Charge' },
+  { key: 'Child_Pickup_Area', labelKey: 'amenity.Child_Pickup_Area' }
+] as const;
+
+export type AmenityKey = typeof AMENITIES[number]['key'];
+
+export type LotType = '1' | '2'; // "1": Planar, "2": Tower
+
+export type SortKey = 'none' | 'distance' | 'available' | 'fare';
+
+export interface LotFilters {
+  query: string;
+  sources: ParkingSourceId[]; // empty = all sources
+  minFree: number;
+  types: LotType[];           // empty = all types
+  amenities: AmenityKey[];    // lot must offer every listed amenity
+  sort: SortKey;
+  vehicle: VehicleType;       // which spaces are counted, shown and filtered on
+  district: string;           // district id, e.g. 臺北市大安區; empty = everywhere
+}
+
+export const DEFAULT_FILTERS: LotFilters = {
+  query: '',
+  sources: [],
+  minFree: 0,
+  types: [],
+  amenities: [],
+  sort: 'none',
+  vehicle: 'car',
+  district: ''
+};
+
+// Amenity fields are "0"/"1" flags or a count of reserved spaces
+export const hasAmenity = (lot: ParkingLotData, key: AmenityKey) => {
+  const value = parseInt(String(lot[key] ?? '0'), 10);
+  return !isNaN(value) && value > 0;
+};
+
+/**
+ * Whether a lot has at least `minFree` spaces. "-11 剩餘格位足夠" counts as
+ * meeting any threshold; -12/-13/-9 only meet a threshold of 0.
+ */
+export const meetsMinFree = (available: number, minFree: number) => {
+  if (minFree <= 0) return true;
+  if (available === -11) return true;
+  return available >= minFree;
+};
+
+// Sort key for free spaces that places qualitative codes between numeric counts
+export const freeRank = (available: number) => {
+  if (available >= 0) return available;
+  if (available === -11) return 50;
+  if (available === -12) return 10;
+  if (available === -13) return 0.5;
+  return -1;
+};
+
+export interface FilterContext {
+  userLocation: LatLng | null;
+  now?: number;
+  // Needed to filter by district; until the boundaries load the district filter is not applied
+  districts?: DistrictIndex | null;
+}
+
+export const applyFilters = (lots: ParkingLotData[], filters: LotFilters, context: FilterContext): ParkingLotData[] => {
+  const query = filters.query.trim().toLowerCase();
+
+  const filtered = lots.filter(lot => {
+    if (filters.sources.length > 0 && !filters.sources.includes(lot.source)) return false;
+    if (filters.types.length > 0 && !filters.types.includes(lot.type as LotType)) return false;
+    if (!servesVehicle(lot, filters.vehicle)) return false;
+    if (!meetsMinFree(availableOf(lot, filters.vehicle), filters.minFree)) return false;
+    if (!filters.amenities.every(key => hasAmenity(lot, key))) return false;
+    if (filters.district && context.districts && context.districts.locate(lot)?.id !== filters.district) return false;
+    if (query) {
+      const haystack = `${lot.name ?? ''} ${lot.address ?? ''} ${lot.area ?? ''}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+
+  switch (filters.sort) {
+    case 'distance': {
+      const origin = context.userLocation;
+      if (!origin) return filtered;
+      const distances = new Map(filtered.map(lot => [lot, distanceMeters(origin, lot)]));
+      return filtered.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    }
+    case 'available':
+      return filtered.sort((a, b) => freeRank(availableOf(b, filters.vehicle)) - freeRank(availableOf(a, filters.vehicle)));
+    case 'fare': {
+      // Estimating a stay parses the tariff, so do it once per lot rather than per comparison
+      const entry = context.now ?? Date.now();
+      const costs = new Map(filtered.map(lot => [lot, stayCostOf(lot, entry, STANDARD_STAY_MINUTES).cost]));
+      return filtered.sort((a, b) => compareStayCosts(costs.get(a)!, costs.get(b)!));
+    }
+    default:
+      return filtered;
+  }
+};
+
+const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+/**
+ * URL encoding of the filter state, e.g. `?q=信義&src=TPC&min=10&type=2&am=AED_Equipment&sort=distance&area=臺北市大安區`.
+ * Defaults are omitted so a plain URL stays plain.
+ */
+export const filtersToSearchParams = (filters: LotFilters, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  const set = (key: string, value: string) => (value ? params.set(key, value) : params.delete(key));
+  set('q', filters.query.trim());
+  set('src', filters.sources.join(','));
+  set('min', filters.minFree > 0 ? String(filters.minFree) : '');
+  set('type', filters.types.join(','));
+  set('am', filters.amenities.join(','));
+  set('sort', filters.sort === 'none' ? '' : filters.sort);
+  set('v', filters.vehicle === 'car' ? '' : filters.vehicle);
+  set('area', filters.district);
+  return params;
+};
+
+export const filtersFromSearchParams = (params: URLSearchParams): LotFilters => {
+  const amenityKeys = AMENITIES.map(a => a.key as string);
+  const sort = params.get('sort');
+  const vehicle = params.get('v');
+  const minFree = parseInt(params.get('min') ?? '', 10);
+  return {
+    query: params.get('q') ?? '',
+    sources: list(params.get('src')),
+    minFree: isNaN(minFree) ? 0 : Math.max(0, minFree),
+    types: list(params.get('type')).filter((t): t is LotType => t === '1' || t === '2'),
+    amenities: list(params.get('am')).filter((a): a is AmenityKey => amenityKeys.includes(a)),
+    sort: sort === 'distance' || sort === 'available' || sort === 'fare' ? sort : 'none',
+    vehicle: isVehicleType(vehicle) ? vehicle : 'car',
+    district: params.get('area') ?? ''
+  };
+};
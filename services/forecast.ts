@@ -0,0 +1,308 @@
+import { AvailabilityForecast, AvailabilitySample, SlotStats, VehicleType } from '../types';
+import { occupancyOf, sampleAt, toTaipeiTime } from './trends';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// z-score for an 80% band
+const BAND_Z = 1.28;
+// How quickly the current reading stops mattering as the arrival time moves away
+const PERSISTENCE_DECAY_MINUTES = 60;
+const PERSISTENCE_HORIZON = 3 * HOUR;
+
+export interface Slot {
+  weekday: number;
+  hour: number;
+}
+
+export const slotOf = (t: number): Slot => {
+  const { weekday, hour } = toTaipeiTime(t);
+  return { weekday, hour };
+};
+
+export const emptySlot = (): SlotStats => ({ n: 0, sum: 0, sumSq: 0, qualitative: 0 });
+
+export const isQualitative = (available: number) => available <= -11 && available >= -13;
+
+/**
+ * Adds one reading to a slot. Returns false when the reading carries no
+ * occupancy information (-9 or an unknown total).
+ */
+export const addReading = (stats: SlotStats, available: number, total: number): boolean => {
+  const occupancy = occupancyOf(available, total);
+  if (occupancy === null) return false;
+  stats.n++;
+  stats.sum += occupancy;
+  stats.sumSq += occupancy * occupancy;
+  if (isQualitative(available)) stats.qualitative++;
+  return true;
+};
+
+export const mergeSlots = (slots: SlotStats[]): SlotStats =>
+  slots.reduce((acc, s) => ({
+    n: acc.n + s.n,
+    sum: acc.sum + s.sum,
+    sumSq: acc.sumSq + s.sumSq,
+    qualitative: acc.qualitative + s.qualitative
+  }), emptySlot());
+
+// Weekdays sharing the day type (working day / weekend) with `weekday`
+export const sameDayTypeWeekdays = (weekday: number): number[] =>
+  weekday === 0 || weekday === 6 ? [0, 6] : [1, 2, 3, 4, 5];
+
+/**
+ * Per-lot slot statistics keyed by `${weekday}-${hour}`, built from raw samples.
+ * The history store maintains the same statistics incrementally.
+ */
+export const accumulateSlots = (samples: AvailabilitySample[]): Map<string, SlotStats> => {
+  const slots = new Map<string, SlotStats>();
+  samples.forEach(sample => {
+    const { weekday, hour } = slotOf(sample.t);
+    const key = `${weekday}-${hour}`;
+    const stats = slots.get(key) ?? emptySlot();
+    if (addReading(stats, sample.available, sample.total)) slots.set(key, stats);
+  });
+  return slots;
+};
+
+export interface ForecastInput {
+  vehicle: VehicleType;
+  // Capacity for that vehicle
+  total: number;
+  // Latest live reading, used for short-range forecasts
+  current?: { available: number; t: number };
+  // Statistics for the arrival slot on the same weekday
+  weekdaySlot?: SlotStats;
+  // Statistics for the arrival hour across all days of the same day type
+  dayTypeSlot?: SlotStats;
+}
+
+// Fewer samples than this in the same-weekday slot falls back to the day-type slot
+const MIN_SLOT_SAMPLES = 3;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const slotEstimate = (stats: SlotStats) => {
+  const mean = stats.sum / stats.n;
+  const variance = Math.max(0, stats.sumSq / stats.n - mean * mean);
+  // Widen the band for thin history so a handful of samples does not look certain
+  const halfWidth = BAND_Z * Math.sqrt(variance) + 0.3 / Math.sqrt(stats.n);
+  return { mean, halfWidth };
+};
+
+// Maps an occupancy ratio back onto the -11/-12/-13 bands used by occupancyOf
+const toQualitativeCode = (occupancy: number) => {
+  if (occupancy < 0.5) return -11;
+  if (occupancy < 0.85) return -12;
+  return -13;
+};
+
+/**
+ * Estimates availability at `arrival`. Combines a seasonal average (same
+ * weekday and hour, falling back to the same day type) with the current
+ * reading, whose weight decays with lead time. The band is an ~80% interval.
+ */
+export const forecastLot = (input: ForecastInput, arrival: number, now: number = Date.now()): AvailabilityForecast => {
+  const lead = Math.max(0, arrival - now);
+  const currentOccupancy = input.current ? occupancyOf(input.current.available, input.total) : null;
+
+  let seasonal: { mean: number; halfWidth: number; stats: SlotStats } | null = null;
+  let method: AvailabilityForecast['method'] = 'none';
+  if (input.weekdaySlot && input.weekdaySlot.n >= MIN_SLOT_SAMPLES) {
+    seasonal = { ...slotEstimate(input.weekdaySlot), stats: input.weekdaySlot };
+    method = 'seasonal-weekday';
+  } else if (input.dayTypeSlot && input.dayTypeSlot.n > 0) {
+    seasonal = { ...slotEstimate(input.dayTypeSlot), stats: input.dayTypeSlot };
+    method = 'seasonal-daytype';
+  }
+
+  let occupancy: number;
+  let halfWidth: number;
+  if (currentOccupancy !== null && lead < PERSISTENCE_HORIZON) {
+    const weight = Math.exp(-lead / (PERSISTENCE_DECAY_MINUTES * MINUTE));
+    const persistenceWidth = 0.05 + 0.4 * (lead / PERSISTENCE_HORIZON);
+    if (seasonal) {
+      occupancy = weight * currentOccupancy + (1 - weight) * seasonal.mean;
+      halfWidth = weight * persistenceWidth + (1 - weight) * seasonal.halfWidth;
+    } else {
+      occupancy = currentOccupancy;
+      halfWidth = persistenceWidth;
+      method = 'persistence';
+    }
+  } else if (seasonal) {
+    occupancy = seasonal.mean;
+    halfWidth = seasonal.halfWidth;
+  } else {
+    return { arrival, vehicle: input.vehicle, available: -9, low: -9, high: -9, occupancy: null, method: 'none', sampleCount: 0 };
+  }
+
+  const low = clamp01(occupancy - halfWidth);
+  const high = clamp01(occupancy + halfWidth);
+  const sampleCount = seasonal?.stats.n ?? 0;
+
+  // Lots that report codes rather than counts keep getting codes
+  const qualitative = seasonal
+    ? seasonal.stats.qualitative * 2 > seasonal.stats.n
+    : input.current !== undefined && isQualitative(input.current.available);
+
+  if (qualitative || !input.total) {
+    return {
+      arrival,
+      vehicle: input.vehicle,
+      available: toQualitativeCode(occupancy),
+      // Fewer free spaces correspond to higher occupancy
+      low: toQualitativeCode(high),
+      high: toQualitativeCode(low),
+      occupancy,
+      method,
+      sampleCount
+    };
+  }
+
+  const toSpaces = (occ: number) => Math.round((1 - occ) * input.total);
+  return {
+    arrival,
+    vehicle: input.vehicle,
+    available: toSpaces(occupancy),
+    low: toSpaces(high),
+    high: toSpaces(low),
+    occupancy,
+    method,
+    sampleCount
+  };
+};
+
+const WEEKDAY_NAMES: Array<[RegExp, number]> = [
+  [/^(sun(day)?|週日|周日|星期日|星期天|禮拜天|日曜日?)$/i, 0],
+  [/^(mon(day)?|週一|周一|星期一|月曜日?)$/i, 1],
+  [/^(tue(s(day)?)?|週二|周二|星期二|火曜日?)$/i, 2],
+  [/^(wed(nesday)?|週三|周三|星期三|水曜日?)$/i, 3],
+  [/^(thu(rs(day)?)?|週四|周四|星期四|木曜日?)$/i, 4],
+  [/^(fri(day)?|週五|周五|星期五|金曜日?)$/i, 5],
+  [/^(sat(urday)?|週六|周六|星期六|土曜日?)$/i, 6]
+];
+
+/**
+ * Parses an arrival time relative to `now`, in Taipei time:
+ * "in 30 minutes", "30分鐘後", "1時間後", "+45m", "in 2 hours", "14:00", "Saturday 14:00", "週六 14:00".
+ * A clock time that already passed today means tomorrow; a weekday means its
+ * next occurrence. Returns null when the text is not understood.
+ */
+export const parseArrivalTime = (text: string, now: number = Date.now()): number | null => {
+  const input = text.trim();
+  if (!input) return null;
+
+  const relative = input.match(/^(?:in\s+|\+)?(\d+(?:\.\d+)?)\s*(m|min|mins|minutes?|分鐘?|h|hr|hrs|hours?|小時|時間)\s*(?:後)?$/i);
+  if (relative) {
+    const amount = parseFloat(relative[1]);
+    const hours = /^(h|hr|hrs|hours?|小時|時間)$/i.test(relative[2]);
+    return now + amount * (hours ? HOUR : MINUTE);
+  }
+
+  const absolute = input.match(/^(?:(\S+)\s+)?(\d{1,2})[:：](\d{2})$/);
+  if (!absolute) return null;
+
+  const hour = parseInt(absolute[2], 10);
+  const minute = parseInt(absolute[3], 10);
+  if (hour > 23 || minute > 59) return null;
+
+  let targetWeekday: number | null = null;
+  if (absolute[1]) {
+    const match = WEEKDAY_NAMES.find(([pattern]) => pattern.test(absolute[1]));
+    if (!match) return null;
+    targetWeekday = match[1];
+  }
+
+  const local = toTaipeiTime(now);
+  const minutesNow = local.hour * 60 + local.minute;
+  const minutesTarget = hour * 60 + minute;
+  let dayOffset: number;
+  if (targetWeekday === null) {
+    dayOffset = minutesTarget > minutesNow ? 0 : 1;
+  } else {
+    dayOffset = (targetWeekday - local.weekday + 7) % 7;
+    if (dayOffset === 0 && minutesTarget <= minutesNow) dayOffset = 7;
+  }
+
+  const startOfMinute = now - (now % MINUTE);
+  return startOfMinute + dayOffset * DAY + (minutesTarget - minutesNow) * MINUTE;
+};
+
+export interface ForecastEvaluation {
+  count: number;
+  // Mean absolute error in occupancy ratio (0–1)
+  maeOccupancy: number;
+  // Same metric for a naive "it will stay as it is now" forecast
+  persistenceMaeOccupancy: number;
+  // Share of held-out readings that fell inside the predicted band
+  coverage: number;
+}
+
+/**
+ * Trains the baseline on samples before `splitAt` and scores it on the held-out
+ * samples after it, forecasting each one `leadMinutes` ahead of its timestamp.
+ */
+export const evaluateBaseline = (
+  samples: AvailabilitySample[],
+  splitAt: number,
+  leadMinutes = 60
+): ForecastEvaluation => {
+  const byLot = new Map<string, AvailabilitySample[]>();
+  samples.forEach(s => {
+    const key = `${s.source}:${s.id}:${s.vehicle ?? 'car'}`;
+    const list = byLot.get(key) ?? [];
+    list.push(s);
+    byLot.set(key, list);
+  });
+
+  let count = 0;
+  let errorSum = 0;
+  let persistenceErrorSum = 0;
+  let covered = 0;
+
+  byLot.forEach(lotSamples => {
+    lotSamples.sort((a, b) => a.t - b.t);
+    const training = lotSamples.filter(s => s.t < splitAt);
+    const heldOut = lotSamples.filter(s => s.t >= splitAt);
+    const slots = accumulateSlots(training);
+
+    heldOut.forEach(target => {
+      const actual = occupancyOf(target.available, target.total);
+      if (actual === null) return;
+
+      const issuedAt = target.t - leadMinutes * MINUTE;
+      const current = sampleAt(lotSamples, issuedAt);
+      const { weekday, hour } = slotOf(target.t);
+      const forecast = forecastLot({
+        vehicle: target.vehicle ?? 'car',
+        total: target.total,
+        current: current ? { available: current.available, t: current.t } : undefined,
+        weekdaySlot: slots.get(`${weekday}-${hour}`),
+        dayTypeSlot: mergeSlots(
+          sameDayTypeWeekdays(weekday)
+            .map(d => slots.get(`${d}-${hour}`))
+            .filter((s): s is SlotStats => !!s)
+        )
+      }, target.t, issuedAt);
+      if (forecast.occupancy === null) return;
+
+      count++;
+      errorSum += Math.abs(forecast.occupancy - actual);
+      const currentOccupancy = current ? occupancyOf(current.available, current.total) : null;
+      persistenceErrorSum += Math.abs((currentOccupancy ?? forecast.occupancy) - actual);
+
+      // Band limits are in spaces/codes; compare in occupancy so both kinds of lot count
+      const lowOcc = occupancyOf(forecast.high, target.total);
+      const highOcc = occupancyOf(forecast.low, target.total);
+      if (lowOcc !== null && highOcc !== null && actual >= lowOcc - 1e-9 && actual <= highOcc + 1e-9) covered++;
+    });
+  });
+
+  return {
+    count,
+    maeOccupancy: count ? errorSum / count : 0,
+    persistenceMaeOccupancy: count ? persistenceErrorSum / count : 0,
+    coverage: count ? covered / count : 0
+  };
+};
@@ -0,0 +1,137 @@
+import { formatNumber, t } from './i18n';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance in metres between two WGS84 points.
+ */
+export const distanceMeters = (a: LatLng, b: LatLng): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Initial compass bearing from `a` to `b`, degrees clockwise from north (0..360).
+ */
+export const bearingDegrees = (a: LatLng, b: LatLng): number => {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000
+    ? t('distance.meters', { value: formatNumber(Math.round(meters)) })
+    : t('distance.kilometers', { value: formatNumber(meters / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+
+// Metres per degree of latitude; a degree of longitude is this times cos(latitude)
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_M;
+
+/**
+ * Bounding box of a circle. The longitude span is the spherical cap's, which
+ * is wider than radius / cos(latitude) away from the equator, so the box holds
+ * every point of the circle and grid queries never miss one on the rim.
+ */
+export const boundsAround = (center: LatLng, radiusMeters: number): Bounds => {
+  const angle = radiusMeters / EARTH_RADIUS_M;
+  const dLat = radiusMeters / METERS_PER_DEGREE;
+  const spread = Math.sin(angle) / Math.cos(toRad(center.lat));
+  const dLng = spread >= 1 ? 180 : (Math.asin(spread) * 180) / Math.PI;
+  return { south: center.lat - dLat, west: center.lng - dLng, north: center.lat + dLat, east: center.lng + dLng };
+};
+
+export interface SpatialIndex<T extends LatLng> {
+  size: number;
+  // Items within `radiusMeters` of `center`, nearest first, with their distances
+  within: (center: LatLng, radiusMeters: number) => Array<{ item: T; distance: number }>;
+}
+
+/**
+ * Uniform grid over lat/lng. Each query only measures the items in cells its
+ * bounding box overlaps, so a 1 km search over the full TPC+NTPC set touches
+ * a few dozen lots instead of thousands. Cells are square at `refLat`.
+ */
+export const createSpatialIndex = <T extends LatLng>(
+  items: T[],
+  cellMeters: number = 500,
+  refLat: number = 25.05
+): SpatialIndex<T> => {
+  const cellLat = cellMeters / METERS_PER_DEGREE;
+  const cellLng = cellMeters / (METERS_PER_DEGREE * Math.cos(toRad(refLat)));
+  const cellOf = (lat: number, lng: number) => [Math.floor(lat / cellLat), Math.floor(lng / cellLng)];
+
+  const cells = new Map<string, T[]>();
+  items.forEach(item => {
+    if (!Number.isFinite(item.lat) || !Number.isFinite(item.lng)) return;
+    const [row, col] = cellOf(item.lat, item.lng);
+    const key = `${row}:${col}`;
+    const members = cells.get(key);
+    if (members) members.push(item);
+    else cells.set(key, [item]);
+  });
+
+  const within = (center: LatLng, radiusMeters: number) => {
+    const box = boundsAround(center, radiusMeters);
+    const [rowMin, colMin] = cellOf(box.south, box.west);
+    const [rowMax, colMax] = cellOf(box.north, box.east);
+    const hits: Array<{ item: T; distance: number }> = [];
+    for (let row = rowMin; row <= rowMax; row++) {
+      for (let col = colMin; col <= colMax; col++) {
+        cells.get(`${row}:${col}`)?.forEach(item => {
+          const distance = distanceMeters(center, item);
+          if (distance <= radiusMeters) hits.push({ item, distance });
+        });
+      }
+    }
+    return hits.sort((a, b) => a.distance - b.distance);
+  };
+
+  return { size: items.length, within };
+};
+
+// GeoJSON rings: [lng, lat] positions, the first ring the outline and the rest holes
+export type PolygonRings = number[][][];
+
+const inRing = (point: LatLng, ring: number[][]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > point.lat !== yj > point.lat && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Even-odd ray cast: inside the outline and outside every hole. Plenty exact
+ * for district outlines at the scale of a parking lot.
+ */
+export const pointInPolygon = (point: LatLng, rings: PolygonRings) =>
+  rings.length > 0 && inRing(point, rings[0]) && !rings.slice(1).some(hole => inRing(point, hole));
+
+export const boundsOfRings = (polygons: PolygonRings[]): Bounds => {
+  const box: Bounds = { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity };
+  polygons.forEach(rings => rings[0]?.forEach(([lng, lat]) => {
+    box.south = Math.min(box.south, lat);
+    box.north = Math.max(box.north, lat);
+    box.west = Math.min(box.west, lng);
+    box.east = Math.max(box.east, lng);
+  }));
+  return box;
+};
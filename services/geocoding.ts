@@ -0,0 +1,41 @@
+import { LatLng } from './geo';
+import { getLocale } from './i18n';
+
+export interface Place extends LatLng {
+  label: string;
+}
+
+// Roughly Taipei + New Taipei; results outside are of no use to the map
+const VIEWBOX = '121.28,25.30,122.01,24.67';
+
+/**
+ * Address / place search against an OSM Nominatim server (the public one by
+ * default, which asks for at most one request a second, so call this on
+ * submit rather than per keystroke).
+ */
+export const geocodeAddress = async (
+  query: string,
+  baseUrl: string = 'https://nominatim.openstreetmap.org',
+  timeoutMs: number = 8000
+): Promise<Place[]> => {
+  const params = new URLSearchParams({
+    q: query,
+    format: 'jsonv2',
+    countrycodes: 'tw',
+    viewbox: VIEWBOX,
+    bounded: '1',
+    limit: '5',
+    'accept-language': getLocale()
+  });
+  const res = await fetch(`${baseUrl.replace(/\/$/, '')}/search?${params}`, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`Nominatim responded ${res.status}`);
+  const json = await res.json();
+  if (!Array.isArray(json)) throw new Error('Nominatim returned an unexpected payload');
+  return json
+    .map((item: { display_name?: string; lat?: string; lon?: string }) => ({
+      label: item.display_name ?? query,
+      lat: parseFloat(item.lat ?? ''),
+      lng: parseFloat(item.lon ?? '')
+    }))
+    .filter(place => Number.isFinite(place.lat) && Number.isFinite(place.lng));
+};
@@ -0,0 +1,223 @@
+import { AvailabilitySample, ParkingLotData, ParkingSourceId, SlotStats, VehicleType } from '../types';
+import { lotKey } from './identity';
+import { VEHICLES, availableOf, capacityOf } from './vehicles';
+import { createDbOpener, requestToPromise, transactionDone } from './idb';
+import { addReading, emptySlot, mergeSlots, sameDayTypeWeekdays, slotOf } from './forecast';
+
+const DB_NAME = 'parking-history';
+const DB_VERSION = 3;
+const STORE = 'samples';
+// Running weekday × hour statistics per lot and vehicle, feeding the forecaster
+const SLOT_STORE = 'slots';
+
+interface SlotRecord extends SlotStats {
+  source: ParkingSourceId;
+  id: string;
+  vehicle: VehicleType;
+  weekday: number;
+  hour: number;
+}
+
+// Keep four weeks so weekday / holiday curves have several days each
+export const RETENTION_DAYS = 28;
+// Unchanged lots are re-recorded at most this often, changed ones on every refresh
+const HEARTBEAT_INTERVAL = 60 * 60 * 1000;
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let lastPrune = 0;
+// Last recorded reading per lot and vehicle, used to skip writing unchanged values
+const lastRecorded = new Map<string, { t: number; available: number }>();
+
+const seriesKey = (source: ParkingSourceId, id: string, vehicle: VehicleType) => `${lotKey(source, id)}:${vehicle}`;
+
+const createSlotStore = (db: IDBDatabase) => {
+  const slots = db.createObjectStore(SLOT_STORE, { keyPath: ['source', 'id', 'vehicle', 'weekday', 'hour'] });
+  slots.createIndex('slot', ['vehicle', 'weekday', 'hour']);
+  return slots;
+};
+
+const openDb = createDbOpener(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { autoIncrement: true });
+    store.createIndex('lot', ['source', 'id', 'vehicle', 't']);
+    store.createIndex('t', 't');
+  } else if (oldVersion < 3) {
+    tagCarSamples(tx);
+  }
+  if (oldVersion < 2) {
+    createSlotStore(db);
+    if (oldVersion >= 1) backfillSlots(tx);
+  } else if (oldVersion < 3) {
+    rekeyCarSlots(db, tx);
+  }
+});
+
+const applyReading = (record: SlotRecord | undefined, sample: AvailabilitySample): SlotRecord | null => {
+  const { weekday, hour } = slotOf(sample.t);
+  const vehicle = sample.vehicle ?? 'car';
+  const next: SlotRecord = record ?? { source: sample.source, id: sample.id, vehicle, weekday, hour, ...emptySlot() };
+  return addReading(next, sample.available, sample.total) ? next : null;
+};
+
+// Samples recorded before vehicle modes were all cars; tag them so the per-vehicle index holds them
+const tagCarSamples = (tx: IDBTransaction) => {
+  const store = tx.objectStore(STORE);
+  store.deleteIndex('lot');
+  store.createIndex('lot', ['source', 'id', 'vehicle', 't']);
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!cursor.value.vehicle) cursor.update({ ...cursor.value, vehicle: 'car' });
+    cursor.continue();
+  };
+};
+
+// Slot statistics are kept longer than samples, so car slots are re-keyed rather than rebuilt
+const rekeyCarSlots = (db: IDBDatabase, tx: IDBTransaction) => {
+  const request = tx.objectStore(SLOT_STORE).getAll();
+  request.onsuccess = () => {
+    const records = request.result as Array<Omit<SlotRecord, 'vehicle'>>;
+    db.deleteObjectStore(SLOT_STORE);
+    const slots = createSlotStore(db);
+    records.forEach(record => slots.put({ ...record, vehicle: 'car' }));
+  };
+};
+
+// Builds slot statistics from samples recorded before the slots store existed
+const backfillSlots = (tx: IDBTransaction) => {
+  const records = new Map<string, SlotRecord>();
+  const request = tx.objectStore(STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      const sample = cursor.value as AvailabilitySample;
+      const { weekday, hour } = slotOf(sample.t);
+      const key = `${seriesKey(sample.source, sample.id, sample.vehicle ?? 'car')}:${weekday}:${hour}`;
+      const updated = applyReading(records.get(key), sample);
+      if (updated) records.set(key, updated);
+      cursor.continue();
+      return;
+    }
+    const slots = tx.objectStore(SLOT_STORE);
+    records.forEach(record => slots.put(record));
+  };
+};
+
+const pruneExpired = async (db: IDBDatabase, now: number) => {
+  const tx = db.transaction(STORE, 'readwrite');
+  const range = IDBKeyRange.upperBound(now - RETENTION_DAYS * DAY, true);
+  const index = tx.objectStore(STORE).index('t');
+  const request = index.openKeyCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    tx.objectStore(STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+/**
+ * Records one refresh worth of availability, one sample per lot and vehicle
+ * type. Unknown availability (-9, or a vehicle the lot does not report) is
+ * skipped, unchanged readings are only written once per heartbeat, and
+ * samples older than RETENTION_DAYS are pruned periodically.
+ */
+export const recordSnapshot = async (lots: ParkingLotData[], now: number = Date.now()) => {
+  const db = await openDb();
+
+  const samples: AvailabilitySample[] = [];
+  lots.forEach(lot => VEHICLES.forEach(({ type: vehicle }) => {
+    const available = availableOf(lot, vehicle);
+    if (available === -9) return;
+    const last = lastRecorded.get(seriesKey(lot.source, lot.id, vehicle));
+    if (last && last.available === available && now - last.t < HEARTBEAT_INTERVAL) return;
+    samples.push({ source: lot.source, id: lot.id, vehicle, t: now, available, total: capacityOf(lot, vehicle) });
+  }));
+
+  if (samples.length > 0) {
+    const tx = db.transaction([STORE, SLOT_STORE], 'readwrite');
+    const store = tx.objectStore(STORE);
+    const slots = tx.objectStore(SLOT_STORE);
+    samples.forEach(sample => {
+      store.add(sample);
+      const { weekday, hour } = slotOf(sample.t);
+      const request = slots.get([sample.source, sample.id, sample.vehicle, weekday, hour]);
+      request.onsuccess = () => {
+        const updated = applyReading(request.result, sample);
+        if (updated) slots.put(updated);
+      };
+    });
+    await transactionDone(tx);
+    samples.forEach(s => lastRecorded.set(seriesKey(s.source, s.id, s.vehicle ?? 'car'), { t: s.t, available: s.available }));
+  }
+
+  if (now - lastPrune > PRUNE_INTERVAL) {
+    lastPrune = now;
+    await pruneExpired(db, now);
+  }
+};
+
+/**
+ * Returns the recorded samples for one lot and vehicle type since `since`, oldest first.
+ */
+export const getLotHistory = async (
+  source: ParkingSourceId,
+  id: string,
+  vehicle: VehicleType,
+  since: number = Date.now() - RETENTION_DAYS * DAY
+): Promise<AvailabilitySample[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const range = IDBKeyRange.bound([source, id, vehicle, since], [source, id, vehicle, Infinity]);
+  return requestToPromise(tx.objectStore(STORE).index('lot').getAll(range) as IDBRequest<AvailabilitySample[]>);
+};
+
+export interface LotSlotStats {
+  weekdaySlot?: SlotStats;
+  dayTypeSlot?: SlotStats;
+}
+
+/**
+ * Seasonal statistics for every lot's `vehicle` spaces at the weekday / hour
+ * of `t`, keyed by `${source}:${id}`. Slot statistics are kept for all time;
+ * only raw samples are subject to RETENTION_DAYS.
+ */
+export const getSlotStatsAt = async (t: number, vehicle: VehicleType): Promise<Map<string, LotSlotStats>> => {
+  const db = await openDb();
+  const { weekday, hour } = slotOf(t);
+  const tx = db.transaction(SLOT_STORE, 'readonly');
+  const index = tx.objectStore(SLOT_STORE).index('slot');
+
+  const perDay = await Promise.all(
+    sameDayTypeWeekdays(weekday).map(day =>
+      requestToPromise(index.getAll([vehicle, day, hour]) as IDBRequest<SlotRecord[]>)
+    )
+  );
+
+  const dayType = new Map<string, SlotStats[]>();
+  const result = new Map<string, LotSlotStats>();
+  perDay.flat().forEach(record => {
+    const key = lotKey(record.source, record.id);
+    const entry = result.get(key) ?? {};
+    if (record.weekday === weekday) entry.weekdaySlot = record;
+    result.set(key, entry);
+    dayType.set(key, [...(dayType.get(key) ?? []), record]);
+  });
+  dayType.forEach((slots, key) => {
+    result.get(key)!.dayTypeSlot = mergeSlots(slots);
+  });
+  return result;
+};
+
+export const clearHistory = async () => {
+  const db = await openDb();
+  const tx = db.transaction([STORE, SLOT_STORE], 'readwrite');
+  tx.objectStore(STORE).clear();
+  tx.objectStore(SLOT_STORE).clear();
+  await transactionDone(tx);
+  lastRecorded.clear();
+};
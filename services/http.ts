@@ -0,0 +1,97 @@
+import { Transport } from '../types';
+
+/**
+ * Multiple CORS Proxies for redundancy
+ * Primary: corsproxy.io (Fast & Reliable)
+ * Secondary: allorigins (Standard)
+ */
+const PROXIES = [
+  { name: 'corsproxy.io', build: (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}` },
+  { name: 'allorigins', build: (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}` }
+];
+
+export interface FetchedJson {
+  json: any;
+  // Route that produced the response: "direct", a proxy name, "fixture", ...
+  via: string;
+}
+
+/**
+ * Minimal JSON fetcher used by the source adapters. Swapping it out lets the
+ * whole pipeline run against local fixtures instead of the network.
+ */
+export type JsonFetcher = (url: string, transport: Transport) => Promise<FetchedJson>;
+
+// Helper for sleeping (for retry logic)
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const fetchDirect = async (url: string): Promise<FetchedJson> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return { json: await res.json(), via: 'direct' };
+};
+
+// Helper to fetch data with multiple proxies and retries
+export const fetchWithRetry = async (url: string, retries = 2): Promise<FetchedJson> => {
+  // Try direct fetch first (some environments might allow it)
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    if (res.ok) return { json: await res.json(), via: 'direct' };
+  } catch (err) {
+    // Continue to proxies
+  }
+
+  // Try each proxy
+  for (const proxy of PROXIES) {
+    const proxyUrl = proxy.build(url);
+    for (let i = 0; i <= retries; i++) {
+      try {
+        const res = await fetch(proxyUrl, { signal: AbortSignal.timeout(8000) });
+        if (res.ok) {
+          const text = await res.text();
+          try {
+            return { json: JSON.parse(text), via: proxy.name };
+          } catch (e) {
+            console.warn("Proxy returned non-JSON content", url);
+            break; // Try next proxy
+          }
+        }
+      } catch (err) {
+        if (i === retries) console.error(`Failed to fetch via proxy after ${retries} retries: ${proxyUrl}`, err);
+        else await sleep(500 * (i + 1)); // Exponential backoff
+      }
+    }
+  }
+
+  throw new Error(`Unable to fetch data from ${url} even with proxies.`);
+};
+
+/**
+ * Default network fetcher used in the browser.
+ */
+export const networkFetcher: JsonFetcher = (url, transport) =>
+  transport === 'direct' ? fetchDirect(url) : fetchWithRetry(url);
+
+/**
+ * Builds a fetcher that answers from an in-memory URL → JSON table, e.g. JSON
+ * fixture files. Cache-busting params (`_t`) are ignored when matching, and an
+ * unknown paginated URL resolves to `[]` so pagination terminates naturally.
+ */
+export const createFixtureFetcher = (fixtures: Record<string, unknown>): JsonFetcher => {
+  const normalize = (url: string) => {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('_t');
+    parsed.searchParams.sort();
+    return parsed.toString();
+  };
+
+  const table = new Map<string, unknown>();
+  Object.entries(fixtures).forEach(([url, json]) => table.set(normalize(url), json));
+
+  return async (url) => {
+    const key = normalize(url);
+    if (table.has(key)) return { json: table.get(key), via: 'fixture' };
+    if (new URL(url).searchParams.has('page')) return { json: [], via: 'fixture' };
+    throw new Error(`No fixture registered for ${url}`);
+  };
+};
@@ -0,0 +1,293 @@
+import { Messages } from './zh-TW';
+
+export const en: Messages = {
+  'locale.label': 'Language',
+  'list.separator': ', ',
+
+  'app.title': 'Taipei & New Taipei Live Parking',
+  'app.sources': 'Sources: {sources}',
+  'app.lastUpdated': 'Last updated: ',
+  'app.updating': 'Updating...',
+  'app.loadedCount': '{count} lots loaded',
+  'app.shownCount': ', {count} shown',
+  'app.favorites': '⭐ My lots',
+  'app.nearby': '🎯 Near a destination',
+  'app.districts': '🏙️ Districts',
+  'app.driving': '🚗 Driving mode',
+  'app.export': '📤 Export',
+  'app.offlineMaps': '🗺️ Offline maps',
+  'app.showFilters': '🔍 Search & filter',
+  'app.hideFilters': '🔍 Hide filters',
+  'app.locating': 'Locating...',
+  'app.locateMe': 'My location',
+  'app.refresh': 'Refresh',
+  'app.staleTitle': 'Data not updated: ',
+  'app.offlineTitle': 'Offline: ',
+  'app.staleBody': 'Showing data from {age} ago ({time}); free spaces may have changed.',
+  'app.overlayNote': 'Dashed rings show the snapshot from {time}',
+  'app.errorTitle': 'Error: ',
+  'app.yourLocation': 'You are here',
+
+  'error.loadFailed': 'Could not load parking data. Please try again later.',
+  'error.noData': 'No parking data is available. Check your network connection or the API status.',
+
+  'age.minutes': '{count} min',
+  'age.hours': '{count} h',
+  'age.days': '{count} days',
+
+  'legend.title': 'Free spaces',
+  'legend.plenty': '-11/Plenty: plenty of spaces left',
+  'legend.limited': '-12/Limited: less than half left',
+  'legend.full': '-13/Full: almost no spaces left',
+  'legend.unknown': '-9: not provided / unknown',
+  'legend.note': 'Pin numbers are free spaces, coloured by the share left. Round pins are surface lots, square pins are multi-storey. Zoom in to see each entrance.',
+
+  'availability.unavailable': 'Not provided',
+  'availability.plenty': 'Plenty of spaces',
+  'availability.limited': 'Less than half left',
+  'availability.full': 'Almost full',
+  'availability.unknown': 'Unknown',
+  'availability.count': '{count} spaces',
+
+  'distance.meters': '{value} m',
+  'distance.kilometers': '{value} km',
+  'duration.minutes': '{minutes} min',
+  'duration.hoursMinutes': '{hours} h {minutes} min',
+
+  'vehicle.car': 'Car',
+  'vehicle.motor': 'Scooter',
+  'vehicle.bike': 'Bicycle',
+
+  'source.TPC': 'Taipei',
+  'source.NTPC': 'New Taipei',
+  'attribution.TPC': 'Taipei City Government Open Data',
+  'attribution.NTPC': 'New Taipei City Government Open Data',
+
+  'amenity.Handicap_First': 'Accessible bays',
+  'amenity.Pregnancy_First': 'Family bays',
+  'amenity.AED_Equipment': 'AED',
+  'amenity.Phone_Charge': 'Phone charging',
+  'amenity.Child_Pickup_Area': 'Pick-up area',
+  'amenity.Accessibility_Elevator': 'Accessible lift',
+  'amenity.CellSignal_Enhancement': 'Mobile signal booster',
+  'amenity.Taxi_OneHR_Free': 'Taxis free for 1 h',
+
+  'filters.search': 'Search name, address or district',
+  'filters.minFree': 'At least',
+  'filters.spacesUnit': 'free',
+  'filters.sort': 'Sort',
+  'filters.noLocation': 'Your location is not known yet, so lots cannot be sorted by distance.',
+  'filters.matchCount': '{count} lots match',
+  'filters.listedCount': ', first {count} listed',
+  'filters.district': 'District: {district}',
+  'sort.none': 'Default',
+  'sort.distance': 'Distance',
+  'sort.available': 'Free spaces',
+  'sort.fare': 'Cost for {hours} h',
+  'lotType.planar': 'Surface',
+  'lotType.tower': 'Multi-storey',
+
+  'forecast.live': 'Live',
+  'forecast.predict': 'Forecast',
+  'forecast.placeholder': 'in 30 min / Sat 14:00',
+  'forecast.invalid': 'Time not recognised',
+  'forecast.arrival': 'Arriving {time}',
+  'forecast.preset15': 'in 15 min',
+  'forecast.preset30': 'in 30 min',
+  'forecast.preset60': 'in 1 hour',
+  'forecast.at': 'Forecast ({time})',
+  'forecast.range': '(about {low}–{high})',
+  'forecast.methodNone': 'No history to forecast from',
+  'forecast.methodPersistence': 'Not enough history; based on current conditions',
+  'forecast.methodSamples': 'Based on {count} past readings',
+
+  'popup.addFavorite': 'Add to my lots',
+  'popup.removeFavorite': 'Remove from my lots',
+  'popup.details': 'Details',
+  'popup.entrances': '{count} entrances: {list}',
+  'popup.noAddress': 'No address given',
+  'popup.capacity': '{vehicle} spaces',
+  'popup.available': 'Free spaces',
+  'popup.noLiveForVehicle': 'Live counts not provided ({vehicle}); capacity only',
+  'popup.fareUnparsed': 'Fare could not be read',
+  'popup.fareEstimated': ' (estimate; fare only partly understood)',
+  'popup.stayCost': 'About NT${cost} for {hours} h{note}',
+
+  'fare.allDay': 'All day',
+  'fare.rate': 'NT${rate}/{unit}',
+  'fare.unitHour': 'h',
+  'fare.unitHalfHour': '30 min',
+  'fare.unitEntry': 'entry',
+
+  'detail.operatorPublic': 'Run by the city parking office',
+  'detail.operatorPrivate': 'Privately run',
+  'detail.spaces': 'Spaces',
+  'detail.updatedAt': 'Counts updated {time}',
+  'detail.hours': 'Opening hours',
+  'detail.openNow': 'Open now',
+  'detail.closedNow': 'Closed now',
+  'detail.hoursUnknown': 'Cannot tell if open',
+  'detail.allDay': '24 hours',
+  'detail.workingDay': 'Weekdays',
+  'detail.holiday': 'Weekends & holidays',
+  'detail.everyDay': 'Every day',
+  'detail.hoursUnparsed': 'Hours could not be read; as published:',
+  'detail.phone': 'Phone',
+  'detail.fares': 'Fares',
+  'detail.firstHour': 'First hour NT${rate}',
+  'detail.dailyCap': 'Daily maximum NT${cap}',
+  'detail.fareUnparsed': 'Fare text not understood: {text}',
+  'detail.amenities': 'Amenities',
+  'detail.amenityCount': '{count} bays',
+  'detail.entrances': 'Entrances',
+  'detail.mainEntrance': 'Only the lot position is given',
+  'detail.summary': 'About',
+  'detail.notProvided': 'Not provided',
+  'detail.mergedFrom': 'Merged from: {lots}',
+  'detail.missing': '{source} does not provide: {sections}',
+
+  'cluster.lots': '{count} lots',
+  'cluster.free': ', {count} free',
+  'entrance.label': 'Entrance {n}',
+  'entrance.labelWithAddress': 'Entrance {n}: {address}',
+
+  'route.walk': '🚶 Walk',
+  'route.drive': '🚗 Drive',
+  'route.navigateHere': 'Navigate here:',
+  'route.clear': 'Clear route',
+  'route.needLocation': 'Your location is needed to plan a route',
+  'route.planning': 'Planning route...',
+  'route.estimated': ' (straight-line estimate)',
+  'route.destination': 'Destination: {address}',
+  'route.arrivalForecast': 'Expected on arrival ({time}): ',
+  'route.arrivalFull': '⚠️ The lot may be full when you arrive; consider a backup',
+  'route.arrivalLimited': '⚠️ Few spaces may be left when you arrive; consider a backup',
+  'route.noLocation': 'Your location is not known yet. Press "My location" first.',
+  'route.failed': 'Could not plan a route. Try an external navigation app.',
+  'route.summary': '{distance} · about {duration}',
+  'nav.googleMaps': 'Google Maps',
+  'nav.appleMaps': 'Apple Maps',
+
+  'health.ok': 'OK',
+  'health.partial': 'Incomplete',
+  'health.stale': 'Out of date',
+  'health.failed': 'Unreachable',
+  'health.summary': '{source}: {status}',
+  'health.records': '{count} lots (descriptions {descRecords} rows / {descPages} pages, live {availRecords} rows / {availPages} pages)',
+  'health.route': 'Via: {via}, took {ms} ms',
+  'health.time': 'Data time: {upstream}, loaded at {loaded}',
+  'health.notProvided': 'not provided',
+  'health.cached': 'Descriptions from the cache downloaded at {time}',
+  'health.error': 'Error: {error}',
+  'health.sourceStatus': '{source} {status}',
+  'health.warning': '⚠️ {sources}; some lots may be missing or their counts out of date',
+
+  'tiles.title': 'Download offline map',
+  'tiles.noDistricts': 'Districts can be chosen once parking data has loaded.',
+  'tiles.chooseDistrict': 'Choose a district',
+  'tiles.maxZoom': 'Max zoom',
+  'tiles.count': '{count} tiles',
+  'tiles.tooMany': ', over the {max} limit; lower the zoom level',
+  'tiles.cancel': 'Cancel',
+  'tiles.download': 'Download',
+  'tiles.cancelled': 'Download cancelled.',
+  'tiles.doneWithFailures': 'Done; {count} tiles failed to download.',
+  'tiles.done': 'Offline map for {district} is ready.',
+  'tiles.failed': 'Download failed: {error}',
+
+  'favorites.title': 'My lots',
+  'favorites.notificationsBlocked': 'Notifications are blocked in this browser, so alerts will not show.',
+  'favorites.notificationsUnsupported': 'This browser does not support notifications.',
+  'favorites.empty': 'Press ☆ in a lot popup to add it here.',
+  'favorites.missing': 'This lot is not in the current data',
+  'favorites.alerts': '🔔 Alerts',
+  'favorites.delete': 'Delete',
+  'favorites.ruleBelow': 'Fewer than',
+  'favorites.ruleUnit': 'free',
+  'favorites.ruleStatus': 'Status becomes',
+  'favorites.ruleOnly': 'Only between',
+  'favorites.addRule': 'Add alert',
+
+  'nearby.title': 'Parking near a destination',
+  'nearby.addressPlaceholder': 'Address or landmark',
+  'nearby.search': 'Search',
+  'nearby.searching': 'Searching...',
+  'nearby.noPlaces': 'Nothing found for "{query}"',
+  'nearby.geocodeFailed': 'Address search failed: {error}',
+  'nearby.pick': '📌 Pick on the map',
+  'nearby.picking': 'Click the destination on the map…',
+  'nearby.pinned': 'Picked point',
+  'nearby.within': 'Within',
+  'nearby.byWalk': 'Walking time',
+  'nearby.byDistance': 'Straight-line distance',
+  'nearby.unitMinutes': '{value} min walk',
+  'nearby.rankBy': 'Rank by',
+  'nearby.presetBalanced': 'Balanced',
+  'nearby.presetClosest': 'Closest',
+  'nearby.presetCheapest': 'Cheapest',
+  'nearby.presetSpaces': 'Most spaces',
+  'nearby.hint': 'Search an address or pick a point on the map to rank the lots around it by free spaces, cost and walking distance.',
+  'nearby.center': 'Destination: {label}',
+  'nearby.clear': 'Clear',
+  'nearby.count': '{count} lots within range',
+  'nearby.empty': 'No lots matching the filters within range.',
+  'nearby.score': 'Score {score}',
+
+  'districts.title': '{vehicle} spaces by district',
+  'districts.legend': 'Occupancy:',
+  'districts.noCounts': 'no counts',
+  'districts.loading': 'Loading district boundaries...',
+  'districts.sortOccupancy': 'Busiest first',
+  'districts.sortFree': 'Most free spaces first',
+  'districts.sortLots': 'Most lots first',
+  'districts.statusCount': 'Reports a free-space count',
+  'districts.district': 'District',
+  'districts.capacity': 'Spaces',
+  'districts.free': 'Free',
+  'districts.occupancy': 'Occupancy',
+  'districts.lots': '{count} lots',
+  'districts.empty': 'No lots to summarise yet.',
+  'districts.unassigned': '{count} more lots could not be placed in a district.',
+  'districts.note': 'Free spaces and occupancy only count lots that report a number; lots reporting -11/-12/-13/-9 codes are tallied separately. Click a district to zoom to it and filter the list; click it again to clear.',
+  'districts.tooltip': '{name}: {occupancy} occupied, {free} free, {lots} lots',
+
+  'embed.title': 'Parking availability',
+  'embed.updated': 'Updated {time}',
+  'embed.unconfigured': 'No lots selected: name them with the lot, lots or bbox parameter.',
+  'embed.missing': 'These lots were not found: {lots}',
+
+  'driving.title': '🚗 Driving mode',
+  'driving.waiting': 'Waiting for GPS...',
+  'driving.gpsFailed': 'Location unavailable: {error}',
+  'driving.speed': '{speed} km/h',
+  'driving.exit': 'Exit',
+  'driving.none': 'No lots with free spaces nearby.',
+
+  'watch.below': 'fewer than {count} free spaces',
+  'watch.status': 'status is now "{status}"',
+  'watch.alert': '{name}: {condition} (now {current})',
+  'watch.notificationTitle': 'Parking alert',
+
+  'export.title': 'Export / import',
+  'export.button': 'Export the {count} lots shown',
+  'export.importLabel': 'Load an exported GeoJSON file as a history layer',
+  'export.removeOverlay': 'Remove history layer ({name})',
+  'export.untitled': 'untitled',
+  'export.empty': 'The file has no lots to show.',
+  'export.loaded': 'Loaded {count} lots ({time}).',
+  'export.readFailed': 'Could not read the file: {error}',
+  'export.notGeoJSON': 'The file is not a GeoJSON FeatureCollection.',
+  'export.kmlName': 'Parking snapshot {time}',
+  'export.kmlDescription': 'Snapshot time: {time}\nSources: {sources}',
+  'export.kmlAvailability': 'Free spaces: {value}',
+  'overlay.snapshot': 'Snapshot {time}: {value}',
+
+  'trend.title': 'Occupancy trend',
+  'trend.hour': '{hour}:00',
+  'trend.recent': '━ Last 24 h',
+  'trend.weekday': '┅ Weekdays ({days} days)',
+  'trend.holiday': '┅ Weekends ({days} days)',
+  'trend.failed': 'Could not read history',
+  'trend.loading': 'Loading history...',
+  'trend.empty': 'No history yet'
+};
@@ -0,0 +1,124 @@
+import { MessageKey, Messages, zhTW } from './zh-TW';
+import { en } from './en';
+import { ja } from './ja';
+
+export type { MessageKey, Messages } from './zh-TW';
+
+export type Locale = 'zh-TW' | 'en' | 'ja';
+
+export const CATALOGS: Record<Locale, Messages> = { 'zh-TW': zhTW, en, ja };
+
+// Each option is labelled in its own language so it can be found from any locale
+export const LOCALES: Array<{ id: Locale; label: string }> = [
+  { id: 'zh-TW', label: '中文' },
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+const LOCALE_KEY = 'parking.locale.v1';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in CATALOGS;
+
+/**
+ * Best match for a BCP 47 tag: any Chinese variant maps to zh-TW (the data
+ * is in Traditional Chinese anyway), other languages by their primary subtag.
+ */
+export const matchLocale = (tag: string): Locale | null => {
+  const language = tag.toLowerCase().split('-')[0];
+  if (language === 'zh') return 'zh-TW';
+  return isLocale(language) ? language : null;
+};
+
+/**
+ * The saved choice, else the first supported browser language, else zh-TW.
+ */
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // No storage (private mode, node); fall through to the browser languages
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const tag of languages) {
+    const locale = tag && matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+let current: Locale = DEFAULT_LOCALE;
+
+export const getLocale = () => current;
+
+/**
+ * Switches the module-level locale used by t() and the formatters. The caller
+ * re-renders; this only persists the choice and updates <html lang>.
+ */
+export const setLocale = (locale: Locale, persist = true) => {
+  current = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  if (!persist) return;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (error) {
+    console.warn('Failed to save locale:', error);
+  }
+};
+
+// Placeholder names used by a message, for catalog checks
+export const placeholdersOf = (message: string): string[] =>
+  Array.from(message.matchAll(/\{(\w+)\}/g), m => m[1]).sort();
+
+// All feeds are Taipei-local; show their times the same way wherever the viewer is
+const TIME_ZONE = 'Asia/Taipei';
+
+export interface Translator {
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatTime: (t: number) => string;
+  formatDateTime: (t: number, options?: Intl.DateTimeFormatOptions) => string;
+  formatList: (items: string[]) => string;
+  // Source names and publishers are ours to translate; lot names and addresses are not
+  sourceLabel: (id: string) => string;
+  sourceAttribution: (id: string, fallback?: string) => string;
+}
+
+const bindTranslator = (localeOf: () => Locale): Translator => {
+  /**
+   * Message for `key` with `{name}` placeholders filled. Unknown placeholders
+   * are left in place so they show up during review.
+   */
+  const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+    (CATALOGS[localeOf()][key] ?? zhTW[key] ?? key).replace(/\{(\w+)\}/g, (match, name) =>
+      name in params ? String(params[name]) : match
+    );
+
+  const lookup = (key: string, fallback: string) =>
+    key in zhTW ? t(key as MessageKey) : fallback;
+
+  return {
+    t,
+    formatNumber: (value, options) => new Intl.NumberFormat(localeOf(), options).format(value),
+    formatTime: time => new Date(time).toLocaleTimeString(localeOf(), { hour: '2-digit', minute: '2-digit', timeZone: TIME_ZONE }),
+    formatDateTime: (time, options = { dateStyle: 'short', timeStyle: 'short' }) =>
+      new Date(time).toLocaleString(localeOf(), { ...options, timeZone: TIME_ZONE }),
+    formatList: items => items.join(t('list.separator')),
+    sourceLabel: id => lookup(`source.${id}`, id),
+    sourceAttribution: (id, fallback = id) => lookup(`attribution.${id}`, fallback)
+  };
+};
+
+// t() and the formatters in the module-level locale, following setLocale
+export const pageTranslator = bindTranslator(() => current);
+
+export const { t, formatNumber, formatTime, formatDateTime, formatList, sourceLabel, sourceAttribution } = pageTranslator;
+
+/**
+ * The same, fixed to one locale: for a <parking-widget> with its own `lang`
+ * on a page whose other widgets, or the app, use another.
+ */
+export const translatorFor = (locale: Locale): Translator => bindTranslator(() => locale);
@@ -0,0 +1,293 @@
+import { Messages } from './zh-TW';
+
+export const ja: Messages = {
+  'locale.label': '言語',
+  'list.separator': '、',
+
+  'app.title': '台北・新北 駐車場リアルタイム情報',
+  'app.sources': 'データ提供: {sources}',
+  'app.lastUpdated': '最終更新: ',
+  'app.updating': '更新中...',
+  'app.loadedCount': '{count} か所の駐車場を読み込みました',
+  'app.shownCount': '、{count} か所を表示',
+  'app.favorites': '⭐ マイ駐車場',
+  'app.nearby': '🎯 目的地周辺',
+  'app.districts': '🏙️ 区ごとの状況',
+  'app.driving': '🚗 ドライブモード',
+  'app.export': '📤 エクスポート',
+  'app.offlineMaps': '🗺️ オフライン地図',
+  'app.showFilters': '🔍 検索・絞り込み',
+  'app.hideFilters': '🔍 絞り込みを隠す',
+  'app.locating': '現在地を取得中...',
+  'app.locateMe': '現在地',
+  'app.refresh': '今すぐ更新',
+  'app.staleTitle': 'データ未更新: ',
+  'app.offlineTitle': 'オフライン: ',
+  'app.staleBody': '{age}前のデータ（{time}）を表示しています。空き台数は変わっている可能性があります。',
+  'app.overlayNote': '破線の円は {time} のスナップショットです',
+  'app.errorTitle': 'エラー: ',
+  'app.yourLocation': '現在地',
+
+  'error.loadFailed': '駐車場データを読み込めませんでした。しばらくしてから再度お試しください。',
+  'error.noData': '駐車場データを取得できません。ネットワーク接続または API の状態を確認してください。',
+
+  'age.minutes': '{count} 分',
+  'age.hours': '{count} 時間',
+  'age.days': '{count} 日',
+
+  'legend.title': '空き台数の見方',
+  'legend.plenty': '-11/空きあり: 十分な空きあり',
+  'legend.limited': '-12/混雑: 空きが半分未満',
+  'legend.full': '-13/満車: 空きがほぼなし',
+  'legend.unknown': '-9: 情報なし / 不明',
+  'legend.note': 'ピンの数字は空き台数で、色は空きの割合を示します。丸いピンは平面式、四角いピンは立体式です。拡大すると各入口が表示されます。',
+
+  'availability.unavailable': '情報なし',
+  'availability.plenty': '空きあり',
+  'availability.limited': '空きが半分未満',
+  'availability.full': 'ほぼ満車',
+  'availability.unknown': '不明',
+  'availability.count': '{count} 台',
+
+  'distance.meters': '{value} m',
+  'distance.kilometers': '{value} km',
+  'duration.minutes': '{minutes} 分',
+  'duration.hoursMinutes': '{hours} 時間 {minutes} 分',
+
+  'vehicle.car': '自動車',
+  'vehicle.motor': 'バイク',
+  'vehicle.bike': '自転車',
+
+  'source.TPC': '台北市',
+  'source.NTPC': '新北市',
+  'attribution.TPC': '台北市政府オープンデータ',
+  'attribution.NTPC': '新北市政府オープンデータ',
+
+  'amenity.Handicap_First': '障害者優先',
+  'amenity.Pregnancy_First': '妊婦・子連れ優先',
+  'amenity.AED_Equipment': 'AED',
+  'amenity.Phone_Charge': 'スマホ充電',
+  'amenity.Child_Pickup_Area': '送迎エリア',
+  'amenity.Accessibility_Elevator': 'バリアフリーエレベーター',
+  'amenity.CellSignal_Enhancement': '電波増幅設備',
+  'amenity.Taxi_OneHR_Free': 'タクシー1時間無料',
+
+  'filters.search': '名称・住所・行政区で検索',
+  'filters.minFree': '空き',
+  'filters.spacesUnit': '台以上',
+  'filters.sort': '並べ替え',
+  'filters.noLocation': '現在地が取得できていないため、距離順に並べ替えられません。',
+  'filters.matchCount': '条件に合う駐車場 {count} か所',
+  'filters.listedCount': '、上位 {count} か所を表示',
+  'filters.district': '区: {district}',
+  'sort.none': '標準',
+  'sort.distance': '距離',
+  'sort.available': '空き台数',
+  'sort.fare': '{hours} 時間の料金',
+  'lotType.planar': '平面式',
+  'lotType.tower': '立体式',
+
+  'forecast.live': 'リアルタイム',
+  'forecast.predict': '予測',
+  'forecast.placeholder': '30分後 / 土曜 14:00',
+  'forecast.invalid': '時刻を認識できません',
+  'forecast.arrival': '到着 {time}',
+  'forecast.preset15': '15分後',
+  'forecast.preset30': '30分後',
+  'forecast.preset60': '1時間後',
+  'forecast.at': '予測空き台数 ({time})',
+  'forecast.range': '(約 {low}–{high} 台)',
+  'forecast.methodNone': '予測に使える履歴がありません',
+  'forecast.methodPersistence': '履歴が少ないため現在の状況から推定',
+  'forecast.methodSamples': '過去 {count} 件のデータから推定',
+
+  'popup.addFavorite': 'マイ駐車場に追加',
+  'popup.removeFavorite': 'マイ駐車場から削除',
+  'popup.details': '詳細',
+  'popup.entrances': '入口 {count} か所：{list}',
+  'popup.noAddress': '住所の記載なし',
+  'popup.capacity': '{vehicle}の総台数',
+  'popup.available': '空き台数',
+  'popup.noLiveForVehicle': 'この駐車場は{vehicle}のリアルタイム空き情報がないため、台数のみ表示します',
+  'popup.fareUnparsed': '料金を解析できません',
+  'popup.fareEstimated': '（推定値、料金の一部を解析できません）',
+  'popup.stayCost': '{hours} 時間で約 {cost} 元{note}',
+
+  'fare.allDay': '終日',
+  'fare.rate': '{rate}元/{unit}',
+  'fare.unitHour': '時間',
+  'fare.unitHalfHour': '30分',
+  'fare.unitEntry': '回',
+
+  'detail.operatorPublic': '市駐車管理処の運営',
+  'detail.operatorPrivate': '民間運営',
+  'detail.spaces': '駐車台数',
+  'detail.updatedAt': '空き情報の更新 {time}',
+  'detail.hours': '営業時間',
+  'detail.openNow': '営業中',
+  'detail.closedNow': '営業時間外',
+  'detail.hoursUnknown': '営業中か判断できません',
+  'detail.allDay': '24時間',
+  'detail.workingDay': '平日',
+  'detail.holiday': '土日祝',
+  'detail.everyDay': '毎日',
+  'detail.hoursUnparsed': '営業時間を解析できません。原文:',
+  'detail.phone': '電話',
+  'detail.fares': '料金',
+  'detail.firstHour': '最初の1時間 {rate} 元',
+  'detail.dailyCap': '当日最大 {cap} 元',
+  'detail.fareUnparsed': '解析できない料金説明：{text}',
+  'detail.amenities': '設備',
+  'detail.amenityCount': '{count} 台',
+  'detail.entrances': '入口',
+  'detail.mainEntrance': '駐車場の座標のみ',
+  'detail.summary': '概要',
+  'detail.notProvided': '提供なし',
+  'detail.mergedFrom': '統合元：{lots}',
+  'detail.missing': '{source}のデータにない項目：{sections}',
+
+  'cluster.lots': '駐車場 {count} か所',
+  'cluster.free': '、空き {count} 台',
+  'entrance.label': '入口 {n}',
+  'entrance.labelWithAddress': '入口 {n}：{address}',
+
+  'route.walk': '🚶 徒歩',
+  'route.drive': '🚗 車',
+  'route.navigateHere': 'ここへ案内:',
+  'route.clear': 'ルートを消去',
+  'route.needLocation': 'ルート検索には現在地が必要です',
+  'route.planning': 'ルートを検索中...',
+  'route.estimated': '（直線距離による推定）',
+  'route.destination': '目的地: {address}',
+  'route.arrivalForecast': '到着時 ({time}) の予測: ',
+  'route.arrivalFull': '⚠️ 到着時には満車の可能性があります。別の駐車場もご検討ください',
+  'route.arrivalLimited': '⚠️ 到着時には空きが少ない可能性があります。別の駐車場もご検討ください',
+  'route.noLocation': '現在地が取得できていません。先に「現在地」を押してください。',
+  'route.failed': 'ルートを検索できませんでした。外部のナビアプリをご利用ください。',
+  'route.summary': '{distance}・約 {duration}',
+  'nav.googleMaps': 'Google マップ',
+  'nav.appleMaps': 'Apple マップ',
+
+  'health.ok': '正常',
+  'health.partial': 'データ不完全',
+  'health.stale': 'データが古い',
+  'health.failed': '接続できません',
+  'health.summary': '{source}：{status}',
+  'health.records': '駐車場 {count} 件（概要 {descRecords} 件 / {descPages} ページ、リアルタイム {availRecords} 件 / {availPages} ページ）',
+  'health.route': '接続：{via}、所要 {ms} ms',
+  'health.time': 'データ時刻：{upstream}、読み込み {loaded}',
+  'health.notProvided': '提供なし',
+  'health.cached': '施設情報は {time} に取得したキャッシュを使用',
+  'health.error': 'エラー：{error}',
+  'health.sourceStatus': '{source}{status}',
+  'health.warning': '⚠️ {sources}。一部の駐車場が表示されないか、空き台数が古い可能性があります',
+
+  'tiles.title': 'オフライン地図をダウンロード',
+  'tiles.noDistricts': '駐車場データの読み込み後に行政区を選べます。',
+  'tiles.chooseDistrict': '行政区を選択',
+  'tiles.maxZoom': '最大ズーム',
+  'tiles.count': 'タイル {count} 枚',
+  'tiles.tooMany': '、上限 {max} を超えています。ズームレベルを下げてください',
+  'tiles.cancel': 'キャンセル',
+  'tiles.download': 'ダウンロード',
+  'tiles.cancelled': 'ダウンロードを中止しました。',
+  'tiles.doneWithFailures': '完了しました。{count} 枚のタイルを取得できませんでした。',
+  'tiles.done': '{district} のオフライン地図をダウンロードしました。',
+  'tiles.failed': 'ダウンロード失敗: {error}',
+
+  'favorites.title': 'マイ駐車場',
+  'favorites.notificationsBlocked': 'ブラウザで通知がブロックされているため、アラートは表示されません。',
+  'favorites.notificationsUnsupported': 'このブラウザは通知に対応していません。',
+  'favorites.empty': '駐車場の情報ウィンドウで ☆ を押すと追加できます。',
+  'favorites.missing': '現在のデータにこの駐車場が見つかりません',
+  'favorites.alerts': '🔔 アラート',
+  'favorites.delete': '削除',
+  'favorites.ruleBelow': '空きが',
+  'favorites.ruleUnit': '台未満',
+  'favorites.ruleStatus': '状態が次に変化',
+  'favorites.ruleOnly': '時間帯',
+  'favorites.addRule': 'アラートを追加',
+
+  'nearby.title': '目的地周辺の駐車場',
+  'nearby.addressPlaceholder': '住所またはランドマーク',
+  'nearby.search': '検索',
+  'nearby.searching': '検索中...',
+  'nearby.noPlaces': '「{query}」は見つかりませんでした',
+  'nearby.geocodeFailed': '住所検索に失敗しました: {error}',
+  'nearby.pick': '📌 地図で指定',
+  'nearby.picking': '地図上の目的地をクリックしてください…',
+  'nearby.pinned': '指定した地点',
+  'nearby.within': '範囲',
+  'nearby.byWalk': '徒歩時間',
+  'nearby.byDistance': '直線距離',
+  'nearby.unitMinutes': '徒歩 {value} 分',
+  'nearby.rankBy': '優先',
+  'nearby.presetBalanced': '総合',
+  'nearby.presetClosest': '近さ',
+  'nearby.presetCheapest': '安さ',
+  'nearby.presetSpaces': '空き台数',
+  'nearby.hint': '住所を検索するか地図上で地点を指定すると、範囲内の駐車場を空き台数・料金・徒歩距離で並べます。',
+  'nearby.center': '目的地：{label}',
+  'nearby.clear': 'クリア',
+  'nearby.count': '範囲内に {count} 件',
+  'nearby.empty': '範囲内に条件に合う駐車場はありません。',
+  'nearby.score': 'スコア {score}',
+
+  'districts.title': '区ごとの{vehicle}駐車枠',
+  'districts.legend': '使用率:',
+  'districts.noCounts': '台数なし',
+  'districts.loading': '区の境界を読み込み中...',
+  'districts.sortOccupancy': '使用率の高い順',
+  'districts.sortFree': '空き台数の多い順',
+  'districts.sortLots': '駐車場数の多い順',
+  'districts.statusCount': '空き台数を提供',
+  'districts.district': '区',
+  'districts.capacity': '総台数',
+  'districts.free': '空き',
+  'districts.occupancy': '使用率',
+  'districts.lots': '{count} か所',
+  'districts.empty': '集計できる駐車場がまだありません。',
+  'districts.unassigned': 'ほかに {count} か所の駐車場は区を特定できませんでした。',
+  'districts.note': '空き台数と使用率は台数を提供する駐車場のみで計算し、-11/-12/-13/-9 のコードは件数として別に表示します。区をクリックすると地図を拡大して一覧を絞り込み、もう一度クリックすると解除します。',
+  'districts.tooltip': '{name}　使用率 {occupancy}・空き {free} 台・{lots} か所',
+
+  'embed.title': '駐車場の空き状況',
+  'embed.updated': '{time} 更新',
+  'embed.unconfigured': '駐車場が指定されていません。lot、lots または bbox パラメータで指定してください。',
+  'embed.missing': '見つからない駐車場: {lots}',
+
+  'driving.title': '🚗 ドライブモード',
+  'driving.waiting': 'GPS の測位を待っています...',
+  'driving.gpsFailed': '位置を取得できません: {error}',
+  'driving.speed': '時速 {speed} km',
+  'driving.exit': '終了',
+  'driving.none': '近くに空きのある駐車場はありません。',
+
+  'watch.below': '空きが {count} 台未満',
+  'watch.status': '状態が「{status}」に変化',
+  'watch.alert': '{name}：{condition}（現在 {current}）',
+  'watch.notificationTitle': '駐車場アラート',
+
+  'export.title': 'エクスポート / インポート',
+  'export.button': '表示中の {count} か所をエクスポート',
+  'export.importLabel': 'エクスポートした GeoJSON を履歴レイヤーとして読み込む',
+  'export.removeOverlay': '履歴レイヤーを削除（{name}）',
+  'export.untitled': '無題',
+  'export.empty': 'ファイルに表示できる駐車場がありません。',
+  'export.loaded': '{count} か所を読み込みました（{time}）。',
+  'export.readFailed': 'ファイルを読み込めません: {error}',
+  'export.notGeoJSON': 'ファイルが GeoJSON FeatureCollection ではありません。',
+  'export.kmlName': '駐車場スナップショット {time}',
+  'export.kmlDescription': 'スナップショット時刻: {time}\nデータ提供: {sources}',
+  'export.kmlAvailability': '空き台数: {value}',
+  'overlay.snapshot': '{time} のスナップショット: {value}',
+
+  'trend.title': '利用率の推移',
+  'trend.hour': '{hour}時',
+  'trend.recent': '━ 直近24時間',
+  'trend.weekday': '┅ 平日 ({days}日間)',
+  'trend.holiday': '┅ 休日 ({days}日間)',
+  'trend.failed': '履歴を読み込めません',
+  'trend.loading': '履歴を読み込み中...',
+  'trend.empty': 'まだ履歴がありません'
+};
@@ -0,0 +1,295 @@
+// Source catalog: every other locale must define exactly these keys (checked by tsc via Messages)
+export const zhTW = {
+  'locale.label': '語言',
+  'list.separator': '、',
+
+  'app.title': '雙北停車場即時資訊',
+  'app.sources': '資料來源: {sources}',
+  'app.lastUpdated': '上次更新: ',
+  'app.updating': '更新中...',
+  'app.loadedCount': '已載入 {count} 個停車場',
+  'app.shownCount': '，顯示 {count} 個',
+  'app.favorites': '⭐ 我的停車場',
+  'app.nearby': '🎯 目的地附近',
+  'app.districts': '🏙️ 行政區概況',
+  'app.driving': '🚗 行車模式',
+  'app.export': '📤 匯出',
+  'app.offlineMaps': '🗺️ 離線地圖',
+  'app.showFilters': '🔍 搜尋篩選',
+  'app.hideFilters': '🔍 隱藏篩選',
+  'app.locating': '定位中...',
+  'app.locateMe': '我的位置',
+  'app.refresh': '立即更新',
+  'app.staleTitle': '資料未更新: ',
+  'app.offlineTitle': '離線模式: ',
+  'app.staleBody': '顯示 {age}前的資料（{time}），車位數可能已變動。',
+  'app.overlayNote': '虛線圈為 {time} 的快照',
+  'app.errorTitle': '錯誤: ',
+  'app.yourLocation': '您的目前位置',
+
+  'error.loadFailed': '無法讀取停車場資料，請稍後再試。',
+  'error.noData': '無法取得任何停車場資料，請檢查網路連線或 API 狀態。',
+
+  'age.minutes': '{count} 分鐘',
+  'age.hours': '{count} 小時',
+  'age.days': '{count} 天',
+
+  'legend.title': '剩餘車位說明',
+  'legend.plenty': '-11/足夠: 剩餘格位足夠',
+  'legend.limited': '-12/普通: 剩餘格位不足半數',
+  'legend.full': '-13/滿位: 剩餘格數不足',
+  'legend.unknown': '-9: 無法提供/資訊不明',
+  'legend.note': '圖釘上的數字為剩餘格數，顏色依剩餘比例標示；圓頭為平面式、方頭為立體式停車場。放大地圖可看到各入口位置。',
+
+  'availability.unavailable': '無法提供',
+  'availability.plenty': '剩餘格位足夠',
+  'availability.limited': '剩餘格位不足半數',
+  'availability.full': '剩餘格數不足',
+  'availability.unknown': '資訊不明',
+  'availability.count': '{count} 格',
+
+  'distance.meters': '{value} 公尺',
+  'distance.kilometers': '{value} 公里',
+  'duration.minutes': '{minutes} 分鐘',
+  'duration.hoursMinutes': '{hours} 小時 {minutes} 分',
+
+  'vehicle.car': '汽車',
+  'vehicle.motor': '機車',
+  'vehicle.bike': '自行車',
+
+  'source.TPC': '臺北市',
+  'source.NTPC': '新北市',
+  'attribution.TPC': '臺北市政府資料開放平台',
+  'attribution.NTPC': '新北市政府資料開放平台',
+
+  'amenity.Handicap_First': '身障優先',
+  'amenity.Pregnancy_First': '婦幼優先',
+  'amenity.AED_Equipment': 'AED',
+  'amenity.Phone_Charge': '手機充電',
+  'amenity.Child_Pickup_Area': '接送區',
+  'amenity.Accessibility_Elevator': '無障礙電梯',
+  'amenity.CellSignal_Enhancement': '手機訊號加強',
+  'amenity.Taxi_OneHR_Free': '計程車停車1小時免費',
+
+  'filters.search': '搜尋名稱、地址或行政區',
+  'filters.minFree': '至少剩餘',
+  'filters.spacesUnit': '格',
+  'filters.sort': '排序',
+  'filters.noLocation': '尚未取得您的位置，無法依距離排序。',
+  'filters.matchCount': '符合條件 {count} 個停車場',
+  'filters.listedCount': '，列出前 {count} 個',
+  'filters.district': '行政區: {district}',
+  'sort.none': '預設',
+  'sort.distance': '距離',
+  'sort.available': '剩餘車位',
+  'sort.fare': '停 {hours} 小時費用',
+  'lotType.planar': '平面式',
+  'lotType.tower': '立體式',
+
+  'forecast.live': '即時',
+  'forecast.predict': '預測',
+  'forecast.placeholder': '30分鐘後 / 週六 14:00',
+  'forecast.invalid': '無法辨識時間',
+  'forecast.arrival': '抵達 {time}',
+  'forecast.preset15': '15分鐘後',
+  'forecast.preset30': '30分鐘後',
+  'forecast.preset60': '1小時後',
+  'forecast.at': '預測剩餘 ({time})',
+  'forecast.range': '(約 {low}–{high} 格)',
+  'forecast.methodNone': '無歷史資料可供預測',
+  'forecast.methodPersistence': '歷史資料不足，依目前狀況推估',
+  'forecast.methodSamples': '依 {count} 筆歷史資料推估',
+
+  'popup.addFavorite': '加入我的停車場',
+  'popup.removeFavorite': '取消收藏',
+  'popup.details': '詳細資訊',
+  'popup.entrances': '{count} 個入口：{list}',
+  'popup.noAddress': '未提供地址',
+  'popup.capacity': '{vehicle}總格數',
+  'popup.available': '剩餘車位',
+  'popup.noLiveForVehicle': '此停車場未提供{vehicle}即時車位，僅顯示格數',
+  'popup.fareUnparsed': '無法解析費率',
+  'popup.fareEstimated': ' (估計值，費率未完全解析)',
+  'popup.stayCost': '停 {hours} 小時約 {cost} 元{note}',
+
+  'fare.allDay': '全日',
+  'fare.rate': '{rate}元/{unit}',
+  'fare.unitHour': '時',
+  'fare.unitHalfHour': '半小時',
+  'fare.unitEntry': '次',
+
+  'detail.operatorPublic': '停管處經營',
+  'detail.operatorPrivate': '非停管處經營',
+  'detail.spaces': '車位',
+  'detail.updatedAt': '車位更新於 {time}',
+  'detail.hours': '營業時間',
+  'detail.openNow': '營業中',
+  'detail.closedNow': '目前未營業',
+  'detail.hoursUnknown': '無法判斷是否營業',
+  'detail.allDay': '24 小時',
+  'detail.workingDay': '平日',
+  'detail.holiday': '假日',
+  'detail.everyDay': '每日',
+  'detail.hoursUnparsed': '無法解析營業時間，原文如下',
+  'detail.phone': '電話',
+  'detail.fares': '收費',
+  'detail.firstHour': '首小時 {rate} 元',
+  'detail.dailyCap': '當日最高 {cap} 元',
+  'detail.fareUnparsed': '無法解析的費率說明：{text}',
+  'detail.amenities': '設施',
+  'detail.amenityCount': '{count} 格',
+  'detail.entrances': '入口',
+  'detail.mainEntrance': '僅提供停車場座標',
+  'detail.summary': '簡介',
+  'detail.notProvided': '未提供',
+  'detail.mergedFrom': '合併自：{lots}',
+  'detail.missing': '{source}未提供：{sections}',
+
+  'cluster.lots': '{count} 個停車場',
+  'cluster.free': '，剩餘 {count} 格',
+  'entrance.label': '入口 {n}',
+  'entrance.labelWithAddress': '入口 {n}：{address}',
+
+  'route.walk': '🚶 步行',
+  'route.drive': '🚗 開車',
+  'route.navigateHere': '導航至此:',
+  'route.clear': '清除路線',
+  'route.needLocation': '需要您的位置才能規劃路線',
+  'route.planning': '規劃路線中...',
+  'route.estimated': '（直線估算）',
+  'route.destination': '目的地: {address}',
+  'route.arrivalForecast': '抵達時 ({time}) 預估: ',
+  'route.arrivalFull': '⚠️ 抵達時可能已滿位，建議備選其他停車場',
+  'route.arrivalLimited': '⚠️ 抵達時車位可能不多，建議備選其他停車場',
+  'route.noLocation': '尚未取得您的位置，請先按「我的位置」。',
+  'route.failed': '無法規劃路線，請改用外部導航。',
+  'route.summary': '{distance}・約 {duration}',
+  'nav.googleMaps': 'Google 地圖',
+  'nav.appleMaps': 'Apple 地圖',
+
+  'health.ok': '正常',
+  'health.partial': '資料不完整',
+  'health.stale': '資料過舊',
+  'health.failed': '無法連線',
+  'health.summary': '{source}：{status}',
+  'health.records': '停車場 {count} 筆（說明 {descRecords} 筆 / {descPages} 頁，即時 {availRecords} 筆 / {availPages} 頁）',
+  'health.route': '連線：{via}，耗時 {ms} ms',
+  'health.time': '資料時間：{upstream}，載入於 {loaded}',
+  'health.notProvided': '未提供',
+  'health.cached': '說明資料沿用 {time} 下載的快取',
+  'health.error': '錯誤：{error}',
+  'health.sourceStatus': '{source}{status}',
+  'health.warning': '⚠️ {sources}，部分停車場可能未顯示或車位數已變動',
+
+  'tiles.title': '下載離線地圖',
+  'tiles.noDistricts': '載入停車場資料後即可選擇行政區。',
+  'tiles.chooseDistrict': '選擇行政區',
+  'tiles.maxZoom': '最大縮放',
+  'tiles.count': '共 {count} 張圖磚',
+  'tiles.tooMany': '，超過上限 {max}，請降低縮放等級',
+  'tiles.cancel': '取消',
+  'tiles.download': '下載',
+  'tiles.cancelled': '已取消下載。',
+  'tiles.doneWithFailures': '完成，{count} 張圖磚下載失敗。',
+  'tiles.done': '{district} 離線地圖已下載完成。',
+  'tiles.failed': '下載失敗: {error}',
+
+  'favorites.title': '我的停車場',
+  'favorites.notificationsBlocked': '瀏覽器已封鎖通知，提醒將無法顯示。',
+  'favorites.notificationsUnsupported': '此瀏覽器不支援通知。',
+  'favorites.empty': '在停車場資訊視窗中按 ☆ 即可加入。',
+  'favorites.missing': '目前資料中找不到此停車場',
+  'favorites.alerts': '🔔 提醒',
+  'favorites.delete': '刪除',
+  'favorites.ruleBelow': '剩餘少於',
+  'favorites.ruleUnit': '格',
+  'favorites.ruleStatus': '狀態變為',
+  'favorites.ruleOnly': '只在',
+  'favorites.addRule': '新增提醒',
+
+  'nearby.title': '目的地附近的停車場',
+  'nearby.addressPlaceholder': '輸入地址或地標',
+  'nearby.search': '搜尋',
+  'nearby.searching': '搜尋中...',
+  'nearby.noPlaces': '找不到「{query}」',
+  'nearby.geocodeFailed': '地址搜尋失敗: {error}',
+  'nearby.pick': '📌 在地圖上選點',
+  'nearby.picking': '請點選地圖上的目的地…',
+  'nearby.pinned': '地圖上的選點',
+  'nearby.within': '範圍',
+  'nearby.byWalk': '步行時間',
+  'nearby.byDistance': '直線距離',
+  'nearby.unitMinutes': '步行 {value} 分鐘',
+  'nearby.rankBy': '排序偏好',
+  'nearby.presetBalanced': '綜合',
+  'nearby.presetClosest': '距離最近',
+  'nearby.presetCheapest': '費用最低',
+  'nearby.presetSpaces': '空位最多',
+  'nearby.hint': '搜尋地址或在地圖上選點，即可依空位、費用與步行距離排序範圍內的停車場。',
+  'nearby.center': '目的地: {label}',
+  'nearby.clear': '清除',
+  'nearby.count': '範圍內共 {count} 個停車場',
+  'nearby.empty': '範圍內沒有符合篩選條件的停車場。',
+  'nearby.score': '評分 {score}',
+
+  'districts.title': '各行政區{vehicle}車位',
+  'districts.legend': '使用率:',
+  'districts.noCounts': '無格數',
+  'districts.loading': '載入行政區界線中...',
+  'districts.sortOccupancy': '使用率高到低',
+  'districts.sortFree': '剩餘格數多到少',
+  'districts.sortLots': '停車場數多到少',
+  'districts.statusCount': '提供剩餘格數',
+  'districts.district': '行政區',
+  'districts.capacity': '總格數',
+  'districts.free': '剩餘',
+  'districts.occupancy': '使用率',
+  'districts.lots': '{count} 場',
+  'districts.empty': '目前沒有可統計的停車場。',
+  'districts.unassigned': '另有 {count} 個停車場無法對應到行政區。',
+  'districts.note': '剩餘與使用率只計入提供剩餘格數的停車場；-11/-12/-13/-9 代碼另列件數。點選行政區可放大地圖並篩選清單，再點一次取消。',
+  'districts.tooltip': '{name}　使用率 {occupancy}・剩餘 {free} 格・{lots} 場',
+
+  'embed.title': '停車場即時空位',
+  'embed.updated': '{time} 更新',
+  'embed.unconfigured': '尚未指定停車場：請以 lot、lots 或 bbox 參數指定要顯示的停車場。',
+  'embed.missing': '找不到這些停車場: {lots}',
+
+  'driving.title': '🚗 行車模式',
+  'driving.waiting': '等待 GPS 定位...',
+  'driving.gpsFailed': '無法取得位置: {error}',
+  'driving.speed': '時速 {speed} 公里',
+  'driving.exit': '結束',
+  'driving.none': '附近沒有尚有空位的停車場。',
+
+  'watch.below': '剩餘車位少於 {count} 格',
+  'watch.status': '狀態變為「{status}」',
+  'watch.alert': '{name}：{condition}（目前 {current}）',
+  'watch.notificationTitle': '停車場提醒',
+
+  'export.title': '匯出 / 匯入',
+  'export.button': '匯出目前顯示的 {count} 個停車場',
+  'export.importLabel': '載入先前匯出的 GeoJSON 作為歷史圖層',
+  'export.removeOverlay': '移除歷史圖層（{name}）',
+  'export.untitled': '未命名',
+  'export.empty': '檔案中沒有可顯示的停車場。',
+  'export.loaded': '已載入 {count} 個停車場（{time}）。',
+  'export.readFailed': '無法讀取檔案: {error}',
+  'export.notGeoJSON': '檔案不是 GeoJSON FeatureCollection。',
+  'export.kmlName': '停車場快照 {time}',
+  'export.kmlDescription': '快照時間: {time}\n資料來源: {sources}',
+  'export.kmlAvailability': '剩餘車位: {value}',
+  'overlay.snapshot': '{time} 快照: {value}',
+
+  'trend.title': '使用率趨勢',
+  'trend.hour': '{hour}時',
+  'trend.recent': '━ 近24小時',
+  'trend.weekday': '┅ 平日 ({days}天)',
+  'trend.holiday': '┅ 假日 ({days}天)',
+  'trend.failed': '無法讀取歷史資料',
+  'trend.loading': '載入歷史資料中...',
+  'trend.empty': '尚無歷史資料'
+};
+
+export type MessageKey = keyof typeof zhTW;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,15 @@
+import { ParkingLotData, ParkingSourceId } from '../types';
+
+/**
+ * Ids are only unique within a source, so lots are identified by both.
+ */
+export const lotKey = (source: ParkingSourceId, id: string) => `${source}:${id}`;
+
+export const keyOf = (lot: Pick<ParkingLotData, 'source' | 'id'>) => lotKey(lot.source, lot.id);
+
+/**
+ * Every key a lot answers to: its own, plus those of duplicates from other
+ * sources merged into it, so favourites saved under either still find it.
+ */
+export const keysOf = (lot: Pick<ParkingLotData, 'source' | 'id' | 'provenance'>): string[] =>
+  lot.provenance ? lot.provenance.map(p => lotKey(p.source, p.id)) : [keyOf(lot)];
@@ -0,0 +1,148 @@
+import { ParkingLotData, ParkingLotDesc } from '../types';
+import { isHoliday, toTaipeiTime } from './trends';
+import { MessageKey } from './i18n';
+import { entrancesOf } from './entrances';
+import { clauseDayTypes, parsePeriods, splitClauses } from './fares';
+
+const FULL_DAY = 24 * 60;
+
+const ALL_DAY_PATTERN = /24\s*(?:小時|hr|h)|全天|全日|不打烊/i;
+
+export interface OpeningRange {
+  start: number; // minutes after midnight
+  end: number;   // minutes after midnight; <= start for ranges past midnight
+}
+
+export interface OpeningHours {
+  // 'missing' when the source gives no serviceTime, 'unparsed' when it gives text we cannot read
+  status: 'parsed' | 'unparsed' | 'missing';
+  workingDay: OpeningRange[];
+  holiday: OpeningRange[];
+  raw: string;
+}
+
+/**
+ * Parses a serviceTime text clause by clause. A clause naming 平日 / 假日
+ * applies to that day type only; anything else applies to both. "23:59" (and
+ * "23:59:59") as an end time means midnight, so a 00:00–23:59 lot reads as
+ * open around the clock.
+ */
+export const parseServiceTime = (text: string | undefined): OpeningHours => {
+  const raw = (text ?? '').trim();
+  const hours: OpeningHours = { status: 'missing', workingDay: [], holiday: [], raw };
+  if (!raw) return hours;
+
+  splitClauses(raw).forEach(clause => {
+    const ranges: OpeningRange[] = parsePeriods(clause).map(({ start, end }) =>
+      ({ start, end: end === FULL_DAY - 1 ? FULL_DAY : end })
+    );
+    if (ALL_DAY_PATTERN.test(clause)) ranges.unshift({ start: 0, end: FULL_DAY });
+    const days = clauseDayTypes(clause);
+    if (days.workingDay) hours.workingDay.push(...ranges);
+    if (days.holiday) hours.holiday.push(...ranges);
+  });
+
+  hours.status = hours.workingDay.length > 0 || hours.holiday.length > 0 ? 'parsed' : 'unparsed';
+  return hours;
+};
+
+export const isAllDay = (ranges: OpeningRange[]) =>
+  ranges.some(r => r.start === 0 && r.end === FULL_DAY);
+
+const inRange = (range: OpeningRange, minuteOfDay: number) =>
+  range.start < range.end
+    ? minuteOfDay >= range.start && minuteOfDay < range.end
+    : minuteOfDay >= range.start || minuteOfDay < range.end;
+
+// Ranges in effect on the day of `t`, falling back to the other table when only one is published
+export const rangesOn = (hours: OpeningHours, t: number): OpeningRange[] => {
+  const preferred = isHoliday(t) ? hours.holiday : hours.workingDay;
+  return preferred.length > 0 ? preferred : isHoliday(t) ? hours.workingDay : hours.holiday;
+};
+
+/**
+ * Whether the lot is open at `t` (Taipei time); null when the hours are
+ * missing or could not be read. A range that started yesterday and runs past
+ * midnight counts as open.
+ */
+export const isOpenAt = (hours: OpeningHours, t: number = Date.now()): boolean | null => {
+  if (hours.status !== 'parsed') return null;
+  const { hour, minute } = toTaipeiTime(t);
+  return rangesOn(hours, t).some(range => inRange(range, hour * 60 + minute));
+};
+
+export const formatClock = (m: number) =>
+  `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+
+export const formatRange = (range: OpeningRange) => `${formatClock(range.start)}–${formatClock(range.end)}`;
+
+export interface PhoneNumber {
+  display: string;
+  href: string; // tel: URI
+}
+
+/**
+ * Splits a tel field into dialable numbers. Extensions ("#123", "分機123",
+ * "轉123") become a pause in the tel: URI so phones dial them after connecting.
+ */
+export const parsePhoneNumbers = (tel: string | undefined): PhoneNumber[] =>
+  (tel ?? '')
+    .split(/[、,，;；/]|\s{2,}/)
+    .map(part => part.trim())
+    .filter(part => /\d{6,}/.test(part.replace(/\D/g, '')))
+    .map(part => {
+      const [main, extension] = part.split(/#|分機|轉|ext\.?/i);
+      const digits = main.replace(/[^\d+]/g, '');
+      const ext = extension?.replace(/\D/g, '');
+      return { display: part, href: `tel:${digits}${ext ? `,${ext}` : ''}` };
+    });
+
+export type AmenityField = keyof Pick<ParkingLotDesc,
+  | 'Handicap_First'
+  | 'Pregnancy_First'
+  | 'Accessibility_Elevator'
+  | 'AED_Equipment'
+  | 'CellSignal_Enhancement'
+  | 'Phone_Charge'
+  | 'Child_Pickup_Area'
+  | 'Taxi_OneHR_Free'>;
+
+export const LOT_AMENITIES: Array<{ key: AmenityField; icon: string; labelKey: MessageKey }> = [
+  { key: 'Handicap_First', icon: '♿', labelKey: 'amenity.Handicap_First' },
+  { key: 'Pregnancy_First', icon: '🤰', labelKey: 'amenity.Pregnancy_First' },
+  { key: 'Accessibility_Elevator', icon: '🛗', labelKey: 'amenity.Accessibility_Elevator' },
+  { key: 'AED_Equipment', icon: '❤️', labelKey: 'amenity.AED_Equipment' },
+  { key: 'CellSignal_Enhancement', icon: '📶', labelKey: 'amenity.CellSignal_Enhancement' },
+  { key: 'Phone_Charge', icon: '🔌', labelKey: 'amenity.Phone_Charge' },
+  { key: 'Child_Pickup_Area', icon: '🚸', labelKey: 'amenity.Child_Pickup_Area' },
+  { key: 'Taxi_OneHR_Free', icon: '🚕', labelKey: 'amenity.Taxi_OneHR_Free' }
+];
+
+/**
+ * Amenity value for display: null when the source does not report it, 0 when
+ * absent, otherwise 1 for a yes-flag or the number of reserved spaces.
+ */
+export const amenityValue = (lot: ParkingLotData, key: AmenityField): number | null => {
+  const raw = lot[key];
+  if (raw === undefined || raw === null || raw === '') return null;
+  const value = parseInt(String(raw), 10);
+  return isNaN(value) ? null : Math.max(0, value);
+};
+
+export type DetailSection = 'serviceTime' | 'tel' | 'fareTable' | 'amenities' | 'entrances';
+
+/**
+ * Sections the lot's source left empty, so the panel can say what is missing
+ * instead of silently dropping it. NTPC descriptions carry none of tel, fare
+ * tables, amenities or entrances.
+ */
+export const missingSections = (lot: ParkingLotData): DetailSection[] => {
+  const missing: DetailSection[] = [];
+  if (!lot.serviceTime?.trim()) missing.push('serviceTime');
+  if (parsePhoneNumbers(lot.tel).length === 0) missing.push('tel');
+  const fares = lot.FareInfo;
+  if (!fares || (fares.WorkingDay?.length ?? 0) + (fares.Holiday?.length ?? 0) === 0) missing.push('fareTable');
+  if (LOT_AMENITIES.every(a => amenityValue(lot, a.key) === null)) missing.push('amenities');
+  if (entrancesOf(lot).length === 0) missing.push('entrances');
+  return missing;
+};
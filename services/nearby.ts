@@ -0,0 +1,118 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { LatLng, SpatialIndex } from './geo';
+import { displayedAvailability } from './availability';
+import { STANDARD_STAY_MINUTES, stayCostOf } from './fares';
+import { freeRank } from './filters';
+import { walkingRadiusMeters, walkingSeconds } from './routing';
+import { MessageKey } from './i18n';
+
+export type RadiusUnit = 'meters' | 'minutes';
+
+export interface NearbyQuery {
+  // Null until an address is found or a point is picked on the map
+  center: LatLng | null;
+  // What the user searched for or picked, shown as the pin's label
+  label: string;
+  radius: number;
+  unit: RadiusUnit;
+  weights: NearbyWeights;
+}
+
+// Relative importance of each score part; they need not sum to 1
+export interface NearbyWeights {
+  free: number;
+  cost: number;
+  distance: number;
+}
+
+export const RADIUS_OPTIONS: Record<RadiusUnit, number[]> = {
+  meters: [300, 500, 800, 1000, 1500, 2000],
+  minutes: [3, 5, 10, 15, 20]
+};
+
+export const WEIGHT_PRESETS: Array<{ id: string; labelKey: MessageKey; weights: NearbyWeights }> = [
+  { id: 'balanced', labelKey: 'nearby.presetBalanced', weights: { free: 1, cost: 1, distance: 1 } },
+  { id: 'closest', labelKey: 'nearby.presetClosest', weights: { free: 0.5, cost: 0.5, distance: 3 } },
+  { id: 'cheapest', labelKey: 'nearby.presetCheapest', weights: { free: 0.5, cost: 3, distance: 0.5 } },
+  { id: 'spaces', labelKey: 'nearby.presetSpaces', weights: { free: 3, cost: 0.5, distance: 0.5 } }
+];
+
+export const DEFAULT_NEARBY_QUERY: NearbyQuery = {
+  center: null,
+  label: '',
+  radius: 10,
+  unit: 'minutes',
+  weights: WEIGHT_PRESETS[0].weights
+};
+
+export const presetOf = (weights: NearbyWeights) =>
+  WEIGHT_PRESETS.find(p => p.weights.free === weights.free && p.weights.cost === weights.cost && p.weights.distance === weights.distance);
+
+export interface NearbyResult {
+  lot: ParkingLotData;
+  // Straight-line metres from the query point
+  distance: number;
+  walkSeconds: number;
+  cost: number | null;
+  // Weighted score in 0..1, higher is better, and the 0..1 parts it was built from
+  score: number;
+  parts: NearbyWeights;
+}
+
+export const radiusMetersOf = (query: Pick<NearbyQuery, 'radius' | 'unit'>) =>
+  query.unit === 'minutes' ? walkingRadiusMeters(query.radius) : query.radius;
+
+// Unknown costs score as average rather than best or worst
+const UNKNOWN_COST_SCORE = 0.5;
+
+/**
+ * Scores lots already known to lie within `radiusMeters`. Distance is graded
+ * against the radius, free spaces and stay cost against the other candidates,
+ * so the same lot can rank differently in a denser or pricier neighbourhood.
+ */
+export const scoreNearby = (
+  hits: Array<{ item: ParkingLotData; distance: number }>,
+  radiusMeters: number,
+  weights: NearbyWeights,
+  vehicle: VehicleType = 'car',
+  entry: number = Date.now()
+): NearbyResult[] => {
+  const candidates = hits.map(({ item, distance }) => ({
+    lot: item,
+    distance,
+    free: Math.max(0, freeRank(displayedAvailability(item, vehicle))),
+    cost: stayCostOf(item, entry, STANDARD_STAY_MINUTES).cost
+  }));
+  const maxFree = Math.max(0, ...candidates.map(c => c.free));
+  const costs = candidates.map(c => c.cost).filter((c): c is number => c !== null);
+  const minCost = Math.min(...costs);
+  const maxCost = Math.max(...costs);
+  const totalWeight = weights.free + weights.cost + weights.distance || 1;
+
+  return candidates
+    .map(({ lot, distance, free, cost }) => {
+      const parts: NearbyWeights = {
+        free: maxFree > 0 ? free / maxFree : 0,
+        cost: cost === null ? UNKNOWN_COST_SCORE : maxCost > minCost ? (maxCost - cost) / (maxCost - minCost) : 1,
+        distance: radiusMeters > 0 ? Math.max(0, 1 - distance / radiusMeters) : 1
+      };
+      const score = (weights.free * parts.free + weights.cost * parts.cost + weights.distance * parts.distance) / totalWeight;
+      return { lot, distance, walkSeconds: walkingSeconds(distance), cost, score, parts };
+    })
+    .sort((a, b) => b.score - a.score || a.distance - b.distance);
+};
+
+/**
+ * Lots within the query's radius (metres, or minutes on foot) of its centre,
+ * best first. Empty until the query has a centre.
+ */
+export const searchNearby = (
+  index: SpatialIndex<ParkingLotData>,
+  query: NearbyQuery,
+  vehicle: VehicleType = 'car',
+  entry: number = Date.now()
+): NearbyResult[] => {
+  if (!query.center) return [];
+  const radius = radiusMetersOf(query);
+  return scoreNearby(index.within(query.center, radius), radius, query.weights, vehicle, entry);
+};
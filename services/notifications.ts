@@ -0,0 +1,29 @@
+import { WatchAlert } from '../types';
+import { t } from './i18n';
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Asks for permission once; resolves true when notifications may be shown.
+ */
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/**
+ * Shows a watch alert as a system notification. Goes through the service
+ * worker when one is active, since mobile browsers reject `new Notification`.
+ */
+export const showWatchAlert = async (alert: WatchAlert) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body: alert.message, tag: alert.ruleId, icon: '/icon.svg' };
+  const registration = await navigator.serviceWorker?.getRegistration().catch(() => undefined);
+  if (registration) {
+    await registration.showNotification(t('watch.notificationTitle'), options);
+  } else {
+    new Notification(t('watch.notificationTitle'), options);
+  }
+};
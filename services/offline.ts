@@ -0,0 +1,11 @@
+/**
+ * Registers public/sw.js, which serves the app shell and map tiles offline.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.warn("Service worker registration failed:", err);
+    });
+  });
+};
@@ -0,0 +1,80 @@
+import { ParkingLotData, SourceHealth } from '../types';
+import { ParkingFetchResult, fetchParkingData } from './api';
+import { Locale, getLocale } from './i18n';
+
+// Main thread → worker. The worker has its own copy of the i18n module, so each request carries the UI locale.
+export type PipelineRequest = { type: 'load'; requestId: number; locale: Locale };
+
+// Worker → main thread. 'source' arrives once per source as it finishes, 'done' or 'error' ends the request.
+export type PipelineMessage =
+  | { type: 'source'; requestId: number; lots: ParkingLotData[]; health: SourceHealth }
+  | { type: 'done'; requestId: number; result: ParkingFetchResult }
+  | { type: 'error'; requestId: number; message: string };
+
+export type SourceListener = (lots: ParkingLotData[], health: SourceHealth) => void;
+
+interface PendingLoad {
+  resolve: (result: ParkingFetchResult) => void;
+  reject: (error: Error) => void;
+  onSource?: SourceListener;
+}
+
+let worker: Worker | null = null;
+// Set once the worker script failed to load or crashed; later loads stay on the main thread
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingLoad>();
+
+const loadOnMainThread = (onSource?: SourceListener) =>
+  fetchParkingData(undefined, result => onSource?.(result.lots, result.health));
+
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (workerFailed || typeof Worker === 'undefined') return null;
+  try {
+    worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn("Data worker unavailable, loading on the main thread:", error);
+    return null;
+  }
+  worker.onmessage = (event: MessageEvent<PipelineMessage>) => {
+    const message = event.data;
+    const load = pending.get(message.requestId);
+    if (!load) return;
+    if (message.type === 'source') {
+      load.onSource?.(message.lots, message.health);
+      return;
+    }
+    pending.delete(message.requestId);
+    if (message.type === 'done') load.resolve(message.result);
+    else load.reject(new Error(message.message));
+  };
+  // Redo whatever the worker was doing on the main thread
+  worker.onerror = event => {
+    console.warn("Data worker failed, loading on the main thread:", event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(load => loadOnMainThread(load.onSource).then(load.resolve, load.reject));
+    pending.clear();
+  };
+  return worker;
+};
+
+/**
+ * fetchParkingData, run in a Web Worker so fetching, normalizing, projecting
+ * and merging stay off the main thread. Falls back to the main thread where
+ * workers are unavailable or fail to start (scripts, old browsers, hosts that
+ * cannot serve the worker module).
+ */
+export const loadParkingData = (onSource?: SourceListener): Promise<ParkingFetchResult> => {
+  const target = getWorker();
+  if (!target) return loadOnMainThread(onSource);
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject, onSource });
+    const request: PipelineRequest = { type: 'load', requestId, locale: getLocale() };
+    target.postMessage(request);
+  });
+};
@@ -0,0 +1,23 @@
+/**
+ * Runs the fetch → normalize → project → merge pipeline off the main thread.
+ * Description caches live here, so they survive between refreshes.
+ */
+import { fetchParkingData } from './api';
+import { setLocale } from './i18n';
+import type { PipelineMessage, PipelineRequest } from './pipeline';
+
+const post = (message: PipelineMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const { requestId, locale } = event.data;
+  // Messages raised in here (e.g. error.noData) follow the language switcher; nothing to persist in a worker
+  setLocale(locale, false);
+  try {
+    const result = await fetchParkingData(undefined, ({ lots, health }) => {
+      post({ type: 'source', requestId, lots, health });
+    });
+    post({ type: 'done', requestId, result });
+  } catch (error) {
+    post({ type: 'error', requestId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,114 @@
+import { LatLng, bearingDegrees, distanceMeters } from './geo';
+
+export interface PositionFix extends LatLng {
+  // Degrees clockwise from north; null when unknown (standing still, or the device does not say)
+  heading: number | null;
+  speed: number | null; // m/s
+  accuracy: number | null; // metres
+  t: number;
+}
+
+/**
+ * Anything that reports a moving position: the device's GPS, or a recorded
+ * track played back. `start` begins reporting and returns a function that
+ * stops it.
+ */
+export interface PositionSource {
+  start: (onFix: (fix: PositionFix) => void, onError: (error: Error) => void) => () => void;
+}
+
+const finiteOrNull = (value: number | null | undefined) =>
+  value !== null && value !== undefined && Number.isFinite(value) ? value : null;
+
+/**
+ * The device position via watchPosition. High accuracy is worth the battery
+ * while driving; fixes older than a few seconds are useless at road speed.
+ */
+export const geolocationSource = (
+  options: PositionOptions = { enableHighAccuracy: true, timeout: 20000, maximumAge: 5000 }
+): PositionSource => ({
+  start: (onFix, onError) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      onError(new Error('Geolocation is not supported by this browser.'));
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      position => onFix({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        heading: finiteOrNull(position.coords.heading),
+        speed: finiteOrNull(position.coords.speed),
+        accuracy: finiteOrNull(position.coords.accuracy),
+        t: position.timestamp
+      }),
+      err => onError(new Error(`Geolocation error (${err.code}): ${err.message}`)),
+      options
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  }
+});
+
+export interface ReplayOptions {
+  // 2 plays the track twice as fast; Infinity emits every fix without waiting
+  speedup?: number;
+  loop?: boolean;
+}
+
+/**
+ * Plays back a recorded track with the gaps between its timestamps (divided
+ * by `speedup`), re-stamped to the time of playback.
+ */
+export const replaySource = (track: PositionFix[], { speedup = 1, loop = false }: ReplayOptions = {}): PositionSource => ({
+  start: (onFix, onError) => {
+    if (track.length === 0) {
+      onError(new Error('The recorded track is empty.'));
+      return () => {};
+    }
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const play = (i: number) => {
+      if (stopped) return;
+      onFix({ ...track[i], t: Date.now() });
+      const next = i + 1 < track.length ? i + 1 : loop ? 0 : -1;
+      if (next < 0) return;
+      const gap = next === 0 ? 1000 : Math.max(0, track[next].t - track[i].t);
+      timer = setTimeout(() => play(next), Number.isFinite(speedup) ? gap / speedup : 0);
+    };
+
+    play(0);
+    return () => {
+      stopped = true;
+      if (timer !== null) clearTimeout(timer);
+    };
+  }
+});
+
+// Heading is measured over at least this far, and over three times the fix accuracy,
+// so GPS jitter does not swing it around
+const MIN_HEADING_MOVE_METERS = 10;
+const ACCURACY_MULTIPLE = 3;
+
+/**
+ * Fills in missing headings from the direction of travel. The heading is
+ * measured from the last point it was measured at, so slow crawls still add
+ * up to a direction, and kept while the device has not moved far enough.
+ */
+export const createHeadingTracker = () => {
+  let anchor: PositionFix | null = null;
+  let heading: number | null = null;
+
+  return (fix: PositionFix): PositionFix => {
+    if (fix.heading !== null) {
+      anchor = fix;
+      heading = fix.heading;
+      return fix;
+    }
+    if (!anchor) anchor = fix;
+    else if (distanceMeters(anchor, fix) >= Math.max(MIN_HEADING_MOVE_METERS, ACCURACY_MULTIPLE * (fix.accuracy ?? 0))) {
+      heading = bearingDegrees(anchor, fix);
+      anchor = fix;
+    }
+    return { ...fix, heading };
+  };
+};
@@ -0,0 +1,185 @@
+import { FieldConflict, LotProvenance, ParkingLotData, ReconciliationReport } from '../types';
+import { createSpatialIndex } from './geo';
+import { keyOf, lotKey } from './identity';
+
+export interface DuplicateRules {
+  // [max distance in metres, min name similarity] pairs; matching any one flags a duplicate
+  thresholds: Array<[number, number]>;
+}
+
+// Boundary lots show up in both feeds a few metres apart under slightly different names
+export const DEFAULT_DUPLICATE_RULES: DuplicateRules = {
+  thresholds: [[50, 0.5], [150, 0.8]]
+};
+
+// Words every feed sprinkles into names; they say nothing about which lot it is
+const GENERIC_WORDS = /停車場|公有|附設/g;
+
+export const normalizeName = (name: string) =>
+  (name ?? '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(GENERIC_WORDS, '')
+    .replace(/[\s()（）[\]【】「」、,，.。·・\-－_]/g, '');
+
+const bigrams = (text: string) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized names, 0..1.
+ * Bigrams suit Chinese names, where a single shared character means little.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  gx.forEach((count, gram) => { shared += Math.min(count, gy.get(gram) ?? 0); });
+  return (2 * shared) / (x.length - 1 + y.length - 1);
+};
+
+export interface DuplicatePair {
+  a: ParkingLotData;
+  b: ParkingLotData;
+  distanceMeters: number;
+  similarity: number;
+}
+
+/**
+ * Probable cross-source duplicates, best match first, each lot in at most one
+ * pair. Lots from the same source are never paired: a feed listing two lots
+ * side by side means two lots.
+ */
+export const findDuplicates = (
+  lots: ParkingLotData[],
+  rules: DuplicateRules = DEFAULT_DUPLICATE_RULES
+): DuplicatePair[] => {
+  const reach = Math.max(...rules.thresholds.map(([distance]) => distance));
+  const index = createSpatialIndex(lots);
+  const position = new Map(lots.map((lot, i) => [lot, i]));
+  const candidates: DuplicatePair[] = [];
+
+  lots.forEach((a, i) => {
+    index.within(a, reach).forEach(({ item: b, distance }) => {
+      // Each unordered pair once, in input order
+      if (b.source === a.source || position.get(b)! <= i) return;
+      const similarity = nameSimilarity(a.name, b.name);
+      if (rules.thresholds.some(([maxDistance, minSimilarity]) => distance <= maxDistance && similarity >= minSimilarity)) {
+        candidates.push({ a, b, distanceMeters: distance, similarity });
+      }
+    });
+  });
+
+  const taken = new Set<ParkingLotData>();
+  return candidates
+    .sort((x, y) => y.similarity - x.similarity || x.distanceMeters - y.distanceMeters)
+    .filter(pair => {
+      if (taken.has(pair.a) || taken.has(pair.b)) return false;
+      taken.add(pair.a);
+      taken.add(pair.b);
+      return true;
+    });
+};
+
+const AVAILABILITY_FIELDS = ['availablecar', 'availablemotor', 'availablebike'] as const;
+const CAPACITY_FIELDS = ['totalcar', 'totalmotor', 'totalbike'] as const;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// How much of the description a lot carries; the richer record survives a merge
+const richness = (lot: ParkingLotData) =>
+  Object.values(lot).filter(value => !isEmpty(value) && value !== '0').length;
+
+const provenanceOf = (lot: ParkingLotData): LotProvenance[] =>
+  lot.provenance ?? [{ source: lot.source, id: lot.id, name: lot.name }];
+
+// Generic over the key, so the assignment is checked against that field's type
+const copyField = <K extends keyof ParkingLotData>(target: ParkingLotData, source: ParkingLotData, field: K) => {
+  target[field] = source[field];
+};
+
+/**
+ * Folds `other` into `primary`: the primary's fields win, its gaps are filled
+ * from the other record, a numeric count beats a qualitative code, and any
+ * remaining disagreement on counts is recorded as a conflict.
+ */
+export const mergeLots = (
+  primary: ParkingLotData,
+  other: ParkingLotData,
+  conflicts: FieldConflict[] = []
+): ParkingLotData => {
+  const merged: ParkingLotData = { ...primary };
+  (Object.keys(other) as Array<keyof ParkingLotData>).forEach(field => {
+    if (isEmpty(merged[field]) && !isEmpty(other[field])) copyField(merged, other, field);
+  });
+
+  const conflict = (field: string, a: number, b: number) =>
+    conflicts.push({ key: keyOf(primary), field, values: [{ lot: keyOf(primary), value: a }, { lot: keyOf(other), value: b }] });
+
+  AVAILABILITY_FIELDS.forEach(field => {
+    const a = primary[field] ?? -9;
+    const b = other[field] ?? -9;
+    if (a < 0 && b >= 0) merged[field] = b;
+    else if (a >= 0 && b >= 0 && a !== b) conflict(field, a, b);
+  });
+  CAPACITY_FIELDS.forEach(field => {
+    const a = primary[field] ?? 0;
+    const b = other[field] ?? 0;
+    if (a <= 0 && b > 0) merged[field] = b;
+    else if (a > 0 && b > 0 && a !== b) conflict(field, a, b);
+  });
+
+  merged.lastUpdated = Math.max(primary.lastUpdated, other.lastUpdated);
+  merged.provenance = [...provenanceOf(primary), ...provenanceOf(other)];
+  return merged;
+};
+
+/**
+ * Merges probable duplicates across sources into single lots that keep the
+ * richer record's identity (so favourites and history stay attached) and list
+ * every contributing source in `provenance`. Returns the lots in input order
+ * and a report of what was merged and where the feeds disagreed.
+ */
+export const reconcileLots = (
+  lots: ParkingLotData[],
+  rules: DuplicateRules = DEFAULT_DUPLICATE_RULES
+): { lots: ParkingLotData[]; report: ReconciliationReport } => {
+  const report: ReconciliationReport = { merges: [], conflicts: [] };
+  const replaced = new Map<ParkingLotData, ParkingLotData | null>();
+
+  findDuplicates(lots, rules).forEach(({ a, b, distanceMeters, similarity }) => {
+    const [primary, other] = richness(b) > richness(a) ? [b, a] : [a, b];
+    const merged = mergeLots(primary, other, report.conflicts);
+    replaced.set(primary, merged);
+    replaced.set(other, null);
+    report.merges.push({
+      key: keyOf(primary),
+      merged: merged.provenance!.map(p => lotKey(p.source, p.id)),
+      names: merged.provenance!.map(p => p.name),
+      distanceMeters: Math.round(distanceMeters),
+      similarity: Math.round(similarity * 100) / 100
+    });
+  });
+
+  if (replaced.size === 0) return { lots, report };
+  const result: ParkingLotData[] = [];
+  lots.forEach(lot => {
+    const next = replaced.has(lot) ? replaced.get(lot) : lot;
+    if (next) result.push(next);
+  });
+  return { lots: result, report };
+};
+
+export const summarizeReconciliation = (report: ReconciliationReport) =>
+  `${report.merges.length} duplicate lot(s) merged, ${report.conflicts.length} conflicting field(s)`;
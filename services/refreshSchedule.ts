@@ -0,0 +1,64 @@
+import { ParkingSourceId, SourceHealth } from '../types';
+
+// Never poll more often than this, nor wait longer than the old fixed interval
+export const MIN_REFRESH_MS = 60 * 1000;
+export const MAX_REFRESH_MS = 5 * 60 * 1000;
+
+// Poll this long after an upstream update is expected, so it has landed
+const GRACE_MS = 15 * 1000;
+const MAX_SAMPLES = 6;
+
+export interface SourceCadence {
+  lastUpstream: number;
+  // Recent gaps between distinct upstream timestamps, oldest first
+  intervals: number[];
+}
+
+export type CadenceState = Partial<Record<ParkingSourceId, SourceCadence>>;
+
+/**
+ * Records each source's feed timestamp. Sources without one (NTPC) are left
+ * out and fall back to MAX_REFRESH_MS.
+ */
+export const updateCadence = (state: CadenceState, sources: SourceHealth[]): CadenceState => {
+  const next: CadenceState = { ...state };
+  sources.forEach(({ id, upstreamUpdatedAt }) => {
+    if (upstreamUpdatedAt === null) return;
+    const previous = state[id];
+    if (!previous) {
+      next[id] = { lastUpstream: upstreamUpdatedAt, intervals: [] };
+    } else if (upstreamUpdatedAt > previous.lastUpstream) {
+      next[id] = {
+        lastUpstream: upstreamUpdatedAt,
+        intervals: [...previous.intervals, upstreamUpdatedAt - previous.lastUpstream].slice(-MAX_SAMPLES)
+      };
+    }
+  });
+  return next;
+};
+
+/**
+ * How often the feed publishes. The shortest recent gap is used because a
+ * poll that lands just before an update sees a gap of two periods, never less
+ * than one.
+ */
+export const cadenceOf = (cadence: SourceCadence | undefined): number | null =>
+  cadence && cadence.intervals.length > 0 ? Math.min(...cadence.intervals) : null;
+
+const clamp = (ms: number) => Math.min(MAX_REFRESH_MS, Math.max(MIN_REFRESH_MS, ms));
+
+/**
+ * Delay until the next availability poll: just after the earliest expected
+ * upstream update. Until a source's cadence is known it is polled at the
+ * minimum interval to learn it (unless its data is already old); a feed that
+ * is overdue is polled less and less often the longer it stays silent.
+ */
+export const nextRefreshDelay = (state: CadenceState, now: number = Date.now()): number => {
+  const delays = (Object.values(state) as SourceCadence[]).map(source => {
+    const cadence = cadenceOf(source);
+    if (cadence === null) return now - source.lastUpstream < MAX_REFRESH_MS ? MIN_REFRESH_MS : MAX_REFRESH_MS;
+    const due = source.lastUpstream + cadence + GRACE_MS;
+    return due > now ? due - now : (now - due) / 2;
+  });
+  return delays.length > 0 ? clamp(Math.min(...delays)) : MAX_REFRESH_MS;
+};
@@ -0,0 +1,127 @@
+import { LatLng, distanceMeters, formatDistance } from './geo';
+import { t } from './i18n';
+
+export type RouteMode = 'walk' | 'drive';
+
+export interface Route {
+  mode: RouteMode;
+  // Polyline from origin to destination, WGS84
+  path: LatLng[];
+  distanceMeters: number;
+  durationSeconds: number;
+  engine: string; // which engine produced it, e.g. "osrm", "estimate"
+}
+
+/**
+ * Anything that can plan a route. Engines reject when they cannot route;
+ * withFallback chains them.
+ */
+export type RoutingEngine = (from: LatLng, to: LatLng, mode: RouteMode) => Promise<Route>;
+
+// Street distance is longer than the straight line; typical grid-city factor
+const DETOUR_FACTOR = 1.3;
+
+const DEFAULT_SPEEDS: Record<RouteMode, number> = {
+  walk: 1.3,  // m/s, ~4.7 km/h
+  drive: 6.9  // m/s, ~25 km/h urban average including lights
+};
+
+/**
+ * Offline engine: a straight segment with the length scaled by a detour
+ * factor and a fixed average speed. Deterministic, so usable in scripts.
+ */
+export const createEstimateEngine = (
+  speeds: Record<RouteMode, number> = DEFAULT_SPEEDS,
+  detourFactor: number = DETOUR_FACTOR
+): RoutingEngine => async (from, to, mode) => {
+  const distance = distanceMeters(from, to) * detourFactor;
+  return {
+    mode,
+    path: [from, to],
+    distanceMeters: Math.round(distance),
+    durationSeconds: Math.round(distance / speeds[mode]),
+    engine: 'estimate'
+  };
+};
+
+// Straight-line radius reachable on foot in `minutes`, at the estimate engine's pace
+export const walkingRadiusMeters = (minutes: number) => (minutes * 60 * DEFAULT_SPEEDS.walk) / DETOUR_FACTOR;
+
+export const walkingSeconds = (straightMeters: number) => (straightMeters * DETOUR_FACTOR) / DEFAULT_SPEEDS.walk;
+
+export const drivingSeconds = (straightMeters: number) => (straightMeters * DETOUR_FACTOR) / DEFAULT_SPEEDS.drive;
+
+const OSRM_PROFILES: Record<RouteMode, string> = { walk: 'foot', drive: 'driving' };
+
+/**
+ * Engine backed by an OSRM server (the public demo server by default).
+ */
+export const createOsrmEngine = (
+  baseUrl: string = 'https://router.project-osrm.org',
+  timeoutMs: number = 8000
+): RoutingEngine => async (from, to, mode) => {
+  const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+  const url = `${baseUrl.replace(/\/$/, '')}/route/v1/${OSRM_PROFILES[mode]}/${coords}?overview=full&geometries=geojson`;
+  const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`OSRM responded ${res.status}`);
+  const json = await res.json();
+  const route = json?.routes?.[0];
+  if (json?.code !== 'Ok' || !route) throw new Error(`OSRM could not route: ${json?.code}`);
+  return {
+    mode,
+    path: (route.geometry.coordinates as [number, number][]).map(([lng, lat]) => ({ lat, lng })),
+    distanceMeters: Math.round(route.distance),
+    durationSeconds: Math.round(route.duration),
+    engine: 'osrm'
+  };
+};
+
+export const withFallback = (primary: RoutingEngine, fallback: RoutingEngine): RoutingEngine =>
+  async (from, to, mode) => {
+    try {
+      return await primary(from, to, mode);
+    } catch (error) {
+      console.warn("Routing engine failed, using fallback:", error);
+      return fallback(from, to, mode);
+    }
+  };
+
+let activeEngine: RoutingEngine = withFallback(createOsrmEngine(), createEstimateEngine());
+
+export const setRoutingEngine = (engine: RoutingEngine) => {
+  activeEngine = engine;
+};
+
+export const planRoute: RoutingEngine = (from, to, mode) => activeEngine(from, to, mode);
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return t('duration.minutes', { minutes });
+  return t('duration.hoursMinutes', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+export const formatRoute = (route: Route) =>
+  t('route.summary', { distance: formatDistance(route.distanceMeters), duration: formatDuration(route.durationSeconds) });
+
+export interface NavigationLink {
+  name: string;
+  url: string;
+}
+
+/**
+ * Deep links that hand the trip over to a navigation app.
+ */
+export const navigationLinks = (from: LatLng | null, to: LatLng, mode: RouteMode): NavigationLink[] => {
+  const dest = `${to.lat},${to.lng}`;
+  const google = new URLSearchParams({ api: '1', destination: dest, travelmode: mode === 'walk' ? 'walking' : 'driving' });
+  if (from) google.set('origin', `${from.lat},${from.lng}`);
+  const apple = new URLSearchParams({ daddr: dest, dirflg: mode === 'walk' ? 'w' : 'd' });
+  if (from) apple.set('saddr', `${from.lat},${from.lng}`);
+
+  const links = [
+    { name: t('nav.googleMaps'), url: `https://www.google.com/maps/dir/?${google}` },
+    { name: t('nav.appleMaps'), url: `https://maps.apple.com/?${apple}` }
+  ];
+  if (mode === 'drive') links.push({ name: 'Waze', url: `https://waze.com/ul?ll=${encodeURIComponent(dest)}&navigate=yes` });
+  return links;
+};
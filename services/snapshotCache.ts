@@ -0,0 +1,33 @@
+import { ParkingLotData } from '../types';
+import { createDbOpener, requestToPromise, transactionDone } from './idb';
+
+const STORE = 'snapshots';
+const LATEST = 'latest';
+
+export interface CachedSnapshot {
+  data: ParkingLotData[];
+  savedAt: number; // epoch ms of the successful fetch
+}
+
+const openDb = createDbOpener('parking-cache', 1, (db) => {
+  db.createObjectStore(STORE);
+});
+
+/**
+ * Keeps the last successful fetchParkingData result so the map can still be
+ * shown (marked stale) when the network is unavailable.
+ */
+export const saveSnapshot = async (data: ParkingLotData[], savedAt: number = Date.now()) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  // Forecasts are derived per view and not part of the fetched data
+  tx.objectStore(STORE).put({ data: data.map(({ forecast, ...lot }) => lot), savedAt }, LATEST);
+  await transactionDone(tx);
+};
+
+export const loadSnapshot = async (): Promise<CachedSnapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const snapshot = await requestToPromise(tx.objectStore(STORE).get(LATEST));
+  return (snapshot as CachedSnapshot | undefined) ?? null;
+};
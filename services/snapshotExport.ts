@@ -0,0 +1,234 @@
+import { ParkingLotData, ParkingSourceId } from '../types';
+import { getAdapter } from './sources';
+import { getAvailabilityLevel, getAvailabilityText } from './availability';
+import { formatList, t } from './i18n';
+
+export interface SourceAttribution {
+  id: ParkingSourceId;
+  label: string;
+  attribution: string;
+}
+
+export interface SnapshotMeta {
+  exportedAt: number; // epoch ms
+  sources: SourceAttribution[];
+}
+
+// A snapshot read back from an exported GeoJSON file
+export interface ImportedSnapshot {
+  name: string;
+  meta: SnapshotMeta;
+  lots: ParkingLotData[];
+}
+
+/**
+ * Attribution for every source present in `lots`, in first-seen order.
+ */
+export const snapshotMeta = (lots: ParkingLotData[], exportedAt: number = Date.now()): SnapshotMeta => {
+  const ids = Array.from(new Set(lots.map(lot => lot.source)));
+  return {
+    exportedAt,
+    sources: ids.map(id => {
+      const adapter = getAdapter(id);
+      return { id, label: adapter?.label ?? id, attribution: adapter?.attribution ?? '' };
+    })
+  };
+};
+
+const attributionText = (meta: SnapshotMeta) =>
+  formatList(meta.sources.map(s => s.attribution || s.label));
+
+/**
+ * FeatureCollection with Point geometry in WGS84 ([lng, lat]) and every lot
+ * field as properties. The snapshot time and sources travel in a top-level
+ * `metadata` member, which GeoJSON readers ignore.
+ */
+export const toGeoJSON = (lots: ParkingLotData[], meta: SnapshotMeta = snapshotMeta(lots)) => ({
+  type: 'FeatureCollection' as const,
+  metadata: { ...meta, exportedAtISO: new Date(meta.exportedAt).toISOString(), attribution: attributionText(meta) },
+  features: lots.map(({ lat, lng, ...properties }) => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [lng, lat] },
+    properties
+  }))
+});
+
+/**
+ * Reads a file written by toGeoJSON back into lots. Features without a
+ * Point geometry or an id are skipped; anything that is not a
+ * FeatureCollection throws.
+ */
+export const fromGeoJSON = (json: any, name: string = ''): ImportedSnapshot => {
+  if (!json || json.type !== 'FeatureCollection' || !Array.isArray(json.features)) {
+    throw new Error(t('export.notGeoJSON'));
+  }
+
+  const lots: ParkingLotData[] = [];
+  json.features.forEach((feature: any) => {
+    const coords = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    const props = feature?.properties ?? {};
+    if (!Array.isArray(coords) || typeof coords[0] !== 'number' || typeof coords[1] !== 'number') return;
+    if (props.id === undefined || props.id === null) return;
+    lots.push({
+      ...props,
+      id: String(props.id),
+      name: props.name ?? '',
+      address: props.address ?? '',
+      payex: props.payex ?? '',
+      totalcar: Number(props.totalcar ?? 0),
+      availablecar: Number(props.availablecar ?? -9),
+      source: props.source ?? 'imported',
+      lastUpdated: Number(props.lastUpdated ?? 0),
+      lat: coords[1],
+      lng: coords[0]
+    });
+  });
+
+  const metadata = json.metadata ?? {};
+  const exportedAt = typeof metadata.exportedAt === 'number'
+    ? metadata.exportedAt
+    : lots.reduce((latest, lot) => Math.max(latest, lot.lastUpdated), 0);
+  return {
+    name,
+    meta: { exportedAt, sources: Array.isArray(metadata.sources) ? metadata.sources : snapshotMeta(lots).sources },
+    lots
+  };
+};
+
+export interface CsvColumn {
+  key: string;
+  header: string;
+  value: (lot: ParkingLotData) => string | number | undefined;
+}
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: 'source', header: 'source', value: lot => lot.source },
+  { key: 'id', header: 'id', value: lot => lot.id },
+  { key: 'name', header: 'name', value: lot => lot.name },
+  { key: 'area', header: 'area', value: lot => lot.area },
+  { key: 'address', header: 'address', value: lot => lot.address },
+  { key: 'lat', header: 'lat', value: lot => lot.lat },
+  { key: 'lng', header: 'lng', value: lot => lot.lng },
+  { key: 'totalcar', header: 'totalcar', value: lot => lot.totalcar },
+  { key: 'availablecar', header: 'availablecar', value: lot => lot.availablecar },
+  { key: 'totalmotor', header: 'totalmotor', value: lot => lot.totalmotor },
+  { key: 'availablemotor', header: 'availablemotor', value: lot => lot.availablemotor },
+  { key: 'totalbike', header: 'totalbike', value: lot => lot.totalbike },
+  { key: 'payex', header: 'payex', value: lot => lot.payex },
+  { key: 'serviceTime', header: 'serviceTime', value: lot => lot.serviceTime },
+  { key: 'tel', header: 'tel', value: lot => lot.tel },
+  { key: 'lastUpdated', header: 'lastUpdated', value: lot => new Date(lot.lastUpdated).toISOString() }
+];
+
+export const DEFAULT_CSV_COLUMNS = ['source', 'id', 'name', 'address', 'lat', 'lng', 'totalcar', 'availablecar', 'lastUpdated'];
+
+// RFC 4180: quote fields holding separators, quotes or line breaks
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with the chosen columns, in CSV_COLUMNS order. Every row also carries
+ * the snapshot time and its source's attribution, so a row pasted elsewhere
+ * keeps its provenance. Starts with a BOM so Excel reads the Chinese text.
+ */
+export const toCSV = (lots: ParkingLotData[], columnKeys: string[] = DEFAULT_CSV_COLUMNS, meta: SnapshotMeta = snapshotMeta(lots)) => {
+  const columns = CSV_COLUMNS.filter(c => columnKeys.includes(c.key));
+  const exportedAt = new Date(meta.exportedAt).toISOString();
+  const attribution = new Map(meta.sources.map(s => [s.id, s.attribution || s.label]));
+  const header = [...columns.map(c => c.header), 'snapshotTime', 'attribution'];
+  const rows = lots.map(lot => [
+    ...columns.map(c => csvField(c.value(lot))),
+    exportedAt,
+    csvField(attribution.get(lot.source) ?? lot.source)
+  ].join(','));
+  return '\uFEFF' + [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const xml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// KML colours are aabbggrr
+const KML_STYLES: Record<string, string> = {
+  plenty: 'ff5ec522',
+  open: 'ffeb6325',
+  limited: 'ff08b3ea',
+  full: 'ff4444ef',
+  unknown: 'ffafa39c'
+};
+
+const KML_FIELDS: Array<keyof ParkingLotData> = [
+  'source', 'id', 'area', 'address', 'totalcar', 'availablecar', 'totalmotor', 'availablemotor', 'payex', 'serviceTime', 'tel', 'lastUpdated'
+];
+
+/**
+ * KML document for Google Earth: one Placemark per lot, styled by
+ * availability, with the main fields as ExtendedData and the snapshot time
+ * and attribution in the document description.
+ */
+export const toKML = (lots: ParkingLotData[], meta: SnapshotMeta = snapshotMeta(lots)) => {
+  const exportedAt = new Date(meta.exportedAt).toISOString();
+  const styles = Object.entries(KML_STYLES).map(([level, color]) =>
+    `<Style id="${level}"><IconStyle><color>${color}</color></IconStyle></Style>`
+  );
+  const placemarks = lots.map(lot => {
+    const level = getAvailabilityLevel(lot.availablecar, lot.totalcar);
+    const data = KML_FIELDS
+      .filter(field => lot[field] !== undefined)
+      .map(field => `<Data name="${field}"><value>${xml(lot[field])}</value></Data>`)
+      .join('');
+    return [
+      '<Placemark>',
+      `<name>${xml(lot.name)}</name>`,
+      `<description>${xml(`${lot.address}\n${t('export.kmlAvailability', { value: getAvailabilityText(lot.availablecar) })}`)}</description>`,
+      `<TimeStamp><when>${new Date(lot.lastUpdated).toISOString()}</when></TimeStamp>`,
+      `<styleUrl>#${level}</styleUrl>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      `<Point><coordinates>${lot.lng},${lot.lat},0</coordinates></Point>`,
+      '</Placemark>'
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${xml(t('export.kmlName', { time: exportedAt }))}</name>`,
+    `<description>${xml(t('export.kmlDescription', { time: exportedAt, sources: attributionText(meta) }))}</description>`,
+    ...styles,
+    ...placemarks,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+};
+
+export type ExportFormat = 'geojson' | 'csv' | 'kml';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mime: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mime: 'application/geo+json' },
+  csv: { label: 'CSV', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+  kml: { label: 'KML (Google Earth)', extension: 'kml', mime: 'application/vnd.google-earth.kml+xml' }
+};
+
+/**
+ * File name and content for one export of `lots`.
+ */
+export const exportLots = (
+  lots: ParkingLotData[],
+  format: ExportFormat,
+  options: { columns?: string[]; now?: number } = {}
+): { filename: string; content: string; mime: string } => {
+  const meta = snapshotMeta(lots, options.now);
+  const stamp = new Date(meta.exportedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const content =
+    format === 'geojson' ? JSON.stringify(toGeoJSON(lots, meta), null, 2)
+    : format === 'csv' ? toCSV(lots, options.columns, meta)
+    : toKML(lots, meta);
+  const { extension, mime } = EXPORT_FORMATS[format];
+  return { filename: `parking-${stamp}.${extension}`, content, mime };
+};
@@ -0,0 +1,60 @@
+import { SourceHealth, SourceStatus } from '../types';
+import { MessageKey, formatList, formatNumber, formatTime, sourceLabel, t } from './i18n';
+
+// Upstream data older than this is flagged stale; the city feeds refresh every few minutes
+export const STALE_AFTER_MS = 20 * 60 * 1000;
+
+/**
+ * Status to display right now: a source that loaded fine but whose feed
+ * timestamp (or, lacking one, our load time) has aged past STALE_AFTER_MS
+ * becomes 'stale'.
+ */
+export const effectiveStatus = (health: SourceHealth, now: number = Date.now()): SourceStatus => {
+  if (health.status !== 'ok') return health.status;
+  const asOf = health.upstreamUpdatedAt ?? health.loadedAt;
+  return now - asOf > STALE_AFTER_MS ? 'stale' : 'ok';
+};
+
+export const needsAttention = (health: SourceHealth, now: number = Date.now()) =>
+  effectiveStatus(health, now) !== 'ok';
+
+export const STATUS_LABELS: Record<SourceStatus, MessageKey> = {
+  ok: 'health.ok',
+  partial: 'health.partial',
+  stale: 'health.stale',
+  failed: 'health.failed'
+};
+
+export const STATUS_DOT_CLASSES: Record<SourceStatus, string> = {
+  ok: 'bg-green-500',
+  partial: 'bg-yellow-400',
+  stale: 'bg-orange-500',
+  failed: 'bg-red-500'
+};
+
+/**
+ * Multi-line summary used for the health indicator tooltip.
+ */
+export const describeHealth = (health: SourceHealth, now: number = Date.now()): string => {
+  const status = effectiveStatus(health, now);
+  const lines = [
+    t('health.summary', { source: sourceLabel(health.id), status: t(STATUS_LABELS[status]) }),
+    t('health.records', {
+      count: formatNumber(health.records),
+      descRecords: formatNumber(health.description.records),
+      descPages: health.description.pages,
+      availRecords: formatNumber(health.availability.records),
+      availPages: health.availability.pages
+    }),
+    t('health.route', { via: health.via.length > 0 ? formatList(health.via) : '—', ms: formatNumber(health.latencyMs) }),
+    t('health.time', {
+      upstream: health.upstreamUpdatedAt !== null ? formatTime(health.upstreamUpdatedAt) : t('health.notProvided'),
+      loaded: formatTime(health.loadedAt)
+    })
+  ];
+  if (health.description.cachedAt !== undefined) {
+    lines.push(t('health.cached', { time: formatTime(health.description.cachedAt) }));
+  }
+  if (health.error) lines.push(t('health.error', { error: health.error }));
+  return lines.join('\n');
+};
@@ -0,0 +1,11 @@
+import { registerAdapter } from './registry';
+import { taipeiAdapter } from './taipei';
+import { newTaipeiAdapter } from './newTaipei';
+
+// Built-in feeds. Additional cities or private feeds call registerAdapter()
+// from their own module without touching the merge logic in api.ts.
+registerAdapter(taipeiAdapter);
+registerAdapter(newTaipeiAdapter);
+
+export { registerAdapter, unregisterAdapter, getAdapter, getAdapters } from './registry';
+export { taipeiAdapter, newTaipeiAdapter };
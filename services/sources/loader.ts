@@ -0,0 +1,286 @@
+import {
+  DataSourceAdapter,
+  EndpointFetchStats,
+  NormalizationReport,
+  ParkingLotData,
+  SourceEndpoint,
+  SourceHealth
+} from '../../types';
+import { toWGS84Batch } from '../coordinateService';
+import { JsonFetcher } from '../http';
+import { NormalizedRows, createReport, normalizeRows, recordRejection } from '../validation';
+
+export interface SourceLoadResult {
+  lots: ParkingLotData[];
+  report: NormalizationReport;
+  health: SourceHealth;
+}
+
+export interface EndpointResult extends EndpointFetchStats {
+  rows: any[];
+  via: string[];
+  upstreamUpdatedAt: number | null;
+}
+
+const parseTimestamp = (value: string | number | undefined): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const t = typeof value === 'number' ? value : Date.parse(value);
+  return isNaN(t) ? null : t;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Fetches every record behind an endpoint, following its pagination scheme.
+ * Paginated fetches stop at the first empty / non-array page or error; an
+ * error after the first page yields a partial (incomplete) result instead of
+ * throwing.
+ */
+export const fetchEndpoint = async (endpoint: SourceEndpoint, fetchJson: JsonFetcher): Promise<EndpointResult> => {
+  const extract = endpoint.records ?? ((json: any) => json);
+  const { pagination } = endpoint;
+  const via = new Set<string>();
+  let upstreamUpdatedAt: number | null = null;
+
+  const fetchPage = async (url: string) => {
+    const result = await fetchJson(url, endpoint.transport);
+    via.add(result.via);
+    const t = parseTimestamp(endpoint.timestamp?.(result.json));
+    if (t !== null) upstreamUpdatedAt = Math.max(upstreamUpdatedAt ?? 0, t);
+    return extract(result.json);
+  };
+
+  if (pagination.kind === 'none') {
+    const records = await fetchPage(endpoint.url);
+    const rows = Array.isArray(records) ? records : [];
+    return { rows, records: rows.length, pages: 1, complete: true, via: Array.from(via), upstreamUpdatedAt };
+  }
+
+  let allData: any[] = [];
+  let pages = 0;
+  let complete = false;
+  let error: string | undefined;
+  const ts = Date.now();
+
+  for (let i = 0; i < pagination.maxPages; i++) {
+    const page = pagination.firstPage + i;
+    const url = new URL(endpoint.url);
+    url.searchParams.set(pagination.pageParam, String(page));
+    url.searchParams.set(pagination.sizeParam, String(pagination.size));
+    url.searchParams.set('_t', String(ts));
+    try {
+      const records = await fetchPage(url.toString());
+
+      // Paginated APIs return [] when done, but sometimes a non-array error object if params are wrong
+      if (!records || !Array.isArray(records) || records.length === 0) {
+        complete = true;
+        break;
+      }
+
+      allData = allData.concat(records);
+      pages++;
+    } catch (err) {
+      console.error(`Stopping ${endpoint.url} fetch at page ${page} due to error:`, err);
+      // Nothing at all is a hard failure; a later page failing leaves a partial result
+      if (pages === 0) throw err;
+      error = `page ${page}: ${errorMessage(err)}`;
+      break;
+    }
+  }
+
+  if (!complete && !error) error = `stopped at the ${pagination.maxPages}-page limit`;
+  return { rows: allData, records: allData.length, pages, complete, error, via: Array.from(via), upstreamUpdatedAt };
+};
+
+/**
+ * Joins normalized description and availability rows into ParkingLotData using
+ * the adapter's field mapping and coordinate system. Rows whose coordinates do
+ * not convert are rejected into the report, at their index in the raw feed.
+ * Pure, so adapters can be exercised against fixture JSON.
+ */
+export const buildLots = (
+  adapter: DataSourceAdapter,
+  description: NormalizedRows<Record<string, any>>,
+  availRows: Record<string, any>[],
+  report: NormalizationReport = createReport(adapter.id),
+  now: number = Date.now()
+): ParkingLotData[] => {
+  const { fields } = adapter;
+  const descRows = description.rows;
+
+  const availMap = new Map<string, Record<string, any>>();
+  availRows.forEach(row => availMap.set(row[fields.availId], row));
+  // Unmapped or absent fields: no capacity, unknown availability
+  const countOf = (row: Record<string, any> | undefined, field: string | undefined, fallback: number): number =>
+    field && row && typeof row[field] === 'number' ? row[field] : fallback;
+
+  // One projection pass for the whole feed rather than one proj4 setup per row
+  const coords = toWGS84Batch(
+    descRows.map(desc => [parseFloat(desc[fields.x]), parseFloat(desc[fields.y])]),
+    adapter.coordinateSystem
+  );
+
+  const lots: ParkingLotData[] = [];
+  descRows.forEach((desc, index) => {
+    const id: string = desc[fields.id];
+    const [lat, lng] = coords[index];
+
+    if (lat === 0 || lng === 0) {
+      recordRejection(
+        report,
+        'description',
+        description.indices[index],
+        'invalid-coordinates',
+        `${fields.x}=${JSON.stringify(desc[fields.x])}, ${fields.y}=${JSON.stringify(desc[fields.y])}`,
+        id
+      );
+      report.accepted.description--;
+      return;
+    }
+
+    lots.push({
+      ...adapter.extras?.(desc),
+      id,
+      name: desc[fields.name],
+      address: desc[fields.address],
+      payex: desc[fields.payex],
+      totalcar: desc[fields.totalcar],
+      totalmotor: countOf(desc, fields.totalmotor, 0),
+      totalbike: countOf(desc, fields.totalbike, 0),
+      availablecar: countOf(availMap.get(id), fields.availablecar, -9),
+      availablemotor: countOf(availMap.get(id), fields.availablemotor, -9),
+      availablebike: countOf(availMap.get(id), fields.availablebike, -9),
+      lat,
+      lng,
+      lastUpdated: now,
+      source: adapter.id
+    });
+  });
+  return lots;
+};
+
+/**
+ * Validates and joins raw rows for one adapter.
+ */
+export const normalizeSource = (
+  adapter: DataSourceAdapter,
+  rawDesc: unknown[],
+  rawAvail: unknown[]
+): { lots: ParkingLotData[]; report: NormalizationReport } => {
+  const report = createReport(adapter.id);
+  const { fields, schemas } = adapter;
+  const desc = normalizeRows<Record<string, any>>(rawDesc, schemas.description, 'description', fields.id, report);
+  const avail = normalizeRows<Record<string, any>>(rawAvail, schemas.availability, 'availability', fields.availId, report);
+  return { lots: buildLots(adapter, desc, avail.rows, report), report };
+};
+
+// Descriptions (names, capacities, fares) change rarely; availability is what needs polling
+export const DESCRIPTION_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface CachedDescription {
+  result: EndpointResult;
+  fetchedAt: number;
+}
+
+// Per fetcher, so fixture fetchers and the network never share rows
+const descriptionCache = new WeakMap<JsonFetcher, WeakMap<DataSourceAdapter, CachedDescription>>();
+
+/**
+ * Description rows for an adapter, from the cache while they are younger than
+ * `ttlMs`. Only complete results are cached, so an interrupted pagination is
+ * retried on the next load. Re-registering an adapter starts a fresh entry.
+ */
+export const fetchDescription = async (
+  adapter: DataSourceAdapter,
+  fetchJson: JsonFetcher,
+  ttlMs: number = DESCRIPTION_TTL_MS,
+  now: number = Date.now()
+): Promise<EndpointResult> => {
+  let cache = descriptionCache.get(fetchJson);
+  if (!cache) {
+    cache = new WeakMap();
+    descriptionCache.set(fetchJson, cache);
+  }
+  const cached = cache.get(adapter);
+  if (cached && now - cached.fetchedAt < ttlMs) return { ...cached.result, cachedAt: cached.fetchedAt };
+
+  const result = await fetchEndpoint(adapter.description, fetchJson);
+  if (result.complete) cache.set(adapter, { result, fetchedAt: now });
+  return result;
+};
+
+export const clearDescriptionCache = (fetchJson: JsonFetcher) => {
+  descriptionCache.delete(fetchJson);
+};
+
+const failedStats = (error: unknown): EndpointFetchStats => ({
+  records: 0,
+  pages: 0,
+  complete: false,
+  error: errorMessage(error)
+});
+
+/**
+ * Loads one source end to end and describes how it went. Errors never
+ * propagate: a failing description feed marks the source failed, a failing
+ * availability feed or an interrupted pagination marks it partial. Description
+ * rows come from the cache while younger than `descriptionTtlMs`, so a refresh
+ * normally downloads only the availability feed.
+ */
+export const loadAdapter = async (
+  adapter: DataSourceAdapter,
+  fetchJson: JsonFetcher,
+  descriptionTtlMs: number = DESCRIPTION_TTL_MS
+): Promise<SourceLoadResult> => {
+  const started = Date.now();
+  const [descResult, availResult] = await Promise.allSettled([
+    fetchDescription(adapter, fetchJson, descriptionTtlMs),
+    fetchEndpoint(adapter.availability, fetchJson)
+  ]);
+
+  const desc = descResult.status === 'fulfilled' ? descResult.value : null;
+  const avail = availResult.status === 'fulfilled' ? availResult.value : null;
+
+  let lots: ParkingLotData[] = [];
+  let report = createReport(adapter.id);
+  let error: string | undefined;
+  try {
+    if (desc) ({ lots, report } = normalizeSource(adapter, desc.rows, avail?.rows ?? []));
+  } catch (err) {
+    console.error(`${adapter.id} Data Error:`, err);
+    error = errorMessage(err);
+  }
+
+  const descStats: EndpointFetchStats = desc
+    ? { records: desc.records, pages: desc.pages, complete: desc.complete, error: desc.error, cachedAt: desc.cachedAt }
+    : failedStats(descResult.status === 'rejected' ? descResult.reason : 'no data');
+  const availStats: EndpointFetchStats = avail
+    ? { records: avail.records, pages: avail.pages, complete: avail.complete, error: avail.error }
+    : failedStats(availResult.status === 'rejected' ? availResult.reason : 'no data');
+
+  if (!desc) console.error(`${adapter.id} Data Error:`, descStats.error);
+
+  const timestamps = [desc?.upstreamUpdatedAt, avail?.upstreamUpdatedAt].filter((t): t is number => typeof t === 'number');
+  const status = lots.length === 0
+    ? 'failed'
+    : descStats.complete && availStats.complete ? 'ok' : 'partial';
+
+  return {
+    lots,
+    report,
+    health: {
+      id: adapter.id,
+      label: adapter.label,
+      status,
+      records: lots.length,
+      description: descStats,
+      availability: availStats,
+      via: Array.from(new Set([...(desc && !desc.cachedAt ? desc.via : []), ...(avail?.via ?? [])])),
+      latencyMs: Date.now() - started,
+      // Availability is what goes stale, so prefer its timestamp
+      upstreamUpdatedAt: avail?.upstreamUpdatedAt ?? (timestamps.length > 0 ? Math.max(...timestamps) : null),
+      loadedAt: Date.now(),
+      error: error ?? descStats.error ?? availStats.error
+    }
+  };
+};
@@ -0,0 +1,79 @@
+import { DataSourceAdapter, NTPCParkingLotDesc, PaginationScheme, RecordSchema } from '../../types';
+
+// New Taipei City Base URLs
+const NTPC_DESC_BASE_URL = 'https://data.ntpc.gov.tw/api/datasets/b1464ef0-9c7c-4a6f-abf7-6bdf32847e68/json';
+const NTPC_AVAIL_BASE_URL = 'https://data.ntpc.gov.tw/api/datasets/e09b35a5-a738-48cc-b0f5-570b67ad9c78/json';
+
+// NTPC API requires pagination. Safety limit of 16 pages (approx 15000 entries)
+const NTPC_PAGINATION: PaginationScheme = {
+  kind: 'page',
+  pageParam: 'page',
+  sizeParam: 'size',
+  size: 1000,
+  firstPage: 0,
+  maxPages: 16
+};
+
+const text = { type: 'string', default: '' } as const;
+
+// Mirrors NTPCParkingLotDesc. Keys arrive in upper or lower case depending on the page.
+const NTPC_DESC_SCHEMA: RecordSchema = {
+  ID: { type: 'string', required: true },
+  NAME: { type: 'string', required: true },
+  TYPE: text,
+  AREA: text,
+  ADDRESS: text,
+  PAYEX: text,
+  SERVICETIME: text,
+  TW97X: text,
+  TW97Y: text,
+  TOTALCAR: { type: 'number', default: 0 },
+  TOTALMOTOR: { type: 'number', default: 0 }
+};
+
+// Mirrors NTPCParkingLotAvail
+const NTPC_AVAIL_SCHEMA: RecordSchema = {
+  ID: { type: 'string', required: true },
+  AVAILABLECAR: { type: 'number', default: -9 },
+  AVAILABLEMOTOR: { type: 'number', default: -9 }
+};
+
+export const newTaipeiAdapter: DataSourceAdapter = {
+  id: 'NTPC',
+  label: '新北市',
+  attribution: '新北市政府資料開放平台',
+  description: {
+    url: NTPC_DESC_BASE_URL,
+    transport: 'proxied',
+    pagination: NTPC_PAGINATION
+  },
+  availability: {
+    url: NTPC_AVAIL_BASE_URL,
+    transport: 'proxied',
+    pagination: NTPC_PAGINATION
+  },
+  coordinateSystem: 'TWD97',
+  schemas: {
+    description: NTPC_DESC_SCHEMA,
+    availability: NTPC_AVAIL_SCHEMA
+  },
+  fields: {
+    id: 'ID',
+    name: 'NAME',
+    address: 'ADDRESS',
+    payex: 'PAYEX',
+    totalcar: 'TOTALCAR',
+    x: 'TW97X',
+    y: 'TW97Y',
+    availId: 'ID',
+    availablecar: 'AVAILABLECAR',
+    totalmotor: 'TOTALMOTOR',
+    availablemotor: 'AVAILABLEMOTOR'
+  },
+  // Carry the descriptive fields the UI shares with TPC lots (search, filters)
+  extras: (desc: NTPCParkingLotDesc) => ({
+    area: desc.AREA,
+    type: desc.TYPE,
+    serviceTime: desc.SERVICETIME
+  })
+};
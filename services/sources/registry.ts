@@ -0,0 +1,19 @@
+import { DataSourceAdapter, ParkingSourceId } from '../../types';
+
+const adapters = new Map<ParkingSourceId, DataSourceAdapter>();
+
+/**
+ * Registers a data source. Registering an id twice replaces the earlier adapter,
+ * which lets a deployment override a built-in feed (e.g. point TPC at a mirror).
+ */
+export const registerAdapter = (adapter: DataSourceAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+export const unregisterAdapter = (id: ParkingSourceId) => {
+  adapters.delete(id);
+};
+
+export const getAdapter = (id: ParkingSourceId): DataSourceAdapter | undefined => adapters.get(id);
+
+export const getAdapters = (): DataSourceAdapter[] => Array.from(adapters.values());
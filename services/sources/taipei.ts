@@ -0,0 +1,89 @@
+import { DataSourceAdapter, ParkingLotDesc, RecordSchema } from '../../types';
+
+// Taipei City URLs
+const TPC_DESC_URL = 'https://tcgbusfs.blob.core.windows.net/blobtcmsv/TCMSV_alldesc.json';
+const TPC_AVAIL_URL = 'https://tcgbusfs.blob.core.windows.net/blobtcmsv/TCMSV_allavailable.json';
+
+// Both TPC files wrap their rows as { data: { park: [...] } }
+const parkRecords = (json: any): any[] => json?.data?.park ?? [];
+const updateTime = (json: any): string | undefined => json?.data?.UPDATETIME;
+
+const text = { type: 'string', default: '' } as const;
+const flag = { type: 'string', default: '0' } as const;
+
+// Mirrors ParkingLotDesc
+const TPC_DESC_SCHEMA: RecordSchema = {
+  id: { type: 'string', required: true },
+  area: text,
+  name: { type: 'string', required: true },
+  type: text,
+  type2: text,
+  summary: text,
+  address: text,
+  tel: text,
+  payex: text,
+  serviceTime: text,
+  tw97x: text,
+  tw97y: text,
+  totalcar: { type: 'number', default: 0 },
+  totalmotor: { type: 'number', default: 0 },
+  totalbike: { type: 'number', default: 0 },
+  Pregnancy_First: flag,
+  Handicap_First: flag,
+  Taxi_OneHR_Free: flag,
+  AED_Equipment: flag,
+  CellSignal_Enhancement: flag,
+  Accessibility_Elevator: flag,
+  Phone_Charge: flag,
+  Child_Pickup_Area: flag,
+  FareInfo: { type: 'object', default: { WorkingDay: [], Holiday: [] } },
+  EntranceCoord: { type: 'object', default: { EntrancecoordInfo: [] } }
+};
+
+// Mirrors ParkingLotAvail
+const TPC_AVAIL_SCHEMA: RecordSchema = {
+  id: { type: 'string', required: true },
+  availablecar: { type: 'number', default: -9 },
+  availablemotor: { type: 'number', default: -9 }
+};
+
+export const taipeiAdapter: DataSourceAdapter = {
+  id: 'TPC',
+  label: '臺北市',
+  attribution: '臺北市政府資料開放平台',
+  description: {
+    url: TPC_DESC_URL,
+    transport: 'direct',
+    pagination: { kind: 'none' },
+    records: parkRecords,
+    timestamp: updateTime
+  },
+  availability: {
+    url: TPC_AVAIL_URL,
+    transport: 'direct',
+    pagination: { kind: 'none' },
+    records: parkRecords,
+    timestamp: updateTime
+  },
+  coordinateSystem: 'TWD97',
+  schemas: {
+    description: TPC_DESC_SCHEMA,
+    availability: TPC_AVAIL_SCHEMA
+  },
+  fields: {
+    id: 'id',
+    name: 'name',
+    address: 'address',
+    payex: 'payex',
+    totalcar: 'totalcar',
+    x: 'tw97x',
+    y: 'tw97y',
+    availId: 'id',
+    availablecar: 'availablecar',
+    totalmotor: 'totalmotor',
+    totalbike: 'totalbike',
+    availablemotor: 'availablemotor'
+  },
+  // TPC descriptions are rich (fares, amenities, entrances), keep everything
+  extras: (desc: ParkingLotDesc) => desc
+};
@@ -0,0 +1,123 @@
+import { ParkingLotData } from '../types';
+import { Bounds } from './geo';
+
+// Must match the TileLayer URL so cached responses are hit by the service worker
+export const TILE_URL_TEMPLATE = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+// Cache names shared with public/sw.js
+export const TILE_PRECACHE = 'tiles-precache-v1';
+
+// Keep bulk downloads polite towards the public OSM tile servers
+export const MAX_PRECACHE_TILES = 1500;
+export const DEFAULT_PRECACHE_ZOOMS = [13, 14, 15, 16, 17];
+
+const SUBDOMAINS = 'abc';
+
+const lngToTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+const latToTileY = (lat: number, z: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+/**
+ * Tile URLs covering `bounds` at each zoom, with the subdomain Leaflet would pick.
+ */
+export const tileUrlsForBounds = (bounds: Bounds, zooms: number[]): string[] => {
+  const urls: string[] = [];
+  zooms.forEach(z => {
+    const minX = lngToTileX(bounds.west, z);
+    const maxX = lngToTileX(bounds.east, z);
+    const minY = latToTileY(bounds.north, z);
+    const maxY = latToTileY(bounds.south, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const s = SUBDOMAINS[Math.abs(x + y) % SUBDOMAINS.length];
+        urls.push(TILE_URL_TEMPLATE.replace('{s}', s).replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)));
+      }
+    }
+  });
+  return urls;
+};
+
+export interface District {
+  name: string;
+  bounds: Bounds;
+  lotCount: number;
+}
+
+// Padding around the lots of a district, in degrees (~300 m)
+const DISTRICT_PADDING = 0.003;
+
+/**
+ * Districts derived from the loaded lots' `area`, each bounded by the extent
+ * of its lots. Needs no boundary data, so it also works from a cached snapshot.
+ */
+export const districtsFromLots = (lots: ParkingLotData[]): District[] => {
+  const districts = new Map<string, District>();
+  lots.forEach(lot => {
+    if (!lot.area) return;
+    const d = districts.get(lot.area);
+    if (!d) {
+      districts.set(lot.area, {
+        name: lot.area,
+        bounds: { south: lot.lat, north: lot.lat, west: lot.lng, east: lot.lng },
+        lotCount: 1
+      });
+      return;
+    }
+    d.bounds.south = Math.min(d.bounds.south, lot.lat);
+    d.bounds.north = Math.max(d.bounds.north, lot.lat);
+    d.bounds.west = Math.min(d.bounds.west, lot.lng);
+    d.bounds.east = Math.max(d.bounds.east, lot.lng);
+    d.lotCount++;
+  });
+  return Array.from(districts.values())
+    .map(d => ({
+      ...d,
+      bounds: {
+        south: d.bounds.south - DISTRICT_PADDING,
+        north: d.bounds.north + DISTRICT_PADDING,
+        west: d.bounds.west - DISTRICT_PADDING,
+        east: d.bounds.east + DISTRICT_PADDING
+      }
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'zh-Hant'));
+};
+
+/**
+ * Downloads tiles into the precache so the service worker can serve them
+ * offline. Already cached tiles are skipped. Resolves with the number of
+ * tiles that failed to download.
+ */
+export const precacheTiles = async (
+  urls: string[],
+  onProgress: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<number> => {
+  if (typeof caches === 'undefined') throw new Error('Cache Storage is not available');
+  if (urls.length > MAX_PRECACHE_TILES) {
+    throw new Error(`Too many tiles (${urls.length} > ${MAX_PRECACHE_TILES})`);
+  }
+
+  const cache = await caches.open(TILE_PRECACHE);
+  let done = 0;
+  let failed = 0;
+  // A few requests at a time, as the OSM tile usage policy asks
+  const queue = [...urls];
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const url = queue.shift()!;
+      try {
+        if (!(await cache.match(url))) {
+          const res = await fetch(url, { mode: 'cors', signal });
+          if (res.ok) await cache.put(url, res);
+          else failed++;
+        }
+      } catch (err) {
+        failed++;
+      }
+      onProgress(++done, urls.length);
+    }
+  };
+  await Promise.all([worker(), worker()]);
+  return failed;
+};
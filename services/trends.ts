@@ -0,0 +1,152 @@
+import { AvailabilitySample } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+// Taiwan has no DST, so local time is a fixed UTC+8 offset
+const TAIPEI_OFFSET = 8 * HOUR;
+// A reading is considered valid for this long when filling gaps between samples
+const MAX_SAMPLE_AGE = 2 * HOUR;
+
+// Fixed-date national holidays (MM-DD). Lunar holidays move every year and are not included.
+const FIXED_HOLIDAYS = new Set(['01-01', '02-28', '04-04', '04-05', '05-01', '10-10']);
+
+export interface TaipeiTime {
+  dayKey: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+export const toTaipeiTime = (t: number): TaipeiTime => {
+  const d = new Date(t + TAIPEI_OFFSET);
+  return {
+    dayKey: d.toISOString().slice(0, 10),
+    weekday: d.getUTCDay(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes()
+  };
+};
+
+/**
+ * Weekends and fixed-date national holidays, in Taipei time.
+ */
+export const isHoliday = (t: number): boolean => {
+  const { dayKey, weekday } = toTaipeiTime(t);
+  return weekday === 0 || weekday === 6 || FIXED_HOLIDAYS.has(dayKey.slice(5));
+};
+
+/**
+ * Occupancy ratio (0 = empty, 1 = full) for a reading. Qualitative codes map
+ * onto the middle of the band they describe; -9 and unknown values give null.
+ */
+export const occupancyOf = (available: number, total: number): number | null => {
+  if (available === -11) return 0.25; // 剩餘格位足夠
+  if (available === -12) return 0.7;  // 剩餘格位不足半數
+  if (available === -13) return 0.95; // 剩餘格數不足
+  if (available < 0 || !total) return null;
+  return Math.min(1, Math.max(0, 1 - available / total));
+};
+
+const sampleOccupancy = (s: AvailabilitySample) => occupancyOf(s.available, s.total);
+
+/**
+ * The reading in effect at time `t`: the latest sample at or before it, as long
+ * as that sample is not older than MAX_SAMPLE_AGE. Samples must be sorted by t.
+ */
+export const sampleAt = (samples: AvailabilitySample[], t: number): AvailabilitySample | null => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found === -1 || t - samples[found].t > MAX_SAMPLE_AGE) return null;
+  return samples[found];
+};
+
+export interface SeriesPoint {
+  t: number;
+  occupancy: number | null;
+}
+
+/**
+ * Occupancy over the last `hours`, resampled every `stepMinutes`.
+ */
+export const recentSeries = (
+  samples: AvailabilitySample[],
+  now: number,
+  hours = 24,
+  stepMinutes = 15
+): SeriesPoint[] => {
+  const step = stepMinutes * 60 * 1000;
+  const points: SeriesPoint[] = [];
+  for (let t = now - hours * HOUR; t <= now; t += step) {
+    const sample = sampleAt(samples, t);
+    points.push({ t, occupancy: sample ? sampleOccupancy(sample) : null });
+  }
+  return points;
+};
+
+export interface TypicalCurves {
+  // Mean occupancy per Taipei hour of day (index 0–23), null where no data
+  weekday: (number | null)[];
+  holiday: (number | null)[];
+  weekdayDays: number;
+  holidayDays: number;
+}
+
+/**
+ * Typical occupancy by hour of day for working days and holidays. Each day is
+ * averaged on its own first so a day with many samples does not dominate.
+ */
+export const typicalCurves = (samples: AvailabilitySample[]): TypicalCurves => {
+  // dayKey → hour → [sum, count]
+  const days = new Map<string, { holiday: boolean; hours: Map<number, [number, number]> }>();
+
+  samples.forEach(sample => {
+    const occupancy = sampleOccupancy(sample);
+    if (occupancy === null) return;
+    const { dayKey, hour } = toTaipeiTime(sample.t);
+    let day = days.get(dayKey);
+    if (!day) {
+      day = { holiday: isHoliday(sample.t), hours: new Map() };
+      days.set(dayKey, day);
+    }
+    const bucket = day.hours.get(hour) ?? [0, 0];
+    bucket[0] += occupancy;
+    bucket[1]++;
+    day.hours.set(hour, bucket);
+  });
+
+  const accumulate = (holiday: boolean) => {
+    const sums = new Array(24).fill(0);
+    const counts = new Array(24).fill(0);
+    let dayCount = 0;
+    days.forEach(day => {
+      if (day.holiday !== holiday) return;
+      dayCount++;
+      day.hours.forEach(([sum, count], hour) => {
+        sums[hour] += sum / count;
+        counts[hour]++;
+      });
+    });
+    return {
+      curve: sums.map((sum, hour) => (counts[hour] ? sum / counts[hour] : null)),
+      dayCount
+    };
+  };
+
+  const weekday = accumulate(false);
+  const holiday = accumulate(true);
+  return {
+    weekday: weekday.curve,
+    holiday: holiday.curve,
+    weekdayDays: weekday.dayCount,
+    holidayDays: holiday.dayCount
+  };
+};
@@ -0,0 +1,202 @@
+import {
+  FeedDataset,
+  FieldSpec,
+  NormalizationReport,
+  ParkingSourceId,
+  RecordSchema,
+  RejectionReason
+} from '../types';
+
+export const createReport = (source: ParkingSourceId): NormalizationReport => ({
+  source,
+  received: { description: 0, availability: 0 },
+  accepted: { description: 0, availability: 0 },
+  rejected: [],
+  coerced: [],
+  unknownFields: []
+});
+
+export const recordRejection = (
+  report: NormalizationReport,
+  dataset: FeedDataset,
+  index: number,
+  reason: RejectionReason,
+  detail: string,
+  id?: string
+) => {
+  report.rejected.push({ dataset, index, id, reason, detail });
+};
+
+const recordCoercion = (
+  report: NormalizationReport,
+  dataset: FeedDataset,
+  field: string,
+  kind: string,
+  sample: unknown
+) => {
+  const existing = report.coerced.find(c => c.dataset === dataset && c.field === field && c.kind === kind);
+  if (existing) existing.count++;
+  else report.coerced.push({ dataset, field, kind, count: 1, sample });
+};
+
+const recordUnknownField = (report: NormalizationReport, dataset: FeedDataset, field: string) => {
+  const existing = report.unknownFields.find(u => u.dataset === dataset && u.field === field);
+  if (existing) existing.count++;
+  else report.unknownFields.push({ dataset, field, count: 1 });
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+type Coerced = { ok: true; value: unknown; kind?: string } | { ok: false };
+
+// Attempts to turn a present value into the spec's type
+const coerceValue = (value: unknown, spec: FieldSpec): Coerced => {
+  const actual = describeType(value);
+  if (actual === spec.type) {
+    if (spec.type === 'number' && isNaN(value as number)) return { ok: false };
+    return { ok: true, value };
+  }
+
+  if (spec.type === 'string' && (actual === 'number' || actual === 'boolean')) {
+    return { ok: true, value: String(value), kind: `${actual}→string` };
+  }
+
+  if (spec.type === 'number' && actual === 'string') {
+    const trimmed = (value as string).trim();
+    const parsed = Number(trimmed);
+    if (trimmed !== '' && !isNaN(parsed)) return { ok: true, value: parsed, kind: 'string→number' };
+  }
+
+  return { ok: false };
+};
+
+export interface NormalizedRows<T> {
+  rows: T[];
+  // Position of each clean row in the raw feed, so later rejections point at the source row
+  indices: number[];
+}
+
+/**
+ * Validates raw feed rows against a schema and returns clean records with
+ * canonical key names and types. Everything that was not taken verbatim is
+ * written to the report: rejected rows, coerced values and unexpected fields.
+ */
+export const normalizeRows = <T>(
+  rows: unknown[],
+  schema: RecordSchema,
+  dataset: FeedDataset,
+  idField: string,
+  report: NormalizationReport
+): NormalizedRows<T> => {
+  const canonicalKeys = new Map<string, string>();
+  Object.keys(schema).forEach(key => canonicalKeys.set(key.toLowerCase(), key));
+
+  const seenIds = new Set<string>();
+  const clean: T[] = [];
+  const indices: number[] = [];
+  report.received[dataset] += rows.length;
+
+  rows.forEach((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      recordRejection(report, dataset, index, 'not-an-object', `row is ${describeType(row)}`);
+      return;
+    }
+
+    // Map raw keys onto schema keys, tolerating case differences between feeds
+    const raw: Record<string, unknown> = {};
+    Object.entries(row as Record<string, unknown>).forEach(([key, value]) => {
+      const canonical = canonicalKeys.get(key.toLowerCase());
+      if (!canonical) {
+        recordUnknownField(report, dataset, key);
+        return;
+      }
+      if (canonical !== key) recordCoercion(report, dataset, canonical, 'key case', key);
+      // An exact-case key wins over a case variant of the same field
+      if (!(canonical in raw) || canonical === key) raw[canonical] = value;
+    });
+
+    const rawId = raw[idField];
+    const id = rawId === undefined || rawId === null ? undefined : String(rawId);
+    const record: Record<string, unknown> = {};
+    let rejection: { reason: RejectionReason; detail: string } | null = null;
+
+    for (const [field, spec] of Object.entries(schema)) {
+      const value = raw[field];
+      // Empty strings count as absent for non-string fields ("" totals, blank coordinates)
+      const absent = value === undefined || value === null || (value === '' && spec.type !== 'string');
+
+      if (absent) {
+        if (spec.required) {
+          rejection = { reason: 'missing-required', detail: `${field} is missing` };
+          break;
+        }
+        if (spec.default !== undefined) {
+          record[field] = spec.default;
+          recordCoercion(report, dataset, field, 'missing→default', value);
+        }
+        continue;
+      }
+
+      const result = coerceValue(value, spec);
+      if (result.ok) {
+        record[field] = result.value;
+        if (result.kind) recordCoercion(report, dataset, field, result.kind, value);
+      } else if (!spec.required && spec.default !== undefined) {
+        record[field] = spec.default;
+        recordCoercion(report, dataset, field, 'invalid→default', value);
+      } else {
+        rejection = {
+          reason: 'invalid-type',
+          detail: `${field} expected ${spec.type}, got ${describeType(value)} ${JSON.stringify(value)}`
+        };
+        break;
+      }
+    }
+
+    if (!rejection && id !== undefined) {
+      if (id === '') {
+        rejection = { reason: 'missing-required', detail: `${idField} is empty` };
+      } else if (seenIds.has(id)) {
+        rejection = { reason: 'duplicate-id', detail: `${idField} ${id} already seen` };
+      }
+    }
+
+    if (rejection) {
+      recordRejection(report, dataset, index, rejection.reason, rejection.detail, id);
+      return;
+    }
+
+    if (id !== undefined) seenIds.add(id);
+    clean.push(record as T);
+    indices.push(index);
+  });
+
+  report.accepted[dataset] += clean.length;
+  return { rows: clean, indices };
+};
+
+/**
+ * One-line summary suitable for logging, e.g.
+ * "NTPC: 1520/1523 lots, 3 rejected (2 invalid-coordinates, 1 duplicate-id), 1523 coerced values, 1 unknown field".
+ */
+export const summarizeReport = (report: NormalizationReport): string => {
+  const reasons = new Map<RejectionReason, number>();
+  report.rejected.forEach(r => reasons.set(r.reason, (reasons.get(r.reason) ?? 0) + 1));
+  const reasonText = Array.from(reasons.entries()).map(([reason, n]) => `${n} ${reason}`).join(', ');
+  const coercedCount = report.coerced.reduce((sum, c) => sum + c.count, 0);
+
+  const parts = [
+    `${report.source}: ${report.accepted.description}/${report.received.description} lots`,
+    `${report.rejected.length} rejected${reasonText ? ` (${reasonText})` : ''}`,
+    `${coercedCount} coerced values`,
+    `${report.unknownFields.length} unknown field${report.unknownFields.length === 1 ? '' : 's'}`
+  ];
+  return parts.join(', ');
+};
+
+export const hasIssues = (report: NormalizationReport): boolean =>
+  report.rejected.length > 0 || report.unknownFields.length > 0;
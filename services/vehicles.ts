@@ -0,0 +1,45 @@
+import { ParkingLotData, VehicleType } from '../types';
+import { MessageKey, t } from './i18n';
+
+export const VEHICLES: Array<{ type: VehicleType; labelKey: MessageKey; icon: string }> = [
+  { type: 'car', labelKey: 'vehicle.car', icon: '🚗' },
+  { type: 'motor', labelKey: 'vehicle.motor', icon: '🛵' },
+  { type: 'bike', labelKey: 'vehicle.bike', icon: '🚲' }
+];
+
+export const vehicleLabel = (vehicle: VehicleType) => {
+  const entry = VEHICLES.find(v => v.type === vehicle);
+  return entry ? t(entry.labelKey) : vehicle;
+};
+
+export const isVehicleType = (value: unknown): value is VehicleType =>
+  VEHICLES.some(v => v.type === value);
+
+type VehicleFields = Pick<ParkingLotData, 'availablecar' | 'availablemotor' | 'availablebike' | 'totalcar' | 'totalmotor' | 'totalbike'>;
+
+/**
+ * Live availability for the vehicle type, in the availablecar encoding.
+ * Lots cached before two-wheeler support lack the fields and read as -9.
+ */
+export const availableOf = (lot: VehicleFields, vehicle: VehicleType): number => {
+  if (vehicle === 'motor') return lot.availablemotor ?? -9;
+  if (vehicle === 'bike') return lot.availablebike ?? -9;
+  return lot.availablecar;
+};
+
+export const capacityOf = (lot: VehicleFields, vehicle: VehicleType): number => {
+  if (vehicle === 'motor') return lot.totalmotor ?? 0;
+  if (vehicle === 'bike') return lot.totalbike ?? 0;
+  return lot.totalcar;
+};
+
+/**
+ * Whether a lot takes this vehicle type: it lists spaces for it, or reports
+ * free spaces / a status for it. TPC reports 0 free motorcycle spaces for lots
+ * with no motorcycle bays, so a bare 0 without capacity does not count.
+ */
+export const servesVehicle = (lot: VehicleFields, vehicle: VehicleType) => {
+  if (capacityOf(lot, vehicle) > 0) return true;
+  const available = availableOf(lot, vehicle);
+  return available !== -9 && available !== 0;
+};
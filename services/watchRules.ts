@@ -0,0 +1,112 @@
+import { ParkingLotData, WatchAlert, WatchCondition, WatchRule } from '../types';
+import { getAvailabilityText } from './availability';
+import { keysOf, lotKey } from './identity';
+import { availableOf, vehicleLabel } from './vehicles';
+import { formatNumber, t } from './i18n';
+import { toTaipeiTime } from './trends';
+
+// Whether each rule's condition held at the previous evaluation, by rule id
+export type WatchState = Record<string, boolean>;
+
+/**
+ * "HH:MM" → minutes after midnight, or null when malformed.
+ */
+export const parseClock = (text: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `t` falls inside the rule's Taipei-time window. Rules without a
+ * window are always active; a window ending before it starts wraps midnight.
+ */
+export const inWindow = (window: WatchRule['window'], t: number): boolean => {
+  if (!window) return true;
+  const start = parseClock(window.start);
+  const end = parseClock(window.end);
+  if (start === null || end === null) return true;
+  const { hour, minute } = toTaipeiTime(t);
+  const now = hour * 60 + minute;
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * Numeric thresholds only match numeric counts: a lot reporting a code such
+ * as -12 has no count to compare, and -9 is never a match.
+ */
+export const matchesCondition = (condition: WatchCondition, available: number): boolean => {
+  if (condition.kind === 'below') return available >= 0 && available < condition.threshold;
+  return available === condition.code;
+};
+
+export const describeCondition = (condition: WatchCondition): string =>
+  condition.kind === 'below'
+    ? t('watch.below', { count: formatNumber(condition.threshold) })
+    : t('watch.status', { status: getAvailabilityText(condition.code) });
+
+// The vehicle comes first: the same threshold means something else for scooters
+const describeWatched = (rule: WatchRule): string =>
+  `${vehicleLabel(rule.vehicle)} ${describeCondition(rule.condition)}`;
+
+export const describeRule = (rule: WatchRule): string =>
+  rule.window
+    ? `${rule.window.start}–${rule.window.end} ${describeWatched(rule)}`
+    : describeWatched(rule);
+
+/**
+ * Checks every enabled rule against the latest lots, counting the spaces of
+ * the rule's vehicle. Alerts are edge
+ * triggered: a rule fires when its condition starts holding (inside its
+ * window), not on every refresh while it keeps holding. Leaving the window
+ * resets the rule; a lot missing from the data or reporting -9 leaves its
+ * state untouched.
+ */
+export const evaluateRules = (
+  rules: WatchRule[],
+  lots: ParkingLotData[],
+  previous: WatchState,
+  now: number = Date.now()
+): { alerts: WatchAlert[]; state: WatchState } => {
+  const byKey = new Map(lots.flatMap(lot => keysOf(lot).map(key => [key, lot] as const)));
+  const state: WatchState = {};
+  const alerts: WatchAlert[] = [];
+
+  rules.forEach(rule => {
+    const wasMatching = previous[rule.id] ?? false;
+    if (!rule.enabled || !inWindow(rule.window, now)) {
+      state[rule.id] = false;
+      return;
+    }
+
+    const key = lotKey(rule.source, rule.lotId);
+    const lot = byKey.get(key);
+    const available = lot ? availableOf(lot, rule.vehicle) : -9;
+    if (!lot || available === -9) {
+      state[rule.id] = wasMatching;
+      return;
+    }
+
+    const matching = matchesCondition(rule.condition, available);
+    state[rule.id] = matching;
+    if (matching && !wasMatching) {
+      alerts.push({
+        ruleId: rule.id,
+        lotKey: key,
+        lotName: lot.name,
+        available,
+        message: t('watch.alert', {
+          name: lot.name,
+          condition: describeWatched(rule),
+          current: getAvailabilityText(available)
+        }),
+        t: now
+      });
+    }
+  });
+
+  return { alerts, state };
+};
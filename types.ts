@@ -52,15 +52,166 @@ export interface NTPCParkingLotDesc {
   SERVICETIME: string;
   TW97X: string;
   TW97Y: string;
-  TOTALCAR: string; // NTPC often returns numbers as strings
-  TOTALMOTOR: string;
+  TOTALCAR: number; // NTPC often returns numbers as strings, normalized on load
+  TOTALMOTOR: number;
 }
 
 export interface NTPCParkingLotAvail {
   ID: string;
-  AVAILABLECAR: string; // NTPC often returns numbers as strings
+  AVAILABLECAR: number; // NTPC often returns numbers as strings, normalized on load
+  AVAILABLEMOTOR: number; // -9 on rows that do not carry it
 }
 
+// Adapter ids are open-ended so new cities / private feeds can register themselves
+export type ParkingSourceId = 'TPC' | 'NTPC' | (string & {});
+
+// TWD67 appears in older datasets; it sits roughly 800 m off TWD97 and cannot be told apart by magnitude
+export type CoordinateSystem = 'TWD97' | 'TWD67' | 'WGS84';
+
+export type PaginationScheme =
+  | { kind: 'none' }
+  | {
+      kind: 'page';
+      pageParam: string;
+      sizeParam: string;
+      size: number;
+      firstPage: number;
+      maxPages: number;
+    };
+
+/**
+ * How an endpoint is reached. `direct` endpoints send CORS headers themselves,
+ * `proxied` endpoints go through the proxy chain when a direct call fails.
+ */
+export type Transport = 'direct' | 'proxied';
+
+export interface SourceEndpoint {
+  url: string;
+  transport: Transport;
+  pagination: PaginationScheme;
+  // Pulls the record array out of a response body (defaults to the body itself)
+  records?: (json: any) => any[];
+  // Reads the upstream "data as of" time from a response body, when the feed has one
+  timestamp?: (json: any) => string | number | undefined;
+}
+
+/**
+ * Field names in the raw feed, for the values every ParkingLotData needs.
+ * For WGS84 sources `x` is longitude and `y` is latitude.
+ */
+export interface SourceFieldMapping {
+  id: string;
+  name: string;
+  address: string;
+  payex: string;
+  totalcar: string;
+  x: string;
+  y: string;
+  availId: string;
+  availablecar: string;
+  // Two-wheeler fields, for feeds that publish them
+  totalmotor?: string;
+  totalbike?: string;
+  availablemotor?: string;
+  availablebike?: string;
+}
+
+// Runtime schema used to validate and normalize raw feed rows
+export type FieldType = 'string' | 'number' | 'object' | 'array';
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  // Substituted (and reported as a coercion) when the value is missing or unparseable
+  default?: unknown;
+}
+
+export type RecordSchema = Record<string, FieldSpec>;
+
+export type FeedDataset = 'description' | 'availability';
+
+export type RejectionReason =
+  | 'not-an-object'
+  | 'missing-required'
+  | 'invalid-type'
+  | 'duplicate-id'
+  | 'invalid-coordinates';
+
+export interface RejectedRow {
+  dataset: FeedDataset;
+  index: number;
+  id?: string;
+  reason: RejectionReason;
+  detail: string;
+}
+
+export interface FieldCoercion {
+  dataset: FeedDataset;
+  field: string;
+  // e.g. "string→number", "missing→default", "key case"
+  kind: string;
+  count: number;
+  sample: unknown;
+}
+
+export interface FieldOccurrence {
+  dataset: FeedDataset;
+  field: string;
+  count: number;
+}
+
+export interface NormalizationReport {
+  source: ParkingSourceId;
+  received: Record<FeedDataset, number>;
+  accepted: Record<FeedDataset, number>;
+  rejected: RejectedRow[];
+  coerced: FieldCoercion[];
+  unknownFields: FieldOccurrence[];
+}
+
+export type SourceStatus = 'ok' | 'partial' | 'stale' | 'failed';
+
+export interface EndpointFetchStats {
+  records: number;
+  pages: number;
+  // False when pagination stopped on an error or hit the page limit
+  complete: boolean;
+  error?: string;
+  // Set when the rows came from the description cache: when they were fetched, epoch ms
+  cachedAt?: number;
+}
+
+// Per-source outcome of one fetchParkingData call
+export interface SourceHealth {
+  id: ParkingSourceId;
+  label: string;
+  status: SourceStatus;
+  records: number; // lots that made it onto the map
+  description: EndpointFetchStats;
+  availability: EndpointFetchStats;
+  via: string[];   // routes that served the responses, e.g. "direct", "corsproxy.io"
+  latencyMs: number;
+  upstreamUpdatedAt: number | null; // the feed's own timestamp, epoch ms
+  loadedAt: number;
+  error?: string;
+}
+
+export interface DataSourceAdapter {
+  id: ParkingSourceId;
+  label: string;
+  // Credit line for exports and the page footer, e.g. the open data platform's name
+  attribution: string;
+  description: SourceEndpoint;
+  availability: SourceEndpoint;
+  coordinateSystem: CoordinateSystem;
+  fields: SourceFieldMapping;
+  schemas: Record<FeedDataset, RecordSchema>;
+  // Extra properties carried over from the raw description record
+  extras?: (desc: any) => Partial<ParkingLotDesc>;
+}
+
+export type VehicleType = 'car' | 'motor' | 'bike';
+
 export interface ParkingLotData extends Partial<ParkingLotDesc> {
   id: string;
   name: string;
@@ -68,10 +219,136 @@ export interface ParkingLotData extends Partial<ParkingLotDesc> {
   payex: string;
   totalcar: number;
   availablecar: number;
+  // Same encoding as availablecar; -9 where the feed has no two-wheeler data
+  availablemotor?: number;
+  availablebike?: number;
   lat: number;
   lng: number;
   lastUpdated: number;
-  source: 'TPC' | 'NTPC'; // Identify source
+  source: ParkingSourceId; // Identify source (adapter id)
+  forecast?: AvailabilityForecast; // Set when the map shows predicted availability
+  // Set when reconciliation merged feeds describing the same lot; the first entry is this lot's own source/id
+  provenance?: LotProvenance[];
+}
+
+export interface LotProvenance {
+  source: ParkingSourceId;
+  id: string;
+  name: string;
+}
+
+// Cross-source duplicates folded into one lot
+export interface DuplicateMerge {
+  key: string;      // keyOf the surviving lot
+  merged: string[]; // keyOf every lot folded into it, the survivor included
+  names: string[];
+  distanceMeters: number;
+  similarity: number; // name similarity in 0..1
+}
+
+// A field on which merged duplicates disagreed; the survivor's value was kept
+export interface FieldConflict {
+  key: string;
+  field: string;
+  values: Array<{ lot: string; value: string | number }>;
+}
+
+export interface ReconciliationReport {
+  merges: DuplicateMerge[];
+  conflicts: FieldConflict[];
+}
+
+// One recorded availability reading for a lot
+export interface AvailabilitySample {
+  source: ParkingSourceId;
+  id: string;
+  // Absent on readings recorded before vehicle modes, which were all car spaces
+  vehicle?: VehicleType;
+  t: number; // epoch ms
+  available: number;
+  total: number;
+}
+
+// Running occupancy statistics for one lot in one weekday × hour slot
+export interface SlotStats {
+  n: number;
+  sum: number;
+  sumSq: number;
+  qualitative: number; // readings that were -11/-12/-13 codes
+}
+
+export type ForecastMethod = 'seasonal-weekday' | 'seasonal-daytype' | 'persistence' | 'none';
+
+export interface AvailabilityForecast {
+  arrival: number; // epoch ms
+  // Whose spaces the forecast predicts
+  vehicle: VehicleType;
+  // Same encoding as availablecar: a count, or -11/-12/-13 for qualitative lots, -9 when unknown
+  available: number;
+  low: number;
+  high: number;
+  occupancy: number | null;
+  method: ForecastMethod;
+  sampleCount: number;
+}
+
+export type FareUnit = 'hour' | 'half-hour' | 'entry';
+
+export interface FarePeriod {
+  start: number; // minutes after midnight
+  end: number;   // minutes after midnight, may be <= start for overnight periods
+  rate: number;
+  unit: FareUnit;
+}
+
+export type TariffStatus = 'parsed' | 'partial' | 'unparsed';
+
+export interface Tariff {
+  workingDay: FarePeriod[];
+  holiday: FarePeriod[];
+  firstHourRate?: number; // Overrides the period rate for the first hour of a stay
+  dailyCap?: number;      // Maximum charge per calendar day
+  status: TariffStatus;
+  unparsed: string[];     // Fare text fragments that carried numbers but were not understood
+}
+
+export interface StayCost {
+  cost: number | null;
+  // Reasons the estimate may be off, e.g. "unparsed-text", "no-period"
+  flags: string[];
+}
+
+// A starred lot; name is kept so the list still reads well when the lot is missing from a refresh
+export interface FavoriteLot {
+  source: ParkingSourceId;
+  id: string;
+  name: string;
+  addedAt: number;
+}
+
+export type WatchCondition =
+  | { kind: 'below'; threshold: number } // numeric availablecar under threshold
+  | { kind: 'status'; code: -11 | -12 | -13 }; // lot reports this qualitative code
+
+export interface WatchRule {
+  id: string;
+  source: ParkingSourceId;
+  lotId: string;
+  condition: WatchCondition;
+  // Whose spaces the condition counts: the vehicle mode the rule was created in
+  vehicle: VehicleType;
+  // Active window in Taipei time, "HH:MM"; end before start wraps past midnight
+  window?: { start: string; end: string };
+  enabled: boolean;
+}
+
+export interface WatchAlert {
+  ruleId: string;
+  lotKey: string;
+  lotName: string;
+  available: number;
+  message: string;
+  t: number;
 }
 
 export interface APIResponseDesc {
@@ -12,12 +12,29 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Optional aggregation server (npm run server); empty = fetch the city feeds directly
+        'process.env.PARKING_API_URL': JSON.stringify(env.PARKING_API_URL ?? ''),
+        // Library builds leave this to the bundler using them; the widget is used as is
+        ...(mode === 'widget' && { 'process.env.NODE_ENV': JSON.stringify('production') })
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `npm run build:widget`: the <parking-widget> element as one self-contained
+      // script (React and Leaflet bundled in) for host pages to load
+      ...(mode === 'widget' && {
+        build: {
+          outDir: 'dist/widget',
+          copyPublicDir: false,
+          lib: {
+            entry: path.resolve(__dirname, 'widget.tsx'),
+            formats: ['es' as const],
+            fileName: () => 'parking-widget.js'
+          }
+        }
+      })
     };
 });
@@ -0,0 +1,6 @@
+import { defineParkingWidget } from './components/ParkingWidgetElement';
+import { detectLocale, setLocale } from './services/i18n';
+
+// Standalone entry for host pages: loads only the <parking-widget> element, not the app
+setLocale(detectLocale(), false);
+defineParkingWidget();